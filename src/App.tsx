@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { ThemeProvider, CssBaseline } from '@mui/material';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route } from 'react-router-dom';
 
 import config from './config/config';
 import { darkTheme, lightTheme } from './common/theme';
@@ -13,6 +13,13 @@ import ForgotPasswordPage from './pages/ForgotPasswordPage.tsx';
 import PasswordRecoveryPage from './pages/PasswordRecoveryPage.tsx';
 import { AppToastContainer } from './components/toast.tsx';
 import LandingPage from './pages/LandingPage.tsx';
+import ReconnectingIndicator from './components/ReconnectingIndicator.tsx';
+import { SessionManager } from './auth/session.ts';
+import RedirectToLogin from './components/RedirectToLogin.tsx';
+import SignInLinkPage from './pages/SignInLinkPage.tsx';
+import ShortCodeSignInPage from './pages/ShortCodeSignInPage.tsx';
+import OidcCallbackPage from './pages/OidcCallbackPage.tsx';
+import { CALLBACK_PATH } from './auth/identityProviders.ts';
 
 export default function App() {
     const [darkMode, setDarkMode] = useState(
@@ -21,6 +28,8 @@ export default function App() {
     );
     const isAuthenticated = getAccessToken() !== null || getRefreshToken();
 
+    useEffect(() => SessionManager.start(), []);
+
     useEffect(() => {
         localStorage.setItem(config.darkModeKey, darkMode ? 'true' : 'false');
     }, [darkMode]);
@@ -38,6 +47,9 @@ export default function App() {
             />
 
             <Routes>
+                <Route path="/auth/code/:shortCode" element={<ShortCodeSignInPage />} />
+                <Route path={CALLBACK_PATH} element={<OidcCallbackPage />} />
+
                 {!isAuthenticated && (
                     <>
                         <Route
@@ -53,11 +65,12 @@ export default function App() {
                             element={<SignupPage darkMode={darkMode} setDarkMode={setDarkMode} />}
                         />
                         <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                        <Route path="/sign-in-link" element={<SignInLinkPage />} />
                         <Route
                             path="/password-reset/:recoveryCode"
                             element={<PasswordRecoveryPage />}
                         />
-                        <Route path="*" element={<Navigate to="/login" replace />} />
+                        <Route path="*" element={<RedirectToLogin />} />
                     </>
                 )}
 
@@ -76,6 +89,7 @@ export default function App() {
                 )}
             </Routes>
             <AppToastContainer />
+            <ReconnectingIndicator />
         </ThemeProvider>
     );
 }
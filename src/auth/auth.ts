@@ -1,5 +1,12 @@
 import config from '../config/config.ts';
-import { JwtPayload, JwtUserSubject, MemberRole, OrganizationAccessEntry } from '../model/auth.ts';
+import {
+    JwtPayload,
+    JwtUserSubject,
+    MemberRole,
+    OrganizationAccessEntry,
+    UserSystemRole,
+} from '../model/auth.ts';
+import { RolePreview, RolePreviewStore } from './rolePreview.ts';
 
 function parseJwt<T>(token: string): T | null {
     try {
@@ -19,6 +26,12 @@ function parseJwt<T>(token: string): T | null {
     }
 }
 
+/** Expiry of a JWT in epoch milliseconds, or `null` if the token cannot be decoded. */
+export const getTokenExpiry = (token: string): number | null => {
+    const payload = parseJwt<JwtPayload>(token);
+    return payload ? payload.exp * 1000 : null;
+};
+
 export const getAccessToken = (): JwtUserSubject | null => {
     const raw = localStorage.getItem(config.accessTokenKey);
     if (!raw) return null;
@@ -43,32 +56,54 @@ export const getRefreshToken = (): string | null => {
     return localStorage.getItem(config.refreshTokenKey);
 };
 
-export const hasAccessToSite = (urlId: number): boolean => {
-    const token: JwtUserSubject | null = getAccessToken();
+// Organization from the current route. Kept per tab so two tabs can work in different orgs.
+let routeOrganizationSlug: string | null = null;
 
-    if (!token) {
-        return false;
-    }
-
-    const orgs: OrganizationAccessEntry[] = token.organizations;
+/** Points permission checks at the organization in the current route. */
+export const setCurrentOrganizationSlug = (slug: string | null) => {
+    routeOrganizationSlug = slug;
+};
 
-    const targetSlug: string | null = localStorage.getItem(config.currentOrganizationSlugKey);
-    const org: OrganizationAccessEntry | undefined = orgs.find((o) => o.slug === targetSlug);
+/** Slug of the organization in the current route, else the one the user last worked in. */
+export const getCurrentOrganizationSlug = (): string | null =>
+    routeOrganizationSlug ?? localStorage.getItem(config.currentOrganizationSlugKey);
 
-    return !!org && (org.allowedAllUrls || (org.allowedUrls && org.allowedUrls.includes(urlId)));
+/** The "Preview as…" member of the current organization, if a preview is running there. */
+export const getActiveRolePreview = (): RolePreview | null => {
+    const preview = RolePreviewStore.get();
+    return preview && preview.access.slug === getCurrentOrganizationSlug() ? preview : null;
 };
 
-export const hasRole = (role: MemberRole): boolean => {
+/**
+ * Access entry of the organization currently selected in the dashboard, or the previewed
+ * member's entry while a role preview is running.
+ */
+export const getCurrentOrganizationAccess = (): OrganizationAccessEntry | null => {
     const token: JwtUserSubject | null = getAccessToken();
 
     if (!token) {
-        return false;
+        return null;
     }
 
     const orgs: OrganizationAccessEntry[] = token.organizations;
 
-    const targetSlug: string | null = localStorage.getItem(config.currentOrganizationSlugKey);
-    const org: OrganizationAccessEntry | undefined = orgs.find((o) => o.slug === targetSlug);
+    const targetSlug: string | null = getCurrentOrganizationSlug();
+    const own = orgs.find((o) => o.slug === targetSlug) ?? null;
+    return own && (getActiveRolePreview()?.access ?? own);
+};
+
+export const hasAccessToSite = (urlId: number): boolean => {
+    const org = getCurrentOrganizationAccess();
+
+    return !!org && (org.allowedAllUrls || (org.allowedUrls && org.allowedUrls.includes(urlId)));
+};
+
+export const hasRole = (role: MemberRole): boolean => {
+    const org = getCurrentOrganizationAccess();
 
     return !!org && org.roles.includes(role);
 };
+
+/** Platform-wide administrators, as opposed to admins of a single organization. */
+export const isSystemAdmin = (): boolean =>
+    getAccessToken()?.userSystemRole === UserSystemRole.ADMIN;
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import config from '../config/config.ts';
+import { MemberRole, OrganizationAccessEntry } from '../model/auth.ts';
+import { can, CAPABILITIES, Capability, rolesCan } from './capabilities.ts';
+
+const signInAs = (access: Partial<OrganizationAccessEntry>) => {
+    const organizations = [
+        {
+            organizationId: 1,
+            slug: 'acme',
+            allowedUrls: [],
+            allowedAllUrls: false,
+            roles: [],
+            ...access,
+        },
+    ];
+    const exp = Math.floor(Date.now() / 1000) + 60 * 60;
+    const sub = JSON.stringify({ userId: 1, username: 'alice', organizations });
+    localStorage.setItem(config.accessTokenKey, `h.${btoa(JSON.stringify({ exp, sub }))}.s`);
+    localStorage.setItem(config.currentOrganizationSlugKey, 'acme');
+};
+
+afterEach(() => {
+    localStorage.clear();
+});
+
+describe('CAPABILITIES', () => {
+    it('lets the owner do everything', () => {
+        (Object.keys(CAPABILITIES) as Capability[]).forEach((capability) =>
+            expect(rolesCan([MemberRole.ORGANIZATION_OWNER], capability)).toBe(true),
+        );
+    });
+
+    it('only lets the owner delete the organization', () => {
+        expect(CAPABILITIES['org.delete']).toEqual([MemberRole.ORGANIZATION_OWNER]);
+    });
+
+    it('lets plain members view URLs and nothing else', () => {
+        const allowed = (Object.keys(CAPABILITIES) as Capability[]).filter((capability) =>
+            rolesCan([MemberRole.ORGANIZATION_MEMBER], capability),
+        );
+        expect(allowed).toEqual(['url.view']);
+    });
+
+    it('grants a capability when any of several roles allows it', () => {
+        const roles = [MemberRole.ORGANIZATION_MEMBER, MemberRole.ORGANIZATION_URLS_MANAGER];
+        expect(rolesCan(roles, 'url.create')).toBe(true);
+        expect(rolesCan(roles, 'member.invite')).toBe(false);
+    });
+});
+
+describe('can', () => {
+    it('denies everything when signed out', () => {
+        expect(can('url.view')).toBe(false);
+    });
+
+    it('checks the roles held in the current organization', () => {
+        signInAs({ roles: [MemberRole.ORGANIZATION_MEMBERS_MANAGER] });
+
+        expect(can('member.invite')).toBe(true);
+        expect(can('url.create')).toBe(false);
+    });
+
+    it('denies everything in an organization the user does not belong to', () => {
+        signInAs({ roles: [MemberRole.ORGANIZATION_OWNER] });
+        localStorage.setItem(config.currentOrganizationSlugKey, 'other');
+
+        expect(can('url.view')).toBe(false);
+    });
+
+    it('lets members managers grant only roles they hold themselves', () => {
+        signInAs({ roles: [MemberRole.ORGANIZATION_MEMBERS_MANAGER] });
+
+        expect(can('member.grantAnyRole')).toBe(false);
+        expect(can('member.grantOwnRole', MemberRole.ORGANIZATION_MEMBERS_MANAGER)).toBe(true);
+        expect(can('member.grantOwnRole', MemberRole.ORGANIZATION_ADMIN)).toBe(false);
+    });
+
+    it('checks per-URL grants when given a URL id', () => {
+        signInAs({ roles: [MemberRole.ORGANIZATION_MEMBER], allowedUrls: [7] });
+
+        expect(can('url.view', 7)).toBe(true);
+        expect(can('url.view', 8)).toBe(false);
+    });
+});
@@ -0,0 +1,50 @@
+import { MemberRole } from '../model/auth.ts';
+import { getCurrentOrganizationAccess, hasAccessToSite } from './auth.ts';
+
+const {
+    ORGANIZATION_OWNER: OWNER,
+    ORGANIZATION_ADMIN: ADMIN,
+    ORGANIZATION_MANAGER: MANAGER,
+    ORGANIZATION_MEMBERS_MANAGER: MEMBERS_MANAGER,
+    ORGANIZATION_URLS_MANAGER: URLS_MANAGER,
+    ORGANIZATION_MEMBER: MEMBER,
+} = MemberRole;
+
+/**
+ * Every action the dashboard gates on, mapped to the roles allowed to perform it. This is
+ * the single place to audit who can do what; UI checks must go through `can`/`useCan`.
+ */
+export const CAPABILITIES = {
+    'url.view': [OWNER, ADMIN, MANAGER, MEMBERS_MANAGER, URLS_MANAGER, MEMBER],
+    'url.create': [OWNER, ADMIN, URLS_MANAGER],
+    'url.edit': [OWNER, ADMIN, URLS_MANAGER],
+    'url.changeState': [OWNER, ADMIN, URLS_MANAGER],
+    'url.viewStats': [OWNER, ADMIN, URLS_MANAGER],
+    'member.view': [OWNER, ADMIN, MEMBERS_MANAGER, URLS_MANAGER],
+    'member.invite': [OWNER, ADMIN, MEMBERS_MANAGER],
+    'member.editRoles': [OWNER, ADMIN, MEMBERS_MANAGER],
+    'member.grantAnyRole': [OWNER, ADMIN],
+    'member.grantOwnRole': [OWNER, ADMIN, MEMBERS_MANAGER],
+    'member.editUrls': [OWNER, ADMIN, URLS_MANAGER],
+    'member.remove': [OWNER, ADMIN, MEMBERS_MANAGER],
+    'member.preview': [OWNER, ADMIN, MEMBERS_MANAGER, URLS_MANAGER],
+    'org.edit': [OWNER, ADMIN, MANAGER],
+    'org.delete': [OWNER],
+} as const satisfies Record<string, readonly MemberRole[]>;
+
+export type Capability = keyof typeof CAPABILITIES;
+
+export const rolesCan = (roles: readonly MemberRole[], capability: Capability): boolean =>
+    roles.some((role) => (CAPABILITIES[capability] as readonly MemberRole[]).includes(role));
+
+/**
+ * Whether the signed-in user may perform `capability` in the current organization. Pass a
+ * `urlId` for per-link actions to also require a grant for that link, or a role for
+ * role-scoped actions to also require holding that role.
+ */
+export const can = (capability: Capability, target?: number | MemberRole): boolean => {
+    const org = getCurrentOrganizationAccess();
+    if (!org || !rolesCan(org.roles, capability)) return false;
+    if (target === undefined) return true;
+    return typeof target === 'number' ? hasAccessToSite(target) : org.roles.includes(target);
+};
@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import config from '../config/config.ts';
+import { OidcLoginDto } from '../model/users.ts';
+
+export const CALLBACK_PATH = '/auth/callback';
+
+const identityProviderSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    /** `google` and `microsoft` fill in their endpoints; `oidc` is any standards-compliant issuer. */
+    type: z.enum(['google', 'microsoft', 'oidc']).default('oidc'),
+    clientId: z.string(),
+    /** Used for `.well-known` discovery when no `authorizationEndpoint` is configured. */
+    issuer: z.string().url().optional(),
+    authorizationEndpoint: z.string().url().optional(),
+    /** Microsoft tenant; `organizations` accepts any work or school account. */
+    tenant: z.string().default('organizations'),
+    scope: z.string().default('openid email profile'),
+    /** Extra authorize parameters such as `prompt` or `domain_hint`. */
+    params: z.record(z.string()).default({}),
+});
+
+export type IdentityProvider = z.infer<typeof identityProviderSchema>;
+
+const identityProvidersSchema = z.array(identityProviderSchema);
+
+type ProviderPreset = (provider: IdentityProvider) => {
+    authorizationEndpoint: string;
+    params: Record<string, string>;
+};
+
+const PRESETS: Partial<Record<IdentityProvider['type'], ProviderPreset>> = {
+    google: () => ({
+        authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+        params: { prompt: 'select_account' },
+    }),
+    microsoft: (provider) => ({
+        authorizationEndpoint: `https://login.microsoftonline.com/${provider.tenant}/oauth2/v2.0/authorize`,
+        params: { prompt: 'select_account' },
+    }),
+};
+
+const pendingLoginSchema = z.object({
+    providerId: z.string(),
+    state: z.string(),
+    codeVerifier: z.string(),
+    redirectUri: z.string(),
+});
+
+export type CallbackResult = { ok: true; dto: OidcLoginDto } | { ok: false; message: string };
+
+const base64Url = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+const randomToken = (): string => base64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const codeChallenge = async (verifier: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    return base64Url(new Uint8Array(digest));
+};
+
+/**
+ * Sign-in through external OpenID Connect providers using the authorization code flow with
+ * PKCE. Providers come from a JSON file fetched at runtime so deployments can add or remove
+ * them without a rebuild; the code is redeemed by the auth service, never in the browser.
+ */
+export class IdentityProviders {
+    private static providers: Promise<IdentityProvider[]> | null = null;
+
+    /** Configured providers, loaded once; empty when the config file is missing or invalid. */
+    static list(): Promise<IdentityProvider[]> {
+        this.providers ??= fetch(config.identityProvidersUrl)
+            .then((resp) => (resp.ok ? resp.json() : []))
+            .then((json) => {
+                const parsed = identityProvidersSchema.safeParse(json);
+                if (!parsed.success)
+                    console.error('Invalid identity providers config', parsed.error);
+                return parsed.success ? parsed.data : [];
+            })
+            .catch(() => []);
+        return this.providers;
+    }
+
+    /** Redirects the browser to the provider's authorize endpoint. */
+    static async beginLogin(provider: IdentityProvider): Promise<void> {
+        const { authorizationEndpoint, params } = await this.resolve(provider);
+        const codeVerifier = randomToken();
+        const state = randomToken();
+        const redirectUri = `${window.location.origin}${CALLBACK_PATH}`;
+
+        sessionStorage.setItem(
+            config.oidcLoginStateKey,
+            JSON.stringify({ providerId: provider.id, state, codeVerifier, redirectUri }),
+        );
+
+        const url = new URL(authorizationEndpoint);
+        const query: [string, string][] = [
+            ...Object.entries({ ...params, ...provider.params }),
+            ['response_type', 'code'],
+            ['client_id', provider.clientId],
+            ['redirect_uri', redirectUri],
+            ['scope', provider.scope],
+            ['state', state],
+            ['code_challenge', await codeChallenge(codeVerifier)],
+            ['code_challenge_method', 'S256'],
+        ];
+        query.forEach(([key, value]) => url.searchParams.set(key, value));
+
+        window.location.assign(url.toString());
+    }
+
+    /** Checks the provider's redirect against the login it answers and returns the exchange request. */
+    static completeLogin(search: URLSearchParams): CallbackResult {
+        const raw = sessionStorage.getItem(config.oidcLoginStateKey);
+        sessionStorage.removeItem(config.oidcLoginStateKey);
+
+        const error = search.get('error');
+        if (error) {
+            return { ok: false, message: search.get('error_description') ?? error };
+        }
+
+        let pending: z.infer<typeof pendingLoginSchema> | null = null;
+        try {
+            pending = pendingLoginSchema.parse(JSON.parse(raw ?? 'null'));
+        } catch {
+            return { ok: false, message: 'No sign-in was started in this tab' };
+        }
+
+        const code = search.get('code');
+        if (!code || search.get('state') !== pending.state) {
+            return { ok: false, message: 'The sign-in response did not match the request' };
+        }
+
+        return {
+            ok: true,
+            dto: {
+                providerId: pending.providerId,
+                code,
+                codeVerifier: pending.codeVerifier,
+                redirectUri: pending.redirectUri,
+            },
+        };
+    }
+
+    private static async resolve(provider: IdentityProvider) {
+        const preset = PRESETS[provider.type]?.(provider);
+        if (provider.authorizationEndpoint || !provider.issuer) {
+            const authorizationEndpoint =
+                provider.authorizationEndpoint ?? preset?.authorizationEndpoint;
+            if (!authorizationEndpoint) {
+                throw new Error(`Identity provider "${provider.id}" has no authorize endpoint`);
+            }
+            return { authorizationEndpoint, params: preset?.params ?? {} };
+        }
+
+        const resp = await fetch(
+            `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        );
+        if (!resp.ok) {
+            throw new Error(`Identity provider "${provider.id}" discovery failed (${resp.status})`);
+        }
+        const discovery = await resp.json();
+        return {
+            authorizationEndpoint: z.string().url().parse(discovery.authorization_endpoint),
+            params: preset?.params ?? {},
+        };
+    }
+}
@@ -0,0 +1,56 @@
+import config from '../config/config.ts';
+import { OrganizationAccessEntry } from '../model/auth.ts';
+
+export interface RolePreview {
+    memberId: number;
+    memberName: string;
+    /** Stands in for the signed-in user's own entry of the same organization. */
+    access: OrganizationAccessEntry;
+}
+
+let cachedRaw: string | null = null;
+let cached: RolePreview | null = null;
+
+/**
+ * "Preview as…" state: permission checks read the previewed member's access entry instead
+ * of the JWT's while it is set. Kept in sessionStorage so it survives reloads of this tab only.
+ */
+export class RolePreviewStore {
+    private static listeners = new Set<() => void>();
+
+    /** Returns the same object until the preview changes, as `useSyncExternalStore` expects. */
+    static get(): RolePreview | null {
+        const raw = sessionStorage.getItem(config.rolePreviewKey);
+        if (raw !== cachedRaw) {
+            cachedRaw = raw;
+            try {
+                cached = raw ? (JSON.parse(raw) as RolePreview) : null;
+            } catch {
+                cached = null;
+            }
+        }
+        return cached;
+    }
+
+    static start(preview: RolePreview) {
+        sessionStorage.setItem(config.rolePreviewKey, JSON.stringify(preview));
+        this.notify();
+    }
+
+    static stop() {
+        if (!sessionStorage.getItem(config.rolePreviewKey)) return;
+        sessionStorage.removeItem(config.rolePreviewKey);
+        this.notify();
+    }
+
+    static subscribe(listener: () => void): () => void {
+        RolePreviewStore.listeners.add(listener);
+        return () => {
+            RolePreviewStore.listeners.delete(listener);
+        };
+    }
+
+    private static notify() {
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '../config/config.ts';
+import { SessionManager } from './session.ts';
+
+const jwt = (expiresInMs: number) => {
+    const exp = Math.floor((Date.now() + expiresInMs) / 1000);
+    const sub = JSON.stringify({ organizations: [] });
+    return `header.${btoa(JSON.stringify({ exp, sub }))}.signature`;
+};
+
+const tokensResponse = (accessToken: string, refreshToken: string) => ({
+    data: { payload: { accessToken, refreshToken } },
+});
+
+const storeTokens = (access: string, refresh: string) => {
+    localStorage.setItem(config.accessTokenKey, access);
+    localStorage.setItem(config.refreshTokenKey, refresh);
+};
+
+/** Queues every lock request until the test grants it, as if another tab held the lock. */
+const holdLocks = () => {
+    const waiting: (() => void)[] = [];
+    Object.defineProperty(navigator, 'locks', {
+        configurable: true,
+        value: {
+            request: (_name: string, callback: () => Promise<unknown>) =>
+                new Promise((resolve) => waiting.push(() => resolve(callback()))),
+        },
+    });
+    return () => waiting.splice(0).forEach((grant) => grant());
+};
+
+let stop: (() => void) | null = null;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    stop?.();
+    stop = null;
+    Reflect.deleteProperty(navigator, 'locks');
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    localStorage.clear();
+});
+
+describe('SessionManager', () => {
+    it('exchanges the refresh token once for concurrent refreshes', async () => {
+        storeTokens(jwt(-1000), 'refresh-1');
+        const next = jwt(10 * 60 * 1000);
+        const get = vi.spyOn(axios, 'get').mockResolvedValue(tokensResponse(next, 'refresh-2'));
+
+        const results = await Promise.all([SessionManager.refresh(), SessionManager.refresh()]);
+
+        expect(results).toEqual([true, true]);
+        expect(get).toHaveBeenCalledTimes(1);
+        expect(get.mock.calls[0][1]).toMatchObject({ headers: { Authorization: 'refresh-1' } });
+        expect(localStorage.getItem(config.accessTokenKey)).toBe(next);
+        expect(localStorage.getItem(config.refreshTokenKey)).toBe('refresh-2');
+    });
+
+    it('skips the exchange when another tab rotated the tokens while it waited for the lock', async () => {
+        storeTokens(jwt(-1000), 'refresh-1');
+        const get = vi.spyOn(axios, 'get');
+        const grant = holdLocks();
+
+        const refreshed = SessionManager.refresh();
+        storeTokens(jwt(10 * 60 * 1000), 'refresh-2');
+        grant();
+
+        await expect(refreshed).resolves.toBe(true);
+        expect(get).not.toHaveBeenCalled();
+    });
+
+    it('resolves false without a refresh token', async () => {
+        const get = vi.spyOn(axios, 'get');
+
+        await expect(SessionManager.refresh()).resolves.toBe(false);
+        expect(get).not.toHaveBeenCalled();
+    });
+
+    it('refreshes proactively a minute before the access token expires', async () => {
+        storeTokens(jwt(5 * 60 * 1000), 'refresh-1');
+        const get = vi
+            .spyOn(axios, 'get')
+            .mockResolvedValue(tokensResponse(jwt(15 * 60 * 1000), 'refresh-2'));
+
+        stop = SessionManager.start();
+        await vi.advanceTimersByTimeAsync(4 * 60 * 1000 - 1000);
+        expect(get).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(get).toHaveBeenCalledTimes(1);
+        expect(localStorage.getItem(config.refreshTokenKey)).toBe('refresh-2');
+    });
+
+    it('tries again later when a scheduled refresh fails', async () => {
+        storeTokens(jwt(30 * 1000), 'refresh-1');
+        const get = vi.spyOn(axios, 'get').mockRejectedValue(new Error('Network Error'));
+
+        stop = SessionManager.start();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(get).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(30 * 1000 - 1);
+        expect(get).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await vi.runOnlyPendingTimersAsync();
+        expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('clears the session on expiry and returns to the same view after login', () => {
+        // jsdom does not implement navigation and reports the redirect to /login as an error.
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        storeTokens(jwt(-1000), 'refresh-1');
+        window.history.pushState(null, '', '/urls?page=2');
+        const listener = vi.fn();
+        const unsubscribe = SessionManager.subscribe(listener);
+
+        SessionManager.expire();
+        unsubscribe();
+
+        expect(localStorage.getItem(config.accessTokenKey)).toBeNull();
+        expect(localStorage.getItem(config.refreshTokenKey)).toBeNull();
+        expect(listener).toHaveBeenCalled();
+        expect(SessionManager.takeReturnTo()).toBe('/urls?page=2');
+        expect(SessionManager.takeReturnTo()).toBeNull();
+    });
+
+    it('only returns to paths on this origin', () => {
+        sessionStorage.setItem(config.sessionReturnToKey, '//evil.example/urls');
+
+        expect(SessionManager.takeReturnTo()).toBeNull();
+    });
+});
@@ -0,0 +1,254 @@
+import axios, { AxiosResponse } from 'axios';
+import config from '../config/config.ts';
+import { AbstractResponseDto } from '../model/common.ts';
+import { TokenResponseDto, tokenResponseSchema } from '../model/auth.ts';
+import { QueryCache } from '../common/queryCache.ts';
+import { getAccessToken, getTokenExpiry } from './auth.ts';
+import { orgPath } from '../common/paths.ts';
+import { RolePreviewStore } from './rolePreview.ts';
+
+const CHANNEL_NAME = 'shortener-session';
+const LEADER_LOCK = 'shortener-session-leader';
+const REFRESH_LOCK = 'shortener-session-refresh';
+const REFRESH_LEAD_MS = 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+
+type SessionMessage = { type: 'tokens' } | { type: 'logout' } | { type: 'expired' };
+
+const isFresh = (token: string | null): boolean => {
+    const exp = token ? getTokenExpiry(token) : null;
+    return exp !== null && exp - Date.now() > REFRESH_LEAD_MS;
+};
+
+/**
+ * Keeps the session alive across tabs. One leader tab refreshes the access token shortly
+ * before it expires, every refresh is serialised through a Web Lock so tabs never rotate
+ * the same refresh token twice, and token changes and logouts are broadcast to all tabs.
+ */
+export class SessionManager {
+    private static channel: BroadcastChannel | null = null;
+
+    private static timer: ReturnType<typeof setTimeout> | null = null;
+
+    private static leader = false;
+
+    private static stopLeading: (() => void) | null = null;
+
+    private static refreshing: Promise<boolean> | null = null;
+
+    private static listeners = new Set<() => void>();
+
+    static start(): () => void {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL_NAME);
+            this.channel.onmessage = (e: MessageEvent<SessionMessage>) => this.receive(e.data);
+        } else {
+            window.addEventListener('storage', this.onStorage);
+        }
+
+        if (navigator.locks) {
+            const controller = new AbortController();
+            let release: () => void = () => undefined;
+            navigator.locks
+                .request(LEADER_LOCK, { signal: controller.signal }, () => {
+                    this.leader = true;
+                    this.schedule();
+                    return new Promise<void>((resolve) => (release = resolve));
+                })
+                .catch(() => undefined);
+            this.stopLeading = () => {
+                controller.abort();
+                release();
+            };
+        } else {
+            this.leader = true;
+            this.schedule();
+        }
+
+        return () => {
+            this.stopLeading?.();
+            this.stopLeading = null;
+            this.leader = false;
+            this.clearTimer();
+            this.channel?.close();
+            this.channel = null;
+            window.removeEventListener('storage', this.onStorage);
+        };
+    }
+
+    /**
+     * Stores the tokens of a fresh sign-in and returns where to land: the route the expired
+     * session was on, else the first organization's short URLs.
+     */
+    static signIn(tokens: TokenResponseDto): string {
+        this.setTokens(tokens);
+        const returnTo = this.takeReturnTo();
+        if (returnTo) return returnTo;
+
+        const { organizations } = getAccessToken()!;
+        localStorage.setItem(config.currentOrganizationSlugKey, organizations[0].slug);
+        return orgPath(organizations[0].slug);
+    }
+
+    /** Stores tokens obtained outside a refresh (login, signup, org changes) and shares them. */
+    static setTokens(tokens: TokenResponseDto) {
+        this.storeTokens(tokens);
+        this.broadcast({ type: 'tokens' });
+        this.schedule();
+    }
+
+    /**
+     * Exchanges the refresh token for a new pair. Resolves `true` as soon as a usable
+     * access token is stored, including when another tab already did the refresh.
+     */
+    static refresh(): Promise<boolean> {
+        if (!this.refreshing) {
+            const startRefresh = localStorage.getItem(config.refreshTokenKey);
+            const startAccess = localStorage.getItem(config.accessTokenKey);
+            const run = () => this.exchange(startRefresh, startAccess);
+
+            this.refreshing = (
+                navigator.locks ? navigator.locks.request(REFRESH_LOCK, run) : run()
+            ).finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    static logout() {
+        this.clearSession();
+        this.broadcast({ type: 'logout' });
+        window.location.href = '/login';
+    }
+
+    /** Ends a session that ran out, remembering where the user was so login can return there. */
+    static expire() {
+        this.rememberLocation();
+        this.clearSession();
+        this.broadcast({ type: 'expired' });
+        window.location.href = '/login';
+    }
+
+    static rememberLocation() {
+        const { pathname, search } = window.location;
+        if (pathname === '/login') return;
+        sessionStorage.setItem(config.sessionReturnToKey, pathname + search);
+    }
+
+    /** Returns the location saved by `rememberLocation` once, then forgets it. */
+    static takeReturnTo(): string | null {
+        const path = sessionStorage.getItem(config.sessionReturnToKey);
+        sessionStorage.removeItem(config.sessionReturnToKey);
+        return path && path.startsWith('/') && !path.startsWith('//') ? path : null;
+    }
+
+    /** Epoch milliseconds after which the refresh token can no longer extend the session. */
+    static getRefreshExpiry(): number | null {
+        const refresh = localStorage.getItem(config.refreshTokenKey);
+        return refresh ? getTokenExpiry(refresh) : null;
+    }
+
+    static subscribe(listener: () => void): () => void {
+        SessionManager.listeners.add(listener);
+        return () => {
+            SessionManager.listeners.delete(listener);
+        };
+    }
+
+    private static notify() {
+        this.listeners.forEach((listener) => listener());
+    }
+
+    private static async exchange(
+        startRefresh: string | null,
+        startAccess: string | null,
+    ): Promise<boolean> {
+        const refresh = localStorage.getItem(config.refreshTokenKey);
+        if (!refresh) return false;
+
+        const access = localStorage.getItem(config.accessTokenKey);
+        if ((refresh !== startRefresh || access !== startAccess) && isFresh(access)) {
+            this.schedule();
+            return true;
+        }
+
+        try {
+            const resp: AxiosResponse<AbstractResponseDto<TokenResponseDto>> = await axios.get(
+                `${config.apiBase}/public/users/refresh-token`,
+                { headers: { Authorization: refresh } },
+            );
+            this.setTokens(tokenResponseSchema.parse(resp.data.payload));
+            return true;
+        } catch (err) {
+            // 401 means the refresh token itself was rejected, e.g. signed out from another
+            // device; retrying cannot help, so end the session instead of waiting to expire.
+            if (axios.isAxiosError(err) && err.response?.status === 401) this.expire();
+            return false;
+        }
+    }
+
+    private static storeTokens({ accessToken, refreshToken }: TokenResponseDto) {
+        localStorage.setItem(config.accessTokenKey, accessToken);
+        if (refreshToken) localStorage.setItem(config.refreshTokenKey, refreshToken);
+
+        const organizations = getAccessToken()?.organizations ?? [];
+        const slug = localStorage.getItem(config.currentOrganizationSlugKey);
+        if (organizations.length && !organizations.some((o) => o.slug === slug)) {
+            localStorage.setItem(config.currentOrganizationSlugKey, organizations[0].slug);
+        }
+        this.notify();
+    }
+
+    private static clearSession() {
+        this.clearTimer();
+        localStorage.removeItem(config.accessTokenKey);
+        localStorage.removeItem(config.refreshTokenKey);
+        RolePreviewStore.stop();
+        QueryCache.clear();
+        this.notify();
+    }
+
+    private static schedule() {
+        this.clearTimer();
+        if (!this.leader || !localStorage.getItem(config.refreshTokenKey)) return;
+
+        const access = localStorage.getItem(config.accessTokenKey);
+        const exp = access ? getTokenExpiry(access) : null;
+        const delay = exp === null ? 0 : Math.max(0, exp - Date.now() - REFRESH_LEAD_MS);
+
+        this.timer = setTimeout(async () => {
+            this.timer = null;
+            const refreshed = await this.refresh();
+            if (!refreshed && this.timer === null) {
+                this.timer = setTimeout(() => this.schedule(), REFRESH_RETRY_MS);
+            }
+        }, delay);
+    }
+
+    private static clearTimer() {
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    private static broadcast(message: SessionMessage) {
+        this.channel?.postMessage(message);
+    }
+
+    private static receive(message: SessionMessage) {
+        if (message.type === 'tokens') {
+            this.schedule();
+            this.notify();
+            return;
+        }
+        if (message.type === 'expired') this.rememberLocation();
+        this.clearSession();
+        window.location.href = '/login';
+    }
+
+    /** Fallback for browsers without BroadcastChannel: react to the token keys changing. */
+    private static onStorage = (e: StorageEvent) => {
+        if (e.key !== config.refreshTokenKey) return;
+        SessionManager.receive(e.newValue === null ? { type: 'logout' } : { type: 'tokens' });
+    };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ALIAS_MAX_LENGTH, aliasPolicySchema } from './aliasPolicy.ts';
+
+const errorsFor = (alias: string) =>
+    aliasPolicySchema.safeParse(alias).error?.issues.map((issue) => issue.message) ?? [];
+
+describe('aliasPolicySchema', () => {
+    it.each(['abc', 'spring-sale', 'Promo_2025', 'a-b'])('accepts %s', (alias) => {
+        expect(errorsFor(alias)).toEqual([]);
+    });
+
+    it('rejects aliases that are too short or too long', () => {
+        expect(errorsFor('ab')).toContain('Alias must be at least 3 characters');
+        expect(errorsFor('a'.repeat(ALIAS_MAX_LENGTH + 1))).toContain(
+            `Alias must be at most ${ALIAS_MAX_LENGTH} characters`,
+        );
+    });
+
+    it.each(['sale!', 'two words', 'path/alias', 'ünïcode'])(
+        'rejects %s for its characters',
+        (alias) => {
+            expect(errorsFor(alias)).toContain(
+                'Alias may only contain letters, digits, hyphens and underscores',
+            );
+        },
+    );
+
+    it.each(['-sale', 'sale_', '__x'])('rejects %s for how it starts or ends', (alias) => {
+        expect(errorsFor(alias)).toContain('Alias must start and end with a letter or digit');
+    });
+});
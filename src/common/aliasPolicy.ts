@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const ALIAS_MIN_LENGTH = 3;
+export const ALIAS_MAX_LENGTH = 50;
+
+/** Rules for custom short URL back-halves, mirrored by the shortener service. */
+export const aliasPolicySchema = z
+    .string()
+    .min(ALIAS_MIN_LENGTH, `Alias must be at least ${ALIAS_MIN_LENGTH} characters`)
+    .max(ALIAS_MAX_LENGTH, `Alias must be at most ${ALIAS_MAX_LENGTH} characters`)
+    .regex(/^[A-Za-z0-9_-]+$/, {
+        message: 'Alias may only contain letters, digits, hyphens and underscores',
+    })
+    .regex(/^[A-Za-z0-9].*[A-Za-z0-9]$/, {
+        message: 'Alias must start and end with a letter or digit',
+    });
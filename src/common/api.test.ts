@@ -0,0 +1,260 @@
+// @vitest-environment jsdom
+import axios, { AxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CreateShortUrlDto } from '../model/urls.ts';
+import { ApiClient } from './api.ts';
+
+interface SentRequest {
+    cfg: AxiosRequestConfig;
+    resolve: (payload: unknown) => void;
+}
+
+const STATS = { countryCounts: { US: 2 }, cityCounts: {} };
+
+let sent: SentRequest[] = [];
+
+beforeEach(() => {
+    sent = [];
+    vi.spyOn(axios, 'request').mockImplementation(
+        (cfg: AxiosRequestConfig) =>
+            new Promise((resolve, reject) => {
+                sent.push({
+                    cfg,
+                    resolve: (payload) =>
+                        resolve({ status: 200, data: { payload }, headers: {}, config: cfg }),
+                });
+                cfg.signal?.addEventListener?.('abort', () => reject(new axios.CanceledError()));
+            }),
+    );
+});
+
+afterEach(async () => {
+    // Settle what a test left in flight so it cannot be shared with the next test.
+    sent.forEach((request) => request.resolve(STATS));
+    await new Promise((resolve) => setTimeout(resolve));
+    vi.restoreAllMocks();
+    localStorage.clear();
+});
+
+describe('ApiClient GET sharing', () => {
+    it('sends identical concurrent GETs once and resolves every caller', async () => {
+        const first = ApiClient.getGlobalStats('acme', 1);
+        const second = ApiClient.getGlobalStats('acme', 1);
+        expect(sent).toHaveLength(1);
+
+        sent[0].resolve(STATS);
+        await expect(first).resolves.toMatchObject({ ok: true, value: STATS });
+        await expect(second).resolves.toMatchObject({ ok: true, value: STATS });
+    });
+
+    it('keeps GETs to different URLs apart', () => {
+        ApiClient.getGlobalStats('acme', 1);
+        ApiClient.getGlobalStats('acme', 2);
+        expect(sent).toHaveLength(2);
+    });
+
+    it('does not share requests made with different access tokens', () => {
+        localStorage.setItem('accessToken', 'first');
+        ApiClient.getGlobalStats('acme', 1);
+        localStorage.setItem('accessToken', 'second');
+        ApiClient.getGlobalStats('acme', 1);
+        expect(sent).toHaveLength(2);
+    });
+
+    it('sends a new request once the shared one has settled', async () => {
+        const first = ApiClient.getGlobalStats('acme', 1);
+        sent[0].resolve(STATS);
+        await first;
+
+        ApiClient.getGlobalStats('acme', 1);
+        expect(sent).toHaveLength(2);
+    });
+
+    it('detaches an aborted caller without cancelling the request for the others', async () => {
+        const controller = new AbortController();
+        const aborted = ApiClient.getGlobalStats('acme', 1, { signal: controller.signal });
+        const kept = ApiClient.getGlobalStats('acme', 1);
+
+        controller.abort();
+        await expect(aborted).resolves.toMatchObject({ ok: false, aborted: true });
+        expect(sent[0].cfg.signal?.aborted).toBe(false);
+
+        sent[0].resolve(STATS);
+        await expect(kept).resolves.toMatchObject({ ok: true, value: STATS });
+    });
+
+    it('cancels the request once every caller has aborted', async () => {
+        const a = new AbortController();
+        const b = new AbortController();
+        const first = ApiClient.getGlobalStats('acme', 1, { signal: a.signal });
+        const second = ApiClient.getGlobalStats('acme', 1, { signal: b.signal });
+
+        a.abort();
+        b.abort();
+        await expect(first).resolves.toMatchObject({ aborted: true });
+        await expect(second).resolves.toMatchObject({ aborted: true });
+        expect(sent[0].cfg.signal?.aborted).toBe(true);
+    });
+
+    it('resolves an already aborted caller without sending anything', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+            ApiClient.getGlobalStats('acme', 1, { signal: controller.signal }),
+        ).resolves.toMatchObject({ ok: false, aborted: true });
+        expect(sent).toHaveLength(0);
+    });
+});
+
+describe('ApiClient retries', () => {
+    const transient = (status: number, retryAfter?: string) =>
+        Object.assign(new Error(`HTTP ${status}`), {
+            response: { status, headers: retryAfter ? { 'retry-after': retryAfter } : {} },
+        });
+    const statsResponse = { status: 200, data: { payload: STATS }, headers: {} };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('retries a GET after a transient failure and returns the later success', async () => {
+        vi.mocked(axios.request)
+            .mockRejectedValueOnce(transient(503))
+            .mockResolvedValueOnce(statsResponse);
+
+        const res = ApiClient.getGlobalStats('acme', 1);
+        await vi.runAllTimersAsync();
+
+        await expect(res).resolves.toMatchObject({ ok: true, value: STATS });
+        expect(axios.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries network errors that have no response', async () => {
+        vi.mocked(axios.request)
+            .mockRejectedValueOnce(new Error('Network Error'))
+            .mockResolvedValueOnce(statsResponse);
+
+        const res = ApiClient.getGlobalStats('acme', 1);
+        await vi.runAllTimersAsync();
+
+        await expect(res).resolves.toMatchObject({ ok: true });
+    });
+
+    it('waits as long as Retry-After asks before the next attempt', async () => {
+        vi.mocked(axios.request)
+            .mockRejectedValueOnce(transient(429, '5'))
+            .mockResolvedValueOnce(statsResponse);
+
+        const res = ApiClient.getGlobalStats('acme', 1);
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(axios.request).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(axios.request).toHaveBeenCalledTimes(2);
+        await expect(res).resolves.toMatchObject({ ok: true });
+    });
+
+    it('gives up at once when Retry-After is longer than a minute', async () => {
+        vi.mocked(axios.request).mockRejectedValueOnce(transient(503, '120'));
+
+        const res = await ApiClient.getGlobalStats('acme', 1);
+
+        expect(res).toMatchObject({ ok: false, status: 503 });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops after the configured number of attempts', async () => {
+        vi.mocked(axios.request).mockRejectedValue(transient(502));
+
+        const res = ApiClient.getGlobalStats('acme', 1);
+        await vi.runAllTimersAsync();
+
+        await expect(res).resolves.toMatchObject({ ok: false, status: 502 });
+        expect(axios.request).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry client errors', async () => {
+        vi.mocked(axios.request).mockRejectedValueOnce(transient(404));
+
+        await expect(ApiClient.getGlobalStats('acme', 1)).resolves.toMatchObject({ status: 404 });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry a POST without an idempotency key', async () => {
+        vi.mocked(axios.request).mockRejectedValue(transient(503));
+
+        const res = ApiClient.createTrialShortUrl('https://example.com');
+        await vi.runAllTimersAsync();
+
+        await expect(res).resolves.toMatchObject({ ok: false, status: 503 });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a POST that carries an idempotency key, resending the same key', async () => {
+        vi.mocked(axios.request).mockRejectedValue(transient(503));
+
+        const res = ApiClient.createShortUrl(
+            'acme',
+            { originalUrl: 'https://example.com', tags: [] } as unknown as CreateShortUrlDto,
+            { idempotencyKey: 'key-1' },
+        );
+        await vi.runAllTimersAsync();
+        await res;
+
+        const calls = vi.mocked(axios.request).mock.calls;
+        expect(calls).toHaveLength(4);
+        calls.forEach(([cfg]) => expect(cfg.headers).toMatchObject({ 'Idempotency-Key': 'key-1' }));
+    });
+
+    it('stops waiting for the next attempt when the caller aborts', async () => {
+        vi.mocked(axios.request).mockRejectedValue(transient(503));
+        const controller = new AbortController();
+
+        const res = ApiClient.getGlobalStats('acme', 1, { signal: controller.signal });
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+
+        await expect(res).resolves.toMatchObject({ ok: false, aborted: true });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('ApiClient one-time requests', () => {
+    const failed = (status: number) =>
+        Object.assign(new Error(`HTTP ${status}`), { response: { status, headers: {} } });
+
+    it('sends a sign-in code exchange once even after a transient failure', async () => {
+        vi.useFakeTimers();
+        vi.mocked(axios.request).mockRejectedValue(failed(503));
+
+        const res = ApiClient.exchangeShortCode('code-1');
+        await vi.runAllTimersAsync();
+        vi.useRealTimers();
+
+        await expect(res).resolves.toMatchObject({ ok: false, status: 503 });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not share concurrent exchanges of the same code', () => {
+        ApiClient.exchangeShortCode('code-1');
+        ApiClient.exchangeShortCode('code-1');
+        expect(sent).toHaveLength(2);
+    });
+
+    it('does not refresh and resend an exchange rejected as unauthorized', async () => {
+        localStorage.setItem('refreshToken', 'refresh-1');
+        vi.mocked(axios.request).mockRejectedValue(failed(401));
+        const get = vi.spyOn(axios, 'get');
+
+        await expect(ApiClient.exchangeShortCode('code-1')).resolves.toMatchObject({
+            ok: false,
+            status: 401,
+        });
+        expect(axios.request).toHaveBeenCalledTimes(1);
+        expect(get).not.toHaveBeenCalled();
+    });
+});
@@ -1,102 +1,321 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse, CanceledError } from 'axios';
+import { z } from 'zod';
 import config from '../config/config';
 import {
     AbstractResponseDto,
     ErrorResponseDto,
     ErrorResponseElement,
     MessageResponseDto,
+    messageResponseSchema,
     ServiceErrorType,
 } from '../model/common.ts';
-import { JwtUserSubject, TokenResponseDto } from '../model/auth.ts';
+import { TokenResponseDto, tokenResponseSchema } from '../model/auth.ts';
 import {
     UpdateUserInfoDto,
     UpdateUserProfilePictureDto,
     UserInfoDto,
+    userInfoSchema,
     UserLoginDto,
     UserSignupDto,
+    OidcLoginDto,
+    LoginResponseDto,
+    loginResponseSchema,
+    TwoFactorLoginDto,
+    TotpEnrollmentDto,
+    totpEnrollmentSchema,
+    TotpCodeDto,
+    RecoveryCodesDto,
+    recoveryCodesSchema,
+    ChangePasswordDto,
+    DeleteAccountDto,
+    UserSessionDto,
+    userSessionsSchema,
 } from '../model/users.ts';
 import {
     InviteMemberDto,
     OrganizationMembersListDto,
+    organizationMembersListSchema,
     UpdateMemberRolesDto,
     UpdateMemberUrlsDto,
 } from '../model/organizationMembers.ts';
 import {
     CreateOrganizationDto,
     OrganizationDto,
+    organizationSchema,
     OrganizationsListDto,
+    organizationsListSchema,
     UpdateOrganizationAvatarDto,
     UpdateOrganizationInfoDto,
 } from '../model/organizations.ts';
 import {
+    AliasAvailabilityDto,
+    aliasAvailabilitySchema,
     ChangeUrlStateDto,
+    CreatedShortUrlDto,
+    createdShortUrlSchema,
     CreateShortUrlDto,
     ShortUrlDto,
+    shortUrlSchema,
     ShortUrlsListDto,
+    shortUrlsListSchema,
     ShortUrlsSearchParams,
+    UpdateShortUrlDto,
 } from '../model/urls.ts';
-import { GlobalStatisticsDto, PeriodCountsDto } from '../model/statistics.ts';
-import { getAccessToken } from '../auth/auth.ts';
+import {
+    GlobalStatisticsDto,
+    globalStatisticsSchema,
+    PeriodCountsDto,
+    periodCountsSchema,
+} from '../model/statistics.ts';
+import {
+    ApiTokenDto,
+    apiTokensSchema,
+    CreateApiTokenDto,
+    CreatedApiTokenDto,
+    createdApiTokenSchema,
+} from '../model/apiTokens.ts';
+import {
+    AdminOrganizationDto,
+    adminOrganizationSchema,
+    AdminOrganizationsListDto,
+    adminOrganizationsListSchema,
+    AdminSearchParams,
+    AdminUserDto,
+    adminUserSchema,
+    AdminUsersListDto,
+    adminUsersListSchema,
+    PlatformStatsDto,
+    platformStatsSchema,
+} from '../model/admin.ts';
+import { SessionManager } from '../auth/session.ts';
+import { getActiveRolePreview } from '../auth/auth.ts';
+import { abortedFailure, ApiFailure, ApiResult } from './result.ts';
+import { QueryCache, QueryKey } from './queryCache.ts';
+import { ConnectionStatus } from './connectionStatus.ts';
 
 const API_BASE = config.apiBase;
 const API_PUBLIC = '/public';
 const API_USER = '/user';
+const API_ADMIN = '/admin';
+const REQUEST_ID_HEADER = 'x-request-id';
+
+const serializeParams = (params: Record<string, any>): string => {
+    const parts: string[] = [];
+    Object.entries(params).forEach(([key, value]) => {
+        if (Array.isArray(value)) {
+            parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(value.join(','))}`);
+        } else if (value !== undefined && value !== null) {
+            parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+        }
+    });
+    return parts.join('&');
+};
+
+const CACHE_TTL_LONG = 5 * 60 * 1000;
+const CACHE_TTL_SHORT = 30 * 1000;
+
+export const queryKeys = {
+    userInfo: () => ['userInfo'] as const,
+    userSessions: () => ['userSessions'] as const,
+    apiTokens: () => ['apiTokens'] as const,
+    platformStats: () => ['platformStats'] as const,
+    organizations: () => ['organizations'] as const,
+    userOrganizations: (params?: Record<string, any>) => ['organizations', params ?? {}] as const,
+    organization: (slug: string) => ['organization', slug] as const,
+    tags: (slug: string) => ['tags', slug] as const,
+};
+
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const rolePreviewFailure = (): ApiFailure => ({
+    ok: false,
+    errors: [
+        {
+            errorType: ServiceErrorType.ACCESS_DENIED,
+            errorClass: 'RolePreview',
+            errorMessage: 'Changes are disabled while previewing as a member',
+        },
+    ],
+    status: null,
+    requestId: null,
+    aborted: false,
+});
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+const RETRY_AFTER_CAP_MS = 60 * 1000;
+
+const parseRetryAfter = (value: unknown): number | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const backoffDelay = (attempt: number): number => {
+    const ceiling = Math.min(
+        config.apiRetryMaxDelayMs,
+        config.apiRetryBaseDelayMs * 2 ** (attempt - 1),
+    );
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CanceledError());
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener(
+            'abort',
+            () => {
+                clearTimeout(timer);
+                reject(new CanceledError());
+            },
+            { once: true },
+        );
+    });
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+}
+
+export interface MutationOptions {
+    /**
+     * Lets the backend deduplicate repeated submissions, which in turn makes it safe to
+     * retry an otherwise non-idempotent request after a transient failure.
+     */
+    idempotencyKey?: string;
+}
+
+const tagsSchema = z.array(z.string());
+
+const formatIssuePath = (path: (string | number)[]): string =>
+    path.reduce<string>(
+        (acc, part) =>
+            typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part,
+        '',
+    ) || '(root)';
+
+type ApiRequestConfig = AxiosRequestConfig & {
+    _retry?: boolean;
+    signal?: AbortSignal;
+    idempotencyKey?: string;
+    /**
+     * `false` for requests that consume a one-time token: they are sent exactly once and never
+     * shared with identical concurrent GETs, since a repeat would fail as already used.
+     */
+    retry?: boolean;
+    /** Validates the response payload; a mismatch is reported as `SCHEMA_MISMATCH`. */
+    schema?: z.ZodTypeAny;
+};
+
+interface InflightRequest {
+    promise: Promise<ApiResult<unknown>>;
+    controller: AbortController;
+    subscribers: number;
+}
 
 export class ApiClient {
     private static refreshTokenPromise: Promise<string> | null = null;
 
-    private static async apiRequest<T>(
-        cfg: AxiosRequestConfig & { _retry?: boolean } = {},
-    ): Promise<T | ErrorResponseElement> {
+    private static inflight = new Map<string, InflightRequest>();
+
+    private static apiRequest<T>(cfg: ApiRequestConfig = {}): Promise<ApiResult<T>> {
         cfg.baseURL = cfg.baseURL || API_BASE;
 
         if (cfg.params) {
-            cfg.paramsSerializer = {
-                serialize: (params) => {
-                    const parts: string[] = [];
-                    Object.entries(params).forEach(([key, value]) => {
-                        if (Array.isArray(value)) {
-                            parts.push(
-                                `${encodeURIComponent(key)}=${encodeURIComponent(value.join(','))}`,
-                            );
-                        } else if (value !== undefined && value !== null) {
-                            parts.push(
-                                `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`,
-                            );
-                        }
-                    });
-                    return parts.join('&');
-                },
+            cfg.paramsSerializer = { serialize: serializeParams };
+        }
+
+        const method = (cfg.method ?? 'GET').toUpperCase();
+        if (method === 'GET' && cfg.retry !== false) {
+            return this.sharedRequest<T>(cfg);
+        }
+        // Last line of defence for the role preview: nothing the admin clicks may change data.
+        if (
+            !IDEMPOTENT_METHODS.includes(method) &&
+            cfg.url?.startsWith(API_USER) &&
+            getActiveRolePreview()
+        ) {
+            return Promise.resolve(rolePreviewFailure());
+        }
+        return this.executeRequest<T>(cfg);
+    }
+
+    /**
+     * Identical concurrent GETs share one underlying request. Each caller keeps its own
+     * signal: aborting it only detaches that caller, and the shared request is cancelled
+     * once nobody is waiting for it anymore.
+     */
+    private static sharedRequest<T>(cfg: ApiRequestConfig): Promise<ApiResult<T>> {
+        const { signal } = cfg;
+        if (signal?.aborted) return Promise.resolve(abortedFailure());
+
+        const key = [
+            cfg.baseURL,
+            cfg.url,
+            cfg.params ? serializeParams(cfg.params) : '',
+            localStorage.getItem(config.accessTokenKey) ?? '',
+        ].join('|');
+
+        let entry = this.inflight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            const created: InflightRequest = {
+                controller,
+                subscribers: 0,
+                promise: this.executeRequest<unknown>({ ...cfg, signal: controller.signal }),
             };
+            created.promise.finally(() => {
+                if (this.inflight.get(key) === created) this.inflight.delete(key);
+            });
+            this.inflight.set(key, created);
+            entry = created;
         }
 
+        const shared: InflightRequest = entry;
+        shared.subscribers++;
+
+        if (!signal) return shared.promise as Promise<ApiResult<T>>;
+
+        return new Promise<ApiResult<T>>((resolve) => {
+            const onAbort = () => {
+                shared.subscribers--;
+                if (shared.subscribers === 0) {
+                    if (this.inflight.get(key) === shared) this.inflight.delete(key);
+                    shared.controller.abort();
+                }
+                resolve(abortedFailure());
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            shared.promise.then((res) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(res as ApiResult<T>);
+            });
+        });
+    }
+
+    private static async executeRequest<T>(cfg: ApiRequestConfig): Promise<ApiResult<T>> {
         const token = localStorage.getItem(config.accessTokenKey);
         if (token) {
             cfg.headers = { ...(cfg.headers || {}), Authorization: token };
         }
 
-        const handleErrorResponse = (data: any): ErrorResponseElement => {
-            if (data?.errors?.length) {
-                return data.errors[0] as ErrorResponseElement;
-            }
-            return {
-                errorType: ServiceErrorType.INTERNAL_ERROR,
-                errorClass: 'UnknownError',
-                errorMessage: data?.message ?? 'An unknown error occurred',
-            };
-        };
+        if (cfg.idempotencyKey) {
+            cfg.headers = { ...(cfg.headers || {}), [IDEMPOTENCY_KEY_HEADER]: cfg.idempotencyKey };
+        }
 
         try {
-            const resp = await axios.request<AbstractResponseDto<T> | ErrorResponseDto>(cfg);
-            if ((resp.data as ErrorResponseDto).errors) {
-                return handleErrorResponse(resp.data);
-            }
-            return (resp.data as AbstractResponseDto<T>).payload;
+            const resp = await this.send<T>(cfg);
+            return this.toResult<T>(resp, cfg.schema);
         } catch (err: any) {
+            if (axios.isCancel(err)) return abortedFailure();
+
             const status = err.response?.status;
-            const data = err.response?.data;
 
-            if (status === 401 && !cfg._retry) {
+            if (status === 401 && !cfg._retry && cfg.retry !== false) {
                 if (!this.refreshTokenPromise) {
                     this.refreshTokenPromise = this.refreshTokens()
                         .then((success) => {
@@ -114,63 +333,181 @@ export class ApiClient {
                     const newToken = await this.refreshTokenPromise;
                     cfg._retry = true;
                     cfg.headers = { ...(cfg.headers || {}), Authorization: newToken };
-                    const retryResp = await axios.request<
-                        AbstractResponseDto<T> | ErrorResponseDto
-                    >(cfg);
-                    if ((retryResp.data as ErrorResponseDto).errors) {
-                        return handleErrorResponse(retryResp.data);
-                    }
-                    return (retryResp.data as AbstractResponseDto<T>).payload;
-                } catch {
-                    return handleErrorResponse(data);
+                    const retryResp = await this.send<T>(cfg);
+                    return this.toResult<T>(retryResp, cfg.schema);
+                } catch (retryErr) {
+                    if (axios.isCancel(retryErr)) return abortedFailure();
+                    return this.toFailure(err.response);
                 }
             }
 
-            return handleErrorResponse(data);
+            return this.toFailure(err.response);
         }
     }
 
-    private static async refreshTokens(): Promise<boolean> {
-        const refresh = localStorage.getItem(config.refreshTokenKey);
-        if (!refresh) return false;
+    /**
+     * Sends the request, retrying network errors, 429 and 502-504 with jittered exponential
+     * backoff (or the server's Retry-After) when the request is safe to repeat.
+     */
+    private static async send<T>(
+        cfg: ApiRequestConfig,
+    ): Promise<AxiosResponse<AbstractResponseDto<T> | ErrorResponseDto>> {
+        const method = (cfg.method ?? 'GET').toUpperCase();
+        const retryable =
+            cfg.retry !== false && (IDEMPOTENT_METHODS.includes(method) || !!cfg.idempotencyKey);
+        const maxAttempts = retryable ? Math.max(1, config.apiRetryAttempts) : 1;
+        let reconnecting = false;
+
+        const attempt = async (
+            n: number,
+        ): Promise<AxiosResponse<AbstractResponseDto<T> | ErrorResponseDto>> => {
+            try {
+                return await axios.request<AbstractResponseDto<T> | ErrorResponseDto>(cfg);
+            } catch (err: any) {
+                if (n >= maxAttempts || axios.isCancel(err)) throw err;
+
+                const status: number | undefined = err.response?.status;
+                const transient = !err.response || TRANSIENT_STATUSES.includes(status!);
+                if (!transient) throw err;
+
+                const retryAfter = parseRetryAfter(err.response?.headers?.['retry-after']);
+                if (retryAfter !== null && retryAfter > RETRY_AFTER_CAP_MS) throw err;
+
+                if (!reconnecting) {
+                    reconnecting = true;
+                    ConnectionStatus.begin();
+                }
+                await sleep(retryAfter ?? backoffDelay(n), cfg.signal);
+                return attempt(n + 1);
+            }
+        };
+
         try {
-            const resp: AxiosResponse<AbstractResponseDto<TokenResponseDto>> = await axios.get(
-                `${API_BASE}${API_PUBLIC}/users/refresh-token`,
-                {
-                    headers: { Authorization: refresh },
-                },
-            );
-            const { accessToken, refreshToken } = resp.data.payload;
-            localStorage.setItem(config.accessTokenKey, accessToken);
-            if (refreshToken) localStorage.setItem(config.refreshTokenKey, refreshToken);
-
-            const { organizations }: JwtUserSubject = getAccessToken()!;
-            const slug: string = organizations[0].slug;
-
-            localStorage.setItem(config.currentOrganizationSlugKey, slug);
-
-            return true;
-        } catch {
-            return false;
+            return await attempt(1);
+        } finally {
+            if (reconnecting) ConnectionStatus.end();
         }
     }
 
-    static sendResetPassword(email: string): Promise<MessageResponseDto | ErrorResponseElement> {
+    private static cachedRequest<T>(
+        key: QueryKey,
+        ttl: number,
+        { signal, ...cfg }: ApiRequestConfig,
+    ): Promise<ApiResult<T>> {
+        return QueryCache.query<T>(key, () => this.apiRequest<T>({ ...cfg }), ttl, signal);
+    }
+
+    private static async mutate<T>(
+        cfg: ApiRequestConfig,
+        onSuccess: (value: T) => void,
+    ): Promise<ApiResult<T>> {
+        const res = await this.apiRequest<T>(cfg);
+        if (res.ok) onSuccess(res.value);
+        return res;
+    }
+
+    private static toResult<T>(
+        resp: AxiosResponse<AbstractResponseDto<T> | ErrorResponseDto>,
+        schema?: z.ZodTypeAny,
+    ): ApiResult<T> {
+        if ((resp.data as ErrorResponseDto)?.errors) {
+            return this.toFailure(resp);
+        }
+
+        let value = (resp.data as AbstractResponseDto<T>)?.payload;
+        if (schema) {
+            const parsed = schema.safeParse(value);
+            if (!parsed.success) return this.toSchemaMismatch(resp, parsed.error);
+            value = parsed.data;
+        }
+
+        return {
+            ok: true,
+            value,
+            status: resp.status,
+            requestId: this.readRequestId(resp),
+            headers: { ...(resp.headers as Record<string, string>) },
+        };
+    }
+
+    private static toFailure(resp?: AxiosResponse): ApiFailure {
+        const data = resp?.data;
+        const errors: ErrorResponseElement[] = data?.errors?.length
+            ? (data.errors as ErrorResponseElement[])
+            : [
+                  {
+                      errorType: ServiceErrorType.INTERNAL_ERROR,
+                      errorClass: resp ? 'UnknownError' : 'NetworkError',
+                      errorMessage:
+                          data?.message ??
+                          (resp ? 'An unknown error occurred' : 'Could not reach the server'),
+                  },
+              ];
+        return {
+            ok: false,
+            errors,
+            status: resp?.status ?? null,
+            requestId: this.readRequestId(resp),
+            aborted: false,
+        };
+    }
+
+    /**
+     * The backend answered, but not with the shape this client was built against. Every
+     * offending field is reported with its path so the drift is easy to track down.
+     */
+    private static toSchemaMismatch(resp: AxiosResponse, error: z.ZodError): ApiFailure {
+        return {
+            ok: false,
+            errors: error.issues.map((issue) => ({
+                errorType: ServiceErrorType.SCHEMA_MISMATCH,
+                errorClass: 'SchemaMismatch',
+                errorMessage: `Unexpected response from the server at "${formatIssuePath(issue.path)}": ${issue.message}`,
+            })),
+            status: resp.status,
+            requestId: this.readRequestId(resp),
+            aborted: false,
+        };
+    }
+
+    private static readRequestId(resp?: AxiosResponse): string | null {
+        const header = resp?.headers?.[REQUEST_ID_HEADER];
+        return typeof header === 'string' && header ? header : null;
+    }
+
+    /** A refresh token rejected as revoked or expired ends the session and opens `/login`. */
+    private static refreshTokens(): Promise<boolean> {
+        return SessionManager.refresh();
+    }
+
+    static sendResetPassword(email: string): Promise<ApiResult<MessageResponseDto>> {
         const data = { email };
         return this.apiRequest<MessageResponseDto>({
             method: 'POST',
             url: `${config.authApiBase}/public/users/send-reset-password`,
             data,
             _retry: true,
+            schema: messageResponseSchema,
+        });
+    }
+
+    static sendSignInLink(email: string): Promise<ApiResult<MessageResponseDto>> {
+        const data = { email };
+        return this.apiRequest<MessageResponseDto>({
+            method: 'POST',
+            url: `${config.authApiBase}/public/users/send-sign-in-link`,
+            data,
+            _retry: true,
+            schema: messageResponseSchema,
         });
     }
 
     static async resetPasswordByCode(
         recoveryCode: string,
         newPassword: string,
-    ): Promise<void | ErrorResponseElement> {
+    ): Promise<ApiResult<void>> {
         const data = { recoveryCode, newPassword };
-        const response = await this.apiRequest<any>({
+        const response = await this.apiRequest<void>({
             method: 'POST',
             url: `${config.authApiBase}/public/users/reset-password`,
             data,
@@ -178,7 +515,7 @@ export class ApiClient {
             validateStatus: (status) => status >= 200 && status < 400,
         });
 
-        if (response.status === 302 || response.status === 303) {
+        if (response.ok && (response.status === 302 || response.status === 303)) {
             const redirectUrl = response.headers['location'];
             if (redirectUrl) {
                 window.location.href = redirectUrl;
@@ -186,72 +523,106 @@ export class ApiClient {
                 throw new Error('Redirect URL not provided by server');
             }
         }
+
+        return response;
     }
 
-    static signup(dto: UserSignupDto): Promise<TokenResponseDto | ErrorResponseElement> {
+    static signup(dto: UserSignupDto): Promise<ApiResult<TokenResponseDto>> {
         return this.apiRequest<TokenResponseDto>({
             method: 'POST',
             url: `${API_PUBLIC}/users/signup`,
             data: dto,
             _retry: true,
+            schema: tokenResponseSchema,
         });
     }
 
-    static login(dto: UserLoginDto): Promise<TokenResponseDto | ErrorResponseElement> {
-        return this.apiRequest<TokenResponseDto>({
+    static login(dto: UserLoginDto): Promise<ApiResult<LoginResponseDto>> {
+        return this.apiRequest<LoginResponseDto>({
             method: 'POST',
             url: `${API_PUBLIC}/users/login`,
             data: dto,
+            schema: loginResponseSchema,
         });
     }
 
-    static exchangeShortCode(shortCode: string): Promise<TokenResponseDto | ErrorResponseElement> {
+    static completeTwoFactorLogin(dto: TwoFactorLoginDto): Promise<ApiResult<TokenResponseDto>> {
         return this.apiRequest<TokenResponseDto>({
+            method: 'POST',
+            url: `${API_PUBLIC}/users/login/2fa`,
+            data: dto,
+            schema: tokenResponseSchema,
+        });
+    }
+
+    static oidcLogin(dto: OidcLoginDto): Promise<ApiResult<LoginResponseDto>> {
+        return this.apiRequest<LoginResponseDto>({
+            method: 'POST',
+            url: `${config.authApiBase}/public/users/oidc-login`,
+            data: dto,
+            schema: loginResponseSchema,
+        });
+    }
+
+    static exchangeShortCode(shortCode: string): Promise<ApiResult<LoginResponseDto>> {
+        return this.apiRequest<LoginResponseDto>({
             method: 'GET',
             url: `${API_PUBLIC}/users/exchange-short-code/${shortCode}`,
+            retry: false,
+            schema: loginResponseSchema,
         });
     }
 
-    static refreshToken(): Promise<TokenResponseDto | ErrorResponseElement> {
+    static refreshToken(): Promise<ApiResult<TokenResponseDto>> {
         console.log('refreshToken');
         return this.apiRequest<TokenResponseDto>({
             method: 'GET',
             url: `${API_PUBLIC}/users/refresh-token`,
             _retry: true,
+            retry: false,
+            schema: tokenResponseSchema,
         });
     }
 
     static getOrganizationMembers(
         slug: string,
         query?: Record<string, any>,
-    ): Promise<OrganizationMembersListDto | ErrorResponseElement> {
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<OrganizationMembersListDto>> {
         return this.apiRequest<OrganizationMembersListDto>({
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/members`,
             params: query,
+            signal: opts.signal,
+            schema: organizationMembersListSchema,
         });
     }
 
     static inviteMember(
         slug: string,
         dto: InviteMemberDto,
-    ): Promise<MessageResponseDto | ErrorResponseElement> {
-        return this.apiRequest<MessageResponseDto>({
-            method: 'POST',
-            url: `${API_USER}/organizations/${slug}/members`,
-            data: dto,
-        });
+    ): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/organizations/${slug}/members`,
+                data: dto,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.organization(slug), queryKeys.organizations()),
+        );
     }
 
     static updateMemberRoles(
         slug: string,
         memberId: number,
         dto: UpdateMemberRolesDto,
-    ): Promise<MessageResponseDto | ErrorResponseElement> {
+    ): Promise<ApiResult<MessageResponseDto>> {
         return this.apiRequest<MessageResponseDto>({
             method: 'PUT',
             url: `${API_USER}/organizations/${slug}/members/${memberId}/roles`,
             data: dto,
+            schema: messageResponseSchema,
         });
     }
 
@@ -259,128 +630,200 @@ export class ApiClient {
         slug: string,
         memberId: number,
         dto: UpdateMemberUrlsDto,
-    ): Promise<MessageResponseDto | ErrorResponseElement> {
+    ): Promise<ApiResult<MessageResponseDto>> {
         return this.apiRequest<MessageResponseDto>({
             method: 'PUT',
             url: `${API_USER}/organizations/${slug}/members/${memberId}/urls`,
             data: dto,
+            schema: messageResponseSchema,
         });
     }
 
-    static deleteMember(
-        slug: string,
-        memberId: number,
-    ): Promise<MessageResponseDto | ErrorResponseElement> {
-        return this.apiRequest<MessageResponseDto>({
-            method: 'DELETE',
-            url: `${API_USER}/organizations/${slug}/members/${memberId}`,
-        });
+    static deleteMember(slug: string, memberId: number): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/organizations/${slug}/members/${memberId}`,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.organization(slug), queryKeys.organizations()),
+        );
     }
 
     static getUserOrganizations(
         params?: Record<string, any>,
-    ): Promise<OrganizationsListDto | ErrorResponseElement> {
-        return this.apiRequest<OrganizationsListDto>({
-            method: 'GET',
-            url: `${API_USER}/organizations`,
-            params,
-        });
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<OrganizationsListDto>> {
+        return this.cachedRequest<OrganizationsListDto>(
+            queryKeys.userOrganizations(params),
+            CACHE_TTL_LONG,
+            {
+                method: 'GET',
+                url: `${API_USER}/organizations`,
+                params,
+                signal: opts.signal,
+                schema: organizationsListSchema,
+            },
+        );
     }
 
-    static getOrganizationBySlug(slug: string): Promise<OrganizationDto | ErrorResponseElement> {
-        return this.apiRequest<OrganizationDto>({
+    static getOrganizationBySlug(
+        slug: string,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<OrganizationDto>> {
+        return this.cachedRequest<OrganizationDto>(queryKeys.organization(slug), CACHE_TTL_LONG, {
             method: 'GET',
             url: `${API_USER}/organizations/${slug}`,
+            signal: opts.signal,
+            schema: organizationSchema,
         });
     }
 
-    static createOrganization(
-        dto: CreateOrganizationDto,
-    ): Promise<TokenResponseDto | ErrorResponseElement> {
-        return this.apiRequest<TokenResponseDto>({
-            method: 'POST',
-            url: `${API_USER}/organizations`,
-            data: dto,
-        });
+    static createOrganization(dto: CreateOrganizationDto): Promise<ApiResult<TokenResponseDto>> {
+        return this.mutate<TokenResponseDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/organizations`,
+                data: dto,
+                schema: tokenResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.organizations()),
+        );
     }
 
     static updateOrganizationInfo(
         slug: string,
         dto: UpdateOrganizationInfoDto,
-    ): Promise<OrganizationDto | ErrorResponseElement> {
-        return this.apiRequest<OrganizationDto>({
-            method: 'PATCH',
-            url: `${API_USER}/organizations/${slug}`,
-            data: dto,
-        });
+    ): Promise<ApiResult<OrganizationDto>> {
+        return this.mutate<OrganizationDto>(
+            {
+                method: 'PATCH',
+                url: `${API_USER}/organizations/${slug}`,
+                data: dto,
+                schema: organizationSchema,
+            },
+            (org) => {
+                QueryCache.set(queryKeys.organization(slug), org);
+                QueryCache.invalidate(queryKeys.organizations());
+            },
+        );
     }
 
     static updateOrganizationAvatar(
         slug: string,
         dto: UpdateOrganizationAvatarDto,
-    ): Promise<OrganizationDto | ErrorResponseElement> {
-        return this.apiRequest<OrganizationDto>({
-            method: 'PUT',
-            url: `${API_USER}/organizations/${slug}/avatar`,
-            data: dto,
-        });
+    ): Promise<ApiResult<OrganizationDto>> {
+        return this.mutate<OrganizationDto>(
+            {
+                method: 'PUT',
+                url: `${API_USER}/organizations/${slug}/avatar`,
+                data: dto,
+                schema: organizationSchema,
+            },
+            (org) => {
+                QueryCache.set(queryKeys.organization(slug), org);
+                QueryCache.invalidate(queryKeys.organizations());
+            },
+        );
     }
 
-    static deleteOrganizationAvatar(slug: string): Promise<OrganizationDto | ErrorResponseElement> {
-        return this.apiRequest<OrganizationDto>({
-            method: 'DELETE',
-            url: `${API_USER}/organizations/${slug}/avatar`,
-        });
+    static deleteOrganizationAvatar(slug: string): Promise<ApiResult<OrganizationDto>> {
+        return this.mutate<OrganizationDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/organizations/${slug}/avatar`,
+                schema: organizationSchema,
+            },
+            (org) => {
+                QueryCache.set(queryKeys.organization(slug), org);
+                QueryCache.invalidate(queryKeys.organizations());
+            },
+        );
     }
 
-    static deleteOrganization(slug: string): Promise<TokenResponseDto | ErrorResponseElement> {
-        return this.apiRequest<TokenResponseDto>({
-            method: 'DELETE',
-            url: `${API_USER}/organizations/${slug}`,
-        });
+    static deleteOrganization(slug: string): Promise<ApiResult<TokenResponseDto>> {
+        return this.mutate<TokenResponseDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/organizations/${slug}`,
+                schema: tokenResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.organization(slug), queryKeys.organizations()),
+        );
     }
 
-    static getTags(slug: string): Promise<string[] | ErrorResponseElement> {
-        return this.apiRequest<string[]>({
+    static getTags(slug: string, opts: RequestOptions = {}): Promise<ApiResult<string[]>> {
+        return this.cachedRequest<string[]>(queryKeys.tags(slug), CACHE_TTL_SHORT, {
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/urls/tags`,
+            signal: opts.signal,
+            schema: tagsSchema,
         });
     }
 
     static getShortUrls(
         slug: string,
         params?: ShortUrlsSearchParams,
-    ): Promise<ShortUrlsListDto | ErrorResponseElement> {
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<ShortUrlsListDto>> {
         return this.apiRequest<ShortUrlsListDto>({
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/urls`,
             params,
+            signal: opts.signal,
+            schema: shortUrlsListSchema,
         });
     }
 
-    static getShortUrl(slug: string, urlId: number): Promise<ShortUrlDto | ErrorResponseElement> {
+    static getShortUrl(
+        slug: string,
+        urlId: number,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<ShortUrlDto>> {
         return this.apiRequest<ShortUrlDto>({
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/urls/${urlId}`,
+            signal: opts.signal,
+            schema: shortUrlSchema,
         });
     }
 
     static createShortUrl(
         slug: string,
         dto: CreateShortUrlDto,
-    ): Promise<TokenResponseDto | ErrorResponseElement> {
-        return this.apiRequest<TokenResponseDto>({
-            method: 'POST',
-            url: `${API_USER}/organizations/${slug}/urls`,
-            data: dto,
+        opts: MutationOptions = {},
+    ): Promise<ApiResult<CreatedShortUrlDto>> {
+        return this.mutate<CreatedShortUrlDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/organizations/${slug}/urls`,
+                data: dto,
+                idempotencyKey: opts.idempotencyKey,
+                schema: createdShortUrlSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.tags(slug)),
+        );
+    }
+
+    static checkAliasAvailability(
+        slug: string,
+        alias: string,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<AliasAvailabilityDto>> {
+        return this.apiRequest<AliasAvailabilityDto>({
+            method: 'GET',
+            url: `${API_USER}/organizations/${slug}/urls/aliases/${encodeURIComponent(alias)}`,
+            signal: opts.signal,
+            schema: aliasAvailabilitySchema,
         });
     }
 
-    static createTrialShortUrl(originalUrl: string): Promise<ShortUrlDto | ErrorResponseElement> {
+    static createTrialShortUrl(originalUrl: string): Promise<ApiResult<ShortUrlDto>> {
         return this.apiRequest<ShortUrlDto>({
             method: 'POST',
             url: `${API_PUBLIC}/urls`,
             data: { originalUrl },
+            schema: shortUrlSchema,
         });
     }
 
@@ -388,21 +831,41 @@ export class ApiClient {
         slug: string,
         urlId: number,
         dto: ChangeUrlStateDto,
-    ): Promise<ShortUrlDto | ErrorResponseElement> {
+    ): Promise<ApiResult<ShortUrlDto>> {
         return this.apiRequest<ShortUrlDto>({
             method: 'PUT',
             url: `${API_USER}/organizations/${slug}/urls/${urlId}`,
             data: dto,
+            schema: shortUrlSchema,
         });
     }
 
+    static updateShortUrl(
+        slug: string,
+        urlId: number,
+        dto: UpdateShortUrlDto,
+    ): Promise<ApiResult<ShortUrlDto>> {
+        return this.mutate<ShortUrlDto>(
+            {
+                method: 'PATCH',
+                url: `${API_USER}/organizations/${slug}/urls/${urlId}`,
+                data: dto,
+                schema: shortUrlSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.tags(slug)),
+        );
+    }
+
     static getGlobalStats(
         slug: string,
         urlId: number,
-    ): Promise<GlobalStatisticsDto | ErrorResponseElement> {
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<GlobalStatisticsDto>> {
         return this.apiRequest<GlobalStatisticsDto>({
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/urls/${urlId}/stats/global`,
+            signal: opts.signal,
+            schema: globalStatisticsSchema,
         });
     }
 
@@ -412,43 +875,270 @@ export class ApiClient {
         start: string,
         end: string,
         period: number,
-    ): Promise<PeriodCountsDto | ErrorResponseElement> {
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<PeriodCountsDto>> {
         return this.apiRequest<PeriodCountsDto>({
             method: 'GET',
             url: `${API_USER}/organizations/${slug}/urls/${urlId}/stats/time-range`,
             params: { start, end, period },
+            signal: opts.signal,
+            schema: periodCountsSchema,
         });
     }
 
-    static getUserInfo(): Promise<UserInfoDto | ErrorResponseElement> {
-        return this.apiRequest<UserInfoDto>({
+    static getUserInfo(opts: RequestOptions = {}): Promise<ApiResult<UserInfoDto>> {
+        return this.cachedRequest<UserInfoDto>(queryKeys.userInfo(), CACHE_TTL_LONG, {
             method: 'GET',
             url: `${API_USER}/users/info`,
+            signal: opts.signal,
+            schema: userInfoSchema,
         });
     }
 
-    static updateUserInfo(dto: UpdateUserInfoDto): Promise<UserInfoDto | ErrorResponseElement> {
-        return this.apiRequest<UserInfoDto>({
-            method: 'PATCH',
-            url: `${API_USER}/users/info`,
-            data: dto,
+    static updateUserInfo(dto: UpdateUserInfoDto): Promise<ApiResult<UserInfoDto>> {
+        return this.mutate<UserInfoDto>(
+            {
+                method: 'PATCH',
+                url: `${API_USER}/users/info`,
+                data: dto,
+                schema: userInfoSchema,
+            },
+            (user) => QueryCache.set(queryKeys.userInfo(), user),
+        );
+    }
+
+    static updateProfilePicture(dto: UpdateUserProfilePictureDto): Promise<ApiResult<UserInfoDto>> {
+        return this.mutate<UserInfoDto>(
+            {
+                method: 'PUT',
+                url: `${API_USER}/users/picture`,
+                data: dto,
+                schema: userInfoSchema,
+            },
+            (user) => QueryCache.set(queryKeys.userInfo(), user),
+        );
+    }
+
+    static getSessions(opts: RequestOptions = {}): Promise<ApiResult<UserSessionDto[]>> {
+        return this.cachedRequest<UserSessionDto[]>(queryKeys.userSessions(), CACHE_TTL_SHORT, {
+            method: 'GET',
+            url: `${API_USER}/users/sessions`,
+            signal: opts.signal,
+            schema: userSessionsSchema,
+        });
+    }
+
+    static revokeSession(sessionId: string): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/users/sessions/${sessionId}`,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.userSessions()),
+        );
+    }
+
+    /** Signs out every session of the user except the one making the request. */
+    static revokeOtherSessions(): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/users/sessions`,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.userSessions()),
+        );
+    }
+
+    static getApiTokens(opts: RequestOptions = {}): Promise<ApiResult<ApiTokenDto[]>> {
+        return this.cachedRequest<ApiTokenDto[]>(queryKeys.apiTokens(), CACHE_TTL_SHORT, {
+            method: 'GET',
+            url: `${API_USER}/users/api-tokens`,
+            signal: opts.signal,
+            schema: apiTokensSchema,
         });
     }
 
-    static updateProfilePicture(
-        dto: UpdateUserProfilePictureDto,
-    ): Promise<UserInfoDto | ErrorResponseElement> {
-        return this.apiRequest<UserInfoDto>({
+    static createApiToken(dto: CreateApiTokenDto): Promise<ApiResult<CreatedApiTokenDto>> {
+        return this.mutate<CreatedApiTokenDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/users/api-tokens`,
+                data: dto,
+                schema: createdApiTokenSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.apiTokens()),
+        );
+    }
+
+    static revokeApiToken(tokenId: number): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/users/api-tokens/${tokenId}`,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.apiTokens()),
+        );
+    }
+
+    static changePassword(dto: ChangePasswordDto): Promise<ApiResult<MessageResponseDto>> {
+        return this.apiRequest<MessageResponseDto>({
             method: 'PUT',
-            url: `${API_USER}/users/picture`,
+            url: `${API_USER}/users/password`,
             data: dto,
+            schema: messageResponseSchema,
         });
     }
 
-    static deleteProfilePicture(): Promise<UserInfoDto | ErrorResponseElement> {
-        return this.apiRequest<UserInfoDto>({
+    /** Refused with `ORGANIZATION_ACTION_NOT_ALLOWED` while the user still owns an organization. */
+    static deleteAccount(dto: DeleteAccountDto): Promise<ApiResult<MessageResponseDto>> {
+        return this.apiRequest<MessageResponseDto>({
             method: 'DELETE',
-            url: `${API_USER}/users/picture`,
+            url: `${API_USER}/users`,
+            data: dto,
+            schema: messageResponseSchema,
+        });
+    }
+
+    static startTotpEnrollment(): Promise<ApiResult<TotpEnrollmentDto>> {
+        return this.apiRequest<TotpEnrollmentDto>({
+            method: 'POST',
+            url: `${API_USER}/users/2fa/totp`,
+            schema: totpEnrollmentSchema,
+        });
+    }
+
+    static confirmTotpEnrollment(dto: TotpCodeDto): Promise<ApiResult<RecoveryCodesDto>> {
+        return this.mutate<RecoveryCodesDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/users/2fa/totp/confirm`,
+                data: dto,
+                schema: recoveryCodesSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.userInfo()),
+        );
+    }
+
+    /** Accepts either a current authenticator code or an unused recovery code. */
+    static disableTotp(dto: TotpCodeDto): Promise<ApiResult<MessageResponseDto>> {
+        return this.mutate<MessageResponseDto>(
+            {
+                method: 'POST',
+                url: `${API_USER}/users/2fa/totp/disable`,
+                data: dto,
+                schema: messageResponseSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.userInfo()),
+        );
+    }
+
+    static getPlatformStats(opts: RequestOptions = {}): Promise<ApiResult<PlatformStatsDto>> {
+        return this.cachedRequest<PlatformStatsDto>(queryKeys.platformStats(), CACHE_TTL_SHORT, {
+            method: 'GET',
+            url: `${API_ADMIN}/stats`,
+            signal: opts.signal,
+            schema: platformStatsSchema,
+        });
+    }
+
+    static getAdminUsers(
+        params?: AdminSearchParams,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<AdminUsersListDto>> {
+        return this.apiRequest<AdminUsersListDto>({
+            method: 'GET',
+            url: `${API_ADMIN}/users`,
+            params,
+            signal: opts.signal,
+            schema: adminUsersListSchema,
+        });
+    }
+
+    static setUserLocked(userId: number, locked: boolean): Promise<ApiResult<AdminUserDto>> {
+        return this.mutate<AdminUserDto>(
+            {
+                method: 'PUT',
+                url: `${API_ADMIN}/users/${userId}/lock`,
+                data: { locked },
+                schema: adminUserSchema,
+            },
+            () => QueryCache.invalidate(queryKeys.platformStats()),
+        );
+    }
+
+    /** Signs the user out everywhere and emails a reset link they must use before logging in. */
+    static forcePasswordReset(userId: number): Promise<ApiResult<AdminUserDto>> {
+        return this.apiRequest<AdminUserDto>({
+            method: 'POST',
+            url: `${API_ADMIN}/users/${userId}/password-reset`,
+            schema: adminUserSchema,
+        });
+    }
+
+    static getAdminOrganizations(
+        params?: AdminSearchParams,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<AdminOrganizationsListDto>> {
+        return this.apiRequest<AdminOrganizationsListDto>({
+            method: 'GET',
+            url: `${API_ADMIN}/organizations`,
+            params,
+            signal: opts.signal,
+            schema: adminOrganizationsListSchema,
+        });
+    }
+
+    static getAdminOrganization(
+        slug: string,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<AdminOrganizationDto>> {
+        return this.apiRequest<AdminOrganizationDto>({
+            method: 'GET',
+            url: `${API_ADMIN}/organizations/${slug}`,
+            signal: opts.signal,
+            schema: adminOrganizationSchema,
+        });
+    }
+
+    static getAdminOrganizationUrls(
+        slug: string,
+        params?: ShortUrlsSearchParams,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<ShortUrlsListDto>> {
+        return this.apiRequest<ShortUrlsListDto>({
+            method: 'GET',
+            url: `${API_ADMIN}/organizations/${slug}/urls`,
+            params,
+            signal: opts.signal,
+            schema: shortUrlsListSchema,
         });
     }
+
+    static getAdminOrganizationMembers(
+        slug: string,
+        query?: Record<string, any>,
+        opts: RequestOptions = {},
+    ): Promise<ApiResult<OrganizationMembersListDto>> {
+        return this.apiRequest<OrganizationMembersListDto>({
+            method: 'GET',
+            url: `${API_ADMIN}/organizations/${slug}/members`,
+            params: query,
+            signal: opts.signal,
+            schema: organizationMembersListSchema,
+        });
+    }
+
+    static deleteProfilePicture(): Promise<ApiResult<UserInfoDto>> {
+        return this.mutate<UserInfoDto>(
+            {
+                method: 'DELETE',
+                url: `${API_USER}/users/picture`,
+                schema: userInfoSchema,
+            },
+            (user) => QueryCache.set(queryKeys.userInfo(), user),
+        );
+    }
 }
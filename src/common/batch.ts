@@ -0,0 +1,29 @@
+/**
+ * Runs `task` over `items` at most `batchSize` at a time, batch after batch, so bulk
+ * operations do not flood the API. `onBatch` is called with the number of items finished;
+ * `pauseMs` spaces batches out further for endpoints with rate limits.
+ */
+export const runBatched = <T>(
+    items: readonly T[],
+    batchSize: number,
+    task: (item: T) => Promise<void>,
+    onBatch?: (done: number) => void,
+    pauseMs = 0,
+): Promise<void> => {
+    const batches: T[][] = [];
+    for (let i = 0; i < items.length; i += batchSize) {
+        batches.push(items.slice(i, i + batchSize));
+    }
+    return batches
+        .reduce<Promise<number>>(
+            (previous, batch) =>
+                previous.then(async (done) => {
+                    if (done && pauseMs) await new Promise((r) => setTimeout(r, pauseMs));
+                    await Promise.all(batch.map(task));
+                    onBatch?.(done + batch.length);
+                    return done + batch.length;
+                }),
+            Promise.resolve(0),
+        )
+        .then(() => undefined);
+};
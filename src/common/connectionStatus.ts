@@ -0,0 +1,34 @@
+/**
+ * Tracks how many API requests are currently waiting to be retried after a transient
+ * failure, so the UI can show a single global "reconnecting" indicator.
+ */
+export class ConnectionStatus {
+    private static retrying = 0;
+
+    private static listeners = new Set<() => void>();
+
+    private static notify() {
+        this.listeners.forEach((listener) => listener());
+    }
+
+    static begin() {
+        this.retrying++;
+        this.notify();
+    }
+
+    static end() {
+        this.retrying = Math.max(0, this.retrying - 1);
+        this.notify();
+    }
+
+    static isReconnecting(): boolean {
+        return this.retrying > 0;
+    }
+
+    static subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
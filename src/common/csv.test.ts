@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { csvLine, parseCsv } from './csv.ts';
+
+describe('csvLine', () => {
+    it('quotes cells with delimiters, quotes and line breaks', () => {
+        expect(csvLine(['a,b', 'say "hi"', 'two\nlines', 'plain'])).toBe(
+            '"a,b","say ""hi""","two\nlines",plain\r\n',
+        );
+    });
+
+    it('writes null and undefined as empty cells', () => {
+        expect(csvLine([null, undefined, 0])).toBe(',,0\r\n');
+    });
+
+    it.each(['=1+1', '+1', '-1', '@SUM(A1)', '\tcmd', '\rcmd'])(
+        'prefixes text starting like a formula: %j',
+        (value) => {
+            const [[cell]] = parseCsv(csvLine([value]));
+            expect(cell).toBe(`'${value}`);
+        },
+    );
+
+    it('keeps the prefix inside quoted cells', () => {
+        expect(csvLine(['=HYPERLINK("http://evil.test","x")'])).toBe(
+            '"\'=HYPERLINK(""http://evil.test"",""x"")"\r\n',
+        );
+    });
+
+    it('leaves numbers and text without a formula prefix unchanged', () => {
+        expect(csvLine([-5, 'a=b', 'https://example.com/?q=-1'])).toBe(
+            '-5,a=b,https://example.com/?q=-1\r\n',
+        );
+    });
+});
+
+describe('parseCsv', () => {
+    it('reads back what csvLine writes', () => {
+        const rows = [
+            ['id', 'title'],
+            ['1', 'Hello, "world"'],
+        ];
+        expect(parseCsv(rows.map(csvLine).join(''))).toEqual(rows);
+    });
+
+    it('detects semicolon-delimited files', () => {
+        expect(parseCsv('url;tags\nhttps://a.test;x y\n')).toEqual([
+            ['url', 'tags'],
+            ['https://a.test', 'x y'],
+        ]);
+    });
+
+    it('strips a byte order mark and skips blank lines', () => {
+        expect(parseCsv('\uFEFFurl\r\n\r\nhttps://a.test\r\n , \r\n')).toEqual([
+            ['url'],
+            ['https://a.test'],
+        ]);
+    });
+});
@@ -0,0 +1,61 @@
+// Spreadsheet apps run text starting with one of these as a formula; a leading `'` keeps it text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+    const raw = value === null || value === undefined ? '' : String(value);
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises one row as an RFC 4180 CSV line, including the trailing line break. Text that a
+ * spreadsheet would evaluate as a formula is prefixed with `'`; numbers are written as is.
+ */
+export const csvLine = (values: readonly unknown[]): string =>
+    `${values.map(csvCell).join(',')}\r\n`;
+
+/**
+ * Parses RFC 4180 CSV into rows of cells. The delimiter is `,` unless the first line has
+ * more `;`, which is what spreadsheet apps write in locales with a decimal comma.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const input = text.replace(/^\uFEFF/, '');
+    const firstLine = input.slice(0, input.search(/\r?\n|$/));
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((c) => c.trim()));
+};
@@ -0,0 +1,73 @@
+type FilePart = string | Blob | ArrayBuffer | Uint8Array;
+
+/** Offers `content` to the user as a file download. */
+export const downloadFile = (filename: string, content: FilePart | FilePart[], type: string) => {
+    const blob = new Blob(Array.isArray(content) ? content : [content], { type });
+    const href = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking in the same task can cancel the download before the browser has started it.
+    setTimeout(() => URL.revokeObjectURL(href), 0);
+};
+
+/** Destination of a download that is written piece by piece. */
+export interface DownloadSink {
+    write(chunks: Uint8Array[]): Promise<void>;
+    close(): Promise<void>;
+    abort(): Promise<void>;
+}
+
+// The File System Access API is not in the DOM typings yet.
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{
+    createWritable(): Promise<{
+        write(data: Uint8Array): Promise<void>;
+        close(): Promise<void>;
+        abort(): Promise<void>;
+    }>;
+}>;
+
+/**
+ * Opens a download to stream into. Where the browser lets the user pick a file the data
+ * goes straight to disk; elsewhere each piece becomes a Blob, which browsers may page out,
+ * and the file is offered once complete. Call it directly from the click handler, as the
+ * file picker needs a user gesture. Resolves null when the user cancels the picker.
+ */
+export const openDownloadSink = async (
+    filename: string,
+    type: string,
+): Promise<DownloadSink | null> => {
+    const win = window as unknown as { showSaveFilePicker?: SaveFilePicker };
+    if (win.showSaveFilePicker) {
+        try {
+            const handle = await win.showSaveFilePicker({ suggestedName: filename });
+            const file = await handle.createWritable();
+            return {
+                write: (chunks) =>
+                    chunks.reduce(
+                        (prev, chunk) => prev.then(() => file.write(chunk)),
+                        Promise.resolve(),
+                    ),
+                close: () => file.close(),
+                abort: () => file.abort(),
+            };
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return null;
+            // Any other failure (e.g. a sandboxed frame) falls back to an in-page download.
+        }
+    }
+
+    let parts: Blob[] = [];
+    return {
+        write: async (chunks) => {
+            parts.push(new Blob(chunks, { type }));
+        },
+        close: async () => downloadFile(filename, parts, type),
+        abort: async () => {
+            parts = [];
+        },
+    };
+};
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/** Password rules enforced by the auth service, shared by every form that sets a password. */
+export const passwordPolicySchema = z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(64, 'Password must be at most 64 characters')
+    .regex(/\d/, { message: 'Password must contain at least one digit' })
+    .regex(/[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/, {
+        message: 'Password must contain at least one special character',
+    })
+    .regex(/[a-z]/, { message: 'Password must contain at least one lowercase letter' })
+    .regex(/[A-Z]/, { message: 'Password must contain at least one uppercase letter' })
+    .refine((val) => !/\s/.test(val), { message: 'Password must not contain whitespace' });
@@ -0,0 +1,3 @@
+/** Dashboard path scoped to an organization, e.g. `orgPath('acme', '/urls/42')`. */
+export const orgPath = (slug: string, path: string = '/urls'): string =>
+    `/o/${encodeURIComponent(slug)}${path}`;
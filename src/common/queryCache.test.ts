@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache } from './queryCache.ts';
+import { ApiResult } from './result.ts';
+
+const success = <T>(value: T): ApiResult<T> => ({
+    ok: true,
+    value,
+    status: 200,
+    requestId: null,
+    headers: {},
+});
+
+const failure: ApiResult<never> = {
+    ok: false,
+    errors: [],
+    status: 500,
+    requestId: null,
+    aborted: false,
+};
+
+const TTL = 1000;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    QueryCache.clear();
+    vi.useRealTimers();
+});
+
+describe('QueryCache', () => {
+    it('serves a fresh entry without fetching again', async () => {
+        const fetcher = vi.fn().mockResolvedValue(success(['a']));
+        await QueryCache.query(['tags'], fetcher, TTL);
+        const res = await QueryCache.query(['tags'], fetcher, TTL);
+
+        expect(res).toMatchObject({ ok: true, value: ['a'] });
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares one fetch between concurrent queries of the same key', async () => {
+        const fetcher = vi.fn().mockResolvedValue(success(1));
+        const [first, second] = await Promise.all([
+            QueryCache.query(['n'], fetcher, TTL),
+            QueryCache.query(['n'], fetcher, TTL),
+        ]);
+
+        expect(first).toBe(second);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves an expired entry at once and refetches it in the background', async () => {
+        const fetcher = vi
+            .fn()
+            .mockResolvedValueOnce(success('old'))
+            .mockResolvedValueOnce(success('new'));
+        await QueryCache.query(['k'], fetcher, TTL);
+        vi.advanceTimersByTime(TTL + 1);
+
+        const stale = await QueryCache.query(['k'], fetcher, TTL);
+        expect(stale).toMatchObject({ value: 'old' });
+        expect(fetcher).toHaveBeenCalledTimes(2);
+
+        await vi.runAllTimersAsync();
+        expect(QueryCache.peek(['k'])).toMatchObject({ value: 'new' });
+    });
+
+    it('keeps the last good value when a refetch fails', async () => {
+        const fetcher = vi.fn().mockResolvedValueOnce(success('good')).mockResolvedValue(failure);
+        await QueryCache.query(['k'], fetcher, TTL);
+        vi.advanceTimersByTime(TTL + 1);
+        await QueryCache.query(['k'], fetcher, TTL);
+        await vi.runAllTimersAsync();
+
+        expect(QueryCache.peek(['k'])).toMatchObject({ value: 'good' });
+    });
+
+    it('does not cache failures', async () => {
+        const fetcher = vi.fn().mockResolvedValueOnce(failure).mockResolvedValue(success(1));
+        await expect(QueryCache.query(['k'], fetcher, TTL)).resolves.toMatchObject({ ok: false });
+        await expect(QueryCache.query(['k'], fetcher, TTL)).resolves.toMatchObject({ value: 1 });
+    });
+
+    it('lets an aborted caller go while the fetch still fills the cache', async () => {
+        let resolve: (res: ApiResult<number>) => void = () => undefined;
+        const fetcher = () => new Promise<ApiResult<number>>((r) => (resolve = r));
+        const controller = new AbortController();
+        const pending = QueryCache.query(['k'], fetcher, TTL, controller.signal);
+
+        controller.abort();
+        await expect(pending).resolves.toMatchObject({ ok: false, aborted: true });
+
+        resolve(success(7));
+        await vi.runAllTimersAsync();
+        expect(QueryCache.peek(['k'])).toMatchObject({ value: 7 });
+    });
+
+    it('refetches invalidated entries that are subscribed and drops the rest', async () => {
+        const watched = vi.fn().mockResolvedValue(success('w'));
+        const unwatched = vi.fn().mockResolvedValue(success('u'));
+        await QueryCache.query(['org', 'acme', 'tags'], watched, TTL);
+        await QueryCache.query(['org', 'acme', 'members'], unwatched, TTL);
+        const listener = vi.fn();
+        QueryCache.subscribe(['org', 'acme', 'tags'], listener);
+
+        QueryCache.invalidate(['org', 'acme']);
+        await vi.runAllTimersAsync();
+
+        expect(watched).toHaveBeenCalledTimes(2);
+        expect(listener).toHaveBeenCalled();
+        expect(QueryCache.peek(['org', 'acme', 'members'])).toBeNull();
+    });
+
+    it('only invalidates keys that start with the prefix', async () => {
+        const fetcher = vi.fn().mockResolvedValue(success(1));
+        await QueryCache.query(['org', 'other'], fetcher, TTL);
+
+        QueryCache.invalidate(['org', 'acme']);
+        expect(QueryCache.peek(['org', 'other'])).not.toBeNull();
+    });
+
+    it('notifies subscribers when a value is set directly', () => {
+        const listener = vi.fn();
+        QueryCache.subscribe(['user'], listener);
+        QueryCache.set(['user'], { name: 'Alice' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(QueryCache.peek(['user'])).toMatchObject({ value: { name: 'Alice' } });
+    });
+});
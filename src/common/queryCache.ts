@@ -0,0 +1,146 @@
+import { abortedFailure, ApiResult, ApiSuccess } from './result.ts';
+
+export type QueryKey = readonly unknown[];
+
+interface CacheEntry {
+    key: QueryKey;
+    result: ApiSuccess<unknown> | null;
+    updatedAt: number;
+    ttl: number;
+    stale: boolean;
+    pending: Promise<ApiResult<unknown>> | null;
+    fetcher: (() => Promise<ApiResult<unknown>>) | null;
+    listeners: Set<() => void>;
+}
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+    prefix.length <= key.length && prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+
+/**
+ * In-memory stale-while-revalidate cache for idempotent API reads. A fresh entry is served
+ * as-is, an expired or invalidated one is served immediately while it is refetched in the
+ * background, and subscribers are notified whenever an entry changes.
+ */
+export class QueryCache {
+    private static entries = new Map<string, CacheEntry>();
+
+    private static entry(key: QueryKey): CacheEntry {
+        const hash = hashKey(key);
+        let entry = this.entries.get(hash);
+        if (!entry) {
+            entry = {
+                key,
+                result: null,
+                updatedAt: 0,
+                ttl: 0,
+                stale: true,
+                pending: null,
+                fetcher: null,
+                listeners: new Set(),
+            };
+            this.entries.set(hash, entry);
+        }
+        return entry;
+    }
+
+    private static notify(entry: CacheEntry) {
+        entry.listeners.forEach((listener) => listener());
+    }
+
+    private static revalidate(entry: CacheEntry): Promise<ApiResult<unknown>> {
+        if (entry.pending) return entry.pending;
+        if (!entry.fetcher) return Promise.resolve(abortedFailure());
+
+        const pending = entry.fetcher().then((res) => {
+            if (entry.pending === pending) entry.pending = null;
+            if (res.ok) {
+                entry.result = res;
+                entry.updatedAt = Date.now();
+                entry.stale = false;
+                this.notify(entry);
+            }
+            return res;
+        });
+        entry.pending = pending;
+        return pending;
+    }
+
+    static query<T>(
+        key: QueryKey,
+        fetcher: () => Promise<ApiResult<T>>,
+        ttl: number,
+        signal?: AbortSignal,
+    ): Promise<ApiResult<T>> {
+        const entry = this.entry(key);
+        entry.fetcher = fetcher;
+        entry.ttl = ttl;
+
+        if (entry.result) {
+            if (entry.stale || Date.now() - entry.updatedAt > entry.ttl) {
+                this.revalidate(entry);
+            }
+            return Promise.resolve(entry.result as ApiSuccess<T>);
+        }
+
+        const pending = this.revalidate(entry) as Promise<ApiResult<T>>;
+        if (!signal) return pending;
+        if (signal.aborted) return Promise.resolve(abortedFailure());
+
+        return new Promise((resolve) => {
+            const onAbort = () => resolve(abortedFailure());
+            signal.addEventListener('abort', onAbort, { once: true });
+            pending.then((res) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(res);
+            });
+        });
+    }
+
+    static peek<T>(key: QueryKey): ApiSuccess<T> | null {
+        return (this.entries.get(hashKey(key))?.result as ApiSuccess<T> | undefined) ?? null;
+    }
+
+    static set<T>(key: QueryKey, value: T) {
+        const entry = this.entry(key);
+        entry.result = {
+            ok: true,
+            value,
+            status: 200,
+            requestId: null,
+            headers: {},
+        };
+        entry.updatedAt = Date.now();
+        entry.stale = false;
+        this.notify(entry);
+    }
+
+    /**
+     * Marks every entry whose key starts with one of the prefixes as stale. Entries that are
+     * currently rendered somewhere are refetched right away, the rest are dropped.
+     */
+    static invalidate(...prefixes: QueryKey[]) {
+        this.entries.forEach((entry, hash) => {
+            if (!prefixes.some((prefix) => matchesPrefix(entry.key, prefix))) return;
+            if (entry.listeners.size) {
+                entry.stale = true;
+                this.revalidate(entry);
+            } else {
+                this.entries.delete(hash);
+            }
+        });
+    }
+
+    static subscribe(key: QueryKey, listener: () => void): () => void {
+        const entry = this.entry(key);
+        entry.listeners.add(listener);
+        return () => {
+            entry.listeners.delete(listener);
+        };
+    }
+
+    static clear() {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,70 @@
+import { ErrorResponseElement, ServiceErrorType } from '../model/common.ts';
+
+export interface ApiSuccess<T> {
+    ok: true;
+    value: T;
+    status: number;
+    requestId: string | null;
+    headers: Record<string, string>;
+}
+
+export interface ApiFailure {
+    ok: false;
+    errors: ErrorResponseElement[];
+    status: number | null;
+    requestId: string | null;
+    aborted: boolean;
+}
+
+export type ApiResult<T> = ApiSuccess<T> | ApiFailure;
+
+export const errorMessages = (failure: ApiFailure): string[] =>
+    failure.errors.map((e) => e.errorMessage).filter((m): m is string => !!m);
+
+export class ApiResultError extends Error {
+    readonly failure: ApiFailure;
+
+    constructor(failure: ApiFailure) {
+        super(errorMessages(failure).join('; ') || 'API request failed');
+        this.name = 'ApiResultError';
+        this.failure = failure;
+    }
+}
+
+export const isOk = <T>(res: ApiResult<T>): res is ApiSuccess<T> => res.ok;
+
+export const isErr = <T>(res: ApiResult<T>): res is ApiFailure => !res.ok;
+
+export const unwrap = <T>(res: ApiResult<T>): T => {
+    if (!res.ok) throw new ApiResultError(res);
+    return res.value;
+};
+
+export const unwrapOr = <T>(res: ApiResult<T>, fallback: T): T => (res.ok ? res.value : fallback);
+
+export const match = <T, R>(
+    res: ApiResult<T>,
+    handlers: { ok: (value: T, res: ApiSuccess<T>) => R; err: (failure: ApiFailure) => R },
+): R => (res.ok ? handlers.ok(res.value, res) : handlers.err(res));
+
+export const mapResult = <T, U>(res: ApiResult<T>, fn: (value: T) => U): ApiResult<U> =>
+    res.ok ? { ...res, value: fn(res.value) } : res;
+
+export const abortedFailure = (): ApiFailure => ({
+    ok: false,
+    errors: [
+        {
+            errorType: ServiceErrorType.INTERNAL_ERROR,
+            errorClass: 'AbortError',
+            errorMessage: 'The request was cancelled',
+        },
+    ],
+    status: null,
+    requestId: null,
+    aborted: true,
+});
+
+export const isAborted = <T>(res: ApiResult<T>): boolean => !res.ok && res.aborted;
+
+export const hasErrorType = (failure: ApiFailure, type: ServiceErrorType): boolean =>
+    failure.errors.some((e) => e.errorType === type);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ShortUrlDto } from '../model/urls.ts';
+import { EMPTY_SCHEDULE, ScheduleInput, scheduleFromUrl, scheduleSchema } from './schedule.ts';
+
+const errorsFor = (input: ScheduleInput) =>
+    scheduleSchema.safeParse(input).error?.flatten().fieldErrors ?? {};
+
+describe('scheduleSchema', () => {
+    it('sends an empty schedule as all nulls', () => {
+        expect(scheduleSchema.parse(EMPTY_SCHEDULE)).toEqual({
+            activateAt: null,
+            expiresAt: null,
+            maxClicks: null,
+        });
+    });
+
+    it('converts dates to ISO strings and the click limit to a number', () => {
+        const input = {
+            activateAt: new Date('2025-06-01T08:00:00Z'),
+            expiresAt: new Date('2025-06-30T08:00:00Z'),
+            maxClicks: ' 100 ',
+        };
+
+        expect(scheduleSchema.parse(input)).toEqual({
+            activateAt: '2025-06-01T08:00:00.000Z',
+            expiresAt: '2025-06-30T08:00:00.000Z',
+            maxClicks: 100,
+        });
+    });
+
+    it('rejects an expiry that is not after the activation', () => {
+        const at = new Date('2025-06-01T08:00:00Z');
+
+        expect(errorsFor({ activateAt: at, expiresAt: at, maxClicks: '' }).expiresAt).toEqual([
+            'Expiry must be after activation',
+        ]);
+    });
+
+    it('rejects dates a picker could not parse', () => {
+        const input = { ...EMPTY_SCHEDULE, activateAt: new Date('not a date') };
+
+        expect(errorsFor(input).activateAt).toEqual(['Invalid date']);
+    });
+
+    it.each([
+        ['1.5', 'Must be a whole number'],
+        ['-3', 'Must be a whole number'],
+        ['0', 'Must be at least 1'],
+    ])('rejects %s as a click limit', (maxClicks, message) => {
+        expect(errorsFor({ ...EMPTY_SCHEDULE, maxClicks }).maxClicks).toContain(message);
+    });
+});
+
+describe('scheduleFromUrl', () => {
+    it('turns the stored schedule back into form input', () => {
+        const url = {
+            activateAt: '2025-06-01T08:00:00.000Z',
+            expiresAt: null,
+            maxClicks: 5,
+        } as ShortUrlDto;
+
+        expect(scheduleFromUrl(url)).toEqual({
+            activateAt: new Date('2025-06-01T08:00:00.000Z'),
+            expiresAt: null,
+            maxClicks: '5',
+        });
+    });
+});
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { ShortUrlDto } from '../model/urls.ts';
+
+/** Schedule fields as edited in a form; `maxClicks` is the raw input text. */
+export interface ScheduleInput {
+    activateAt: Date | null;
+    expiresAt: Date | null;
+    maxClicks: string;
+}
+
+export type ScheduleErrors = Partial<Record<keyof ScheduleInput, string>>;
+
+export const EMPTY_SCHEDULE: ScheduleInput = { activateAt: null, expiresAt: null, maxClicks: '' };
+
+export const scheduleFromUrl = (url: ShortUrlDto): ScheduleInput => ({
+    activateAt: url.activateAt ? new Date(url.activateAt) : null,
+    expiresAt: url.expiresAt ? new Date(url.expiresAt) : null,
+    maxClicks: url.maxClicks === null ? '' : String(url.maxClicks),
+});
+
+const dateSchema = z
+    .date()
+    .nullable()
+    .refine((d) => d === null || !Number.isNaN(d.getTime()), 'Invalid date');
+
+/** Validates a `ScheduleInput` and converts it to the fields the API expects. */
+export const scheduleSchema = z
+    .object({
+        activateAt: dateSchema,
+        expiresAt: dateSchema,
+        maxClicks: z
+            .string()
+            .trim()
+            .regex(/^\d*$/, 'Must be a whole number')
+            .refine((v) => v === '' || Number(v) > 0, 'Must be at least 1'),
+    })
+    .refine((s) => !s.activateAt || !s.expiresAt || s.expiresAt > s.activateAt, {
+        message: 'Expiry must be after activation',
+        path: ['expiresAt'],
+    })
+    .transform((s) => ({
+        activateAt: s.activateAt?.toISOString() ?? null,
+        expiresAt: s.expiresAt?.toISOString() ?? null,
+        maxClicks: s.maxClicks ? Number(s.maxClicks) : null,
+    }));
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { aliasPolicySchema } from './aliasPolicy.ts';
+
+/** Fields of a new short URL as entered by hand or read from an import file. */
+export const createShortUrlSchema = z.object({
+    originalUrl: z
+        .string({ required_error: 'Original URL is required' })
+        .nonempty('Original URL is required')
+        .url('Must be a valid URL'),
+    tags: z.array(z.string(), {}),
+    alias: aliasPolicySchema.optional(),
+});
+
+export type CreateShortUrlForm = z.infer<typeof createShortUrlSchema>;
@@ -0,0 +1,24 @@
+import { parseCsv } from './csv.ts';
+
+export const SPREADSHEET_ACCEPT =
+    '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const cellText = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    return String(value).trim();
+};
+
+/** Reads the first sheet of a CSV or XLSX file as rows of trimmed cell text. */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+    if (/\.xlsx$/i.test(file.name)) {
+        // Loaded on demand; the parser is only needed by the import wizard.
+        const { default: readXlsxFile } = await import('read-excel-file');
+        const rows = await readXlsxFile(file);
+        return rows.map((row) => row.map(cellText)).filter((r) => r.some(Boolean));
+    }
+    if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+        return parseCsv(await file.text()).map((row) => row.map(cellText));
+    }
+    throw new Error('Only .csv and .xlsx files are supported');
+};
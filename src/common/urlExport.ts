@@ -0,0 +1,104 @@
+import { ShortUrlDto } from '../model/urls.ts';
+import { csvLine } from './csv.ts';
+import { XlsxStreamWriter } from './xlsxStream.ts';
+
+/** Columns of every short URL export, in file order. */
+export const URL_EXPORT_COLUMNS = [
+    'id',
+    'shortUrl',
+    'originalUrl',
+    'creatorName',
+    'state',
+    'type',
+    'tags',
+] as const;
+
+/** Optional column with each link's total openings. */
+export const CLICKS_COLUMN = 'clicks';
+
+export type UrlExportColumn = (typeof URL_EXPORT_COLUMNS)[number] | typeof CLICKS_COLUMN;
+
+export type UrlExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const URL_EXPORT_FORMATS: Record<
+    UrlExportFormat,
+    { label: string; extension: string; type: string }
+> = {
+    csv: { label: 'CSV', extension: 'csv', type: 'text/csv' },
+    json: { label: 'JSON', extension: 'json', type: 'application/json' },
+    xlsx: {
+        label: 'Excel (XLSX)',
+        extension: 'xlsx',
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    },
+};
+
+export const exportColumns = (withClicks: boolean): UrlExportColumn[] =>
+    withClicks ? [...URL_EXPORT_COLUMNS, CLICKS_COLUMN] : [...URL_EXPORT_COLUMNS];
+
+const cellValue = (url: ShortUrlDto, column: UrlExportColumn): string | number | null => {
+    if (column === CLICKS_COLUMN) return url.clickCount;
+    // Tags cannot contain spaces, so a space-separated list stays a single cell.
+    if (column === 'tags') return url.tags.join(' ');
+    return url[column];
+};
+
+/** Turns pages of links into the bytes of an export file, one piece at a time. */
+export interface UrlExportWriter {
+    begin(): Uint8Array[];
+    rows(urls: readonly ShortUrlDto[]): Uint8Array[];
+    end(): Uint8Array[];
+}
+
+const encoder = new TextEncoder();
+
+const csvWriter = (columns: UrlExportColumn[]): UrlExportWriter => ({
+    begin: () => [encoder.encode(csvLine(columns))],
+    rows: (urls) => [
+        encoder.encode(urls.map((u) => csvLine(columns.map((c) => cellValue(u, c)))).join('')),
+    ],
+    end: () => [],
+});
+
+const jsonWriter = (columns: UrlExportColumn[]): UrlExportWriter => {
+    let first = true;
+    const toObject = (url: ShortUrlDto) =>
+        Object.fromEntries(columns.map((c) => [c, c === 'tags' ? url.tags : cellValue(url, c)]));
+    return {
+        begin: () => [encoder.encode('[')],
+        rows: (urls) => {
+            const body = urls
+                .map((u) => {
+                    const separator = first ? '\n' : ',\n';
+                    first = false;
+                    return separator + JSON.stringify(toObject(u));
+                })
+                .join('');
+            return [encoder.encode(body)];
+        },
+        end: () => [encoder.encode('\n]\n')],
+    };
+};
+
+const xlsxWriter = (columns: UrlExportColumn[]): UrlExportWriter => {
+    const writer = new XlsxStreamWriter('Short URLs');
+    return {
+        begin: () => writer.begin(columns),
+        rows: (urls) => writer.rows(urls.map((u) => columns.map((c) => cellValue(u, c)))),
+        end: () => writer.end(),
+    };
+};
+
+export const createUrlExportWriter = (
+    format: UrlExportFormat,
+    withClicks: boolean,
+): UrlExportWriter => {
+    const columns = exportColumns(withClicks);
+    if (format === 'json') return jsonWriter(columns);
+    if (format === 'xlsx') return xlsxWriter(columns);
+    return csvWriter(columns);
+};
+
+export const urlsToCsv = (urls: readonly ShortUrlDto[]): string =>
+    csvLine(URL_EXPORT_COLUMNS) +
+    urls.map((u) => csvLine(URL_EXPORT_COLUMNS.map((c) => cellValue(u, c)))).join('');
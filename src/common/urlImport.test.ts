@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MAPPING, guessMapping, isHeaderRow, Mapping, validateRows } from './urlImport.ts';
+
+const MAPPING: Mapping = { originalUrl: 0, tags: 1, alias: 2 };
+
+const validate = (data: string[][], mapping: Mapping = MAPPING) =>
+    validateRows(
+        data,
+        data.map((_, i) => `key-${i}`),
+        mapping,
+        2,
+    );
+
+describe('isHeaderRow', () => {
+    it('recognises common column names', () => {
+        expect(isHeaderRow(['Destination', 'Notes'])).toBe(true);
+        expect(isHeaderRow([' Long URL '])).toBe(true);
+    });
+
+    it('treats a row of data as data', () => {
+        expect(isHeaderRow(['https://example.com', 'sale'])).toBe(false);
+    });
+});
+
+describe('guessMapping', () => {
+    it('maps columns by their header names in any order', () => {
+        expect(guessMapping(['Back-half', 'Notes', 'Tags', 'original_url'])).toEqual({
+            originalUrl: 3,
+            tags: 2,
+            alias: 0,
+        });
+    });
+
+    it('falls back to the first column for the URL', () => {
+        expect(guessMapping(['Tags', 'Something'])).toEqual({ ...DEFAULT_MAPPING, tags: 0 });
+    });
+});
+
+describe('validateRows', () => {
+    it('parses valid rows with their file line numbers and idempotency keys', () => {
+        const [row] = validate([['https://example.com', 'sale, spring;sale', 'spring-sale']]);
+
+        expect(row).toEqual({
+            line: 2,
+            values: {
+                originalUrl: 'https://example.com',
+                tags: 'sale, spring;sale',
+                alias: 'spring-sale',
+            },
+            parsed: {
+                originalUrl: 'https://example.com',
+                tags: ['sale', 'spring'],
+                alias: 'spring-sale',
+            },
+            error: null,
+            idempotencyKey: 'key-0',
+        });
+    });
+
+    it('reports the first problem of an invalid row with its column label', () => {
+        const [noUrl, badAlias] = validate([
+            ['', '', ''],
+            ['https://example.com', '', 'a!'],
+        ]);
+
+        expect(noUrl).toMatchObject({
+            parsed: null,
+            error: 'Original URL: Original URL is required',
+        });
+        expect(badAlias.error).toMatch(/^Alias: /);
+    });
+
+    it('rejects an alias repeated within the file, ignoring case', () => {
+        const rows = validate([
+            ['https://a.test', '', 'Promo'],
+            ['https://b.test', '', 'promo'],
+        ]);
+
+        expect(rows.map((r) => r.error)).toEqual([
+            null,
+            'Alias: Used by an earlier row of this file',
+        ]);
+    });
+
+    it('leaves unmapped fields empty and tolerates short rows', () => {
+        const [row] = validate([['https://example.com']], { originalUrl: 0, tags: null, alias: 5 });
+
+        expect(row.values).toEqual({ originalUrl: 'https://example.com', tags: '', alias: '' });
+        expect(row.parsed).toEqual({ originalUrl: 'https://example.com', tags: [] });
+    });
+});
@@ -0,0 +1,87 @@
+import { CreateShortUrlForm, createShortUrlSchema } from './shortUrlForm.ts';
+
+export type ImportField = 'originalUrl' | 'tags' | 'alias';
+
+export const FIELDS: ImportField[] = ['originalUrl', 'tags', 'alias'];
+
+export const FIELD_LABELS: Record<ImportField, string> = {
+    originalUrl: 'Original URL',
+    tags: 'Tags',
+    alias: 'Alias',
+};
+
+/** Header names recognised when guessing the column mapping. */
+const HEADER_GUESSES: Record<ImportField, RegExp> = {
+    originalUrl: /^(original[\s_-]*url|url|destination|long[\s_-]*url|link)$/i,
+    tags: /^tags?$/i,
+    alias: /^(alias|code|short[\s_-]*code|back[\s_-]*half|slug)$/i,
+};
+
+export type Mapping = Record<ImportField, number | null>;
+
+export const DEFAULT_MAPPING: Mapping = { originalUrl: 0, tags: null, alias: null };
+
+export interface ImportRow {
+    /** Line in the source file, counting the header, as users see it in their editor. */
+    line: number;
+    values: Record<ImportField, string>;
+    parsed: CreateShortUrlForm | null;
+    error: string | null;
+    idempotencyKey: string;
+}
+
+const splitTags = (text: string): string[] => [...new Set(text.split(/[\s,;]+/).filter(Boolean))];
+
+/** Whether the first row of a file names its columns rather than holding a link. */
+export const isHeaderRow = (row: string[]): boolean =>
+    row.some((h) => FIELDS.some((f) => HEADER_GUESSES[f].test(h.trim())));
+
+export const guessMapping = (header: string[]): Mapping => {
+    const find = (field: ImportField) => {
+        const index = header.findIndex((h) => HEADER_GUESSES[field].test(h.trim()));
+        return index === -1 ? null : index;
+    };
+    return { originalUrl: find('originalUrl') ?? 0, tags: find('tags'), alias: find('alias') };
+};
+
+/**
+ * Validates each data row like the create dialog does and flags aliases repeated within
+ * the file, which the server would only reject one request at a time.
+ */
+export const validateRows = (
+    data: string[][],
+    keys: string[],
+    mapping: Mapping,
+    firstLine: number,
+): ImportRow[] => {
+    const aliases = new Set<string>();
+    return data.map((cells, i) => {
+        const cell = (field: ImportField) => {
+            const index = mapping[field];
+            return index === null ? '' : (cells[index] ?? '').trim();
+        };
+        const values = {
+            originalUrl: cell('originalUrl'),
+            tags: cell('tags'),
+            alias: cell('alias'),
+        };
+        const row = { line: firstLine + i, values, idempotencyKey: keys[i] };
+
+        const parsed = createShortUrlSchema.safeParse({
+            originalUrl: values.originalUrl,
+            tags: splitTags(values.tags),
+            alias: values.alias || undefined,
+        });
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            const field = issue.path[0] as ImportField;
+            return { ...row, parsed: null, error: `${FIELD_LABELS[field]}: ${issue.message}` };
+        }
+        const alias = parsed.data.alias?.toLowerCase();
+        if (alias && aliases.has(alias)) {
+            return { ...row, parsed: null, error: 'Alias: Used by an earlier row of this file' };
+        }
+        if (alias) aliases.add(alias);
+        return { ...row, parsed: parsed.data, error: null };
+    });
+};
@@ -0,0 +1,36 @@
+export type DeviceKind = 'desktop' | 'mobile' | 'tablet';
+
+export interface DeviceDescription {
+    browser: string;
+    os: string;
+    kind: DeviceKind;
+}
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg(e|A|iOS)?\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\/|FxiOS\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+const firstMatch = (ua: string, table: [RegExp, string][]): string =>
+    table.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Unknown';
+
+/** Rough browser, OS and device class of a User-Agent string, good enough for labels. */
+export const describeUserAgent = (ua: string): DeviceDescription => {
+    let kind: DeviceKind = 'desktop';
+    if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) kind = 'tablet';
+    else if (/Mobi|iPhone|iPod/.test(ua)) kind = 'mobile';
+
+    return { browser: firstMatch(ua, BROWSERS), os: firstMatch(ua, SYSTEMS), kind };
+};
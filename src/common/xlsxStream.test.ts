@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { XlsxStreamWriter } from './xlsxStream.ts';
+
+interface ZipFile {
+    name: string;
+    crc: number;
+    content: string;
+}
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+    const bytes = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    chunks.reduce((at, c) => (bytes.set(c, at), at + c.length), 0);
+    return bytes;
+};
+
+/** Bitwise CRC-32, independent of the table-driven one under test. */
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    bytes.forEach((b) => {
+        crc ^= b;
+        for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    });
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Reads a stored (uncompressed) ZIP through its central directory, as spreadsheet apps do. */
+const readZip = (bytes: Uint8Array): ZipFile[] => {
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const count = view.getUint16(end + 10, true);
+    const decoder = new TextDecoder();
+    const files: ZipFile[] = [];
+    let at = view.getUint32(end + 16, true);
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(at, true)).toBe(0x02014b50);
+        const crc = view.getUint32(at + 16, true);
+        const size = view.getUint32(at + 20, true);
+        const nameLength = view.getUint16(at + 28, true);
+        const offset = view.getUint32(at + 42, true);
+        const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+        expect(view.getUint32(offset, true)).toBe(0x04034b50);
+        const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+        const data = bytes.subarray(dataStart, dataStart + size);
+        expect(crc32(data)).toBe(crc);
+        files.push({ name, crc, content: decoder.decode(data) });
+        at += 46 + nameLength;
+    }
+    return files;
+};
+
+const sheetXml = (writer: XlsxStreamWriter, chunks: Uint8Array[]) => {
+    const files = readZip(concat([...chunks, ...writer.end()]));
+    return files.find((f) => f.name === 'xl/worksheets/sheet1.xml')!.content;
+};
+
+describe('XlsxStreamWriter', () => {
+    it('writes a workbook package with every part listed in the directory', () => {
+        const writer = new XlsxStreamWriter('Links');
+        const chunks = [...writer.begin(['id']), ...writer.rows([[1]])];
+        const files = readZip(concat([...chunks, ...writer.end()]));
+
+        expect(files.map((f) => f.name)).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/_rels/workbook.xml.rels',
+            'xl/workbook.xml',
+            'xl/worksheets/sheet1.xml',
+        ]);
+        expect(files[3].content).toContain('<sheet name="Links" sheetId="1" r:id="rId1"/>');
+    });
+
+    it('appends rows written in several pages to one sheet', () => {
+        const writer = new XlsxStreamWriter('Links');
+        const chunks = [
+            ...writer.begin(['id', 'title']),
+            ...writer.rows([[1, 'first']]),
+            ...writer.rows([[2, 'second']]),
+        ];
+
+        expect(sheetXml(writer, chunks)).toContain(
+            '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">id</t></is></c>' +
+                '<c r="B1" t="inlineStr"><is><t xml:space="preserve">title</t></is></c></row>' +
+                '<row r="2"><c r="A2"><v>1</v></c>' +
+                '<c r="B2" t="inlineStr"><is><t xml:space="preserve">first</t></is></c></row>' +
+                '<row r="3"><c r="A3"><v>2</v></c>' +
+                '<c r="B3" t="inlineStr"><is><t xml:space="preserve">second</t></is></c></row>',
+        );
+    });
+
+    it('skips empty cells and names columns past Z like spreadsheets do', () => {
+        const writer = new XlsxStreamWriter('Links');
+        const header = Array.from({ length: 28 }, () => '');
+        header[27] = 'last';
+        const chunks = writer.begin(header);
+        const xml = sheetXml(writer, [...chunks, ...writer.rows([[null, '', 3]])]);
+
+        expect(xml).toContain('<row r="1"><c r="AB1" t="inlineStr">');
+        expect(xml).toContain('<row r="2"><c r="C2"><v>3</v></c></row>');
+    });
+
+    it('escapes markup and drops control characters XML cannot hold', () => {
+        const writer = new XlsxStreamWriter('Links');
+        const chunks = writer.begin(['<a href="x">&\u0007</a>\ttab']);
+
+        expect(sheetXml(writer, chunks)).toContain(
+            '<t xml:space="preserve">&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;\ttab</t>',
+        );
+    });
+
+    it('shortens and escapes the sheet name', () => {
+        const writer = new XlsxStreamWriter(`R&D ${'x'.repeat(40)}`);
+        const chunks = writer.begin(['id']);
+        const workbook = readZip(concat([...chunks, ...writer.end()]))[3].content;
+
+        expect(workbook).toContain(`<sheet name="R&amp;D ${'x'.repeat(27)}"`);
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * Writes a single-sheet XLSX workbook piece by piece, so exports of any size never hold
+ * more than one page of rows. The sheet is stored uncompressed in the ZIP container with
+ * data descriptors, which lets sizes and checksums be written after the data.
+ */
+
+export type XlsxCell = string | number | null;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (crc: number, bytes: Uint8Array): number => {
+    let c = crc ^ 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+};
+
+/** Little-endian record of 16- and 32-bit fields followed by raw bytes. */
+const record = (fields: [number, 2 | 4][], tail: Uint8Array = new Uint8Array()): Uint8Array => {
+    const size = fields.reduce((sum, [, width]) => sum + width, 0);
+    const bytes = new Uint8Array(size + tail.length);
+    const view = new DataView(bytes.buffer);
+    let at = 0;
+    fields.forEach(([value, width]) => {
+        if (width === 2) view.setUint16(at, value, true);
+        else view.setUint32(at, value, true);
+        at += width;
+    });
+    bytes.set(tail, size);
+    return bytes;
+};
+
+// Bit 3: sizes follow in a data descriptor; bit 11: names are UTF-8.
+const ZIP_FLAGS = 0x0808;
+
+interface ZipEntry {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+}
+
+class ZipStream {
+    private offset = 0;
+
+    private entries: ZipEntry[] = [];
+
+    private current: ZipEntry | null = null;
+
+    private readonly time: number;
+
+    private readonly date: number;
+
+    constructor(now = new Date()) {
+        this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+        this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+    }
+
+    startFile(name: string): Uint8Array {
+        const entry = { name: encoder.encode(name), crc: 0, size: 0, offset: this.offset };
+        this.current = entry;
+        return this.emit(
+            record(
+                [
+                    [0x04034b50, 4],
+                    [20, 2],
+                    [ZIP_FLAGS, 2],
+                    [0, 2],
+                    [this.time, 2],
+                    [this.date, 2],
+                    [0, 4],
+                    [0, 4],
+                    [0, 4],
+                    [entry.name.length, 2],
+                    [0, 2],
+                ],
+                entry.name,
+            ),
+        );
+    }
+
+    data(bytes: Uint8Array): Uint8Array {
+        const entry = this.current!;
+        entry.crc = crc32(entry.crc, bytes);
+        entry.size += bytes.length;
+        return this.emit(bytes);
+    }
+
+    endFile(): Uint8Array {
+        const entry = this.current!;
+        this.entries.push(entry);
+        this.current = null;
+        return this.emit(
+            record([
+                [0x08074b50, 4],
+                [entry.crc, 4],
+                [entry.size, 4],
+                [entry.size, 4],
+            ]),
+        );
+    }
+
+    file(name: string, content: string): Uint8Array[] {
+        return [this.startFile(name), this.data(encoder.encode(content)), this.endFile()];
+    }
+
+    finish(): Uint8Array[] {
+        const start = this.offset;
+        const central = this.entries.map((entry) =>
+            this.emit(
+                record(
+                    [
+                        [0x02014b50, 4],
+                        [20, 2],
+                        [20, 2],
+                        [ZIP_FLAGS, 2],
+                        [0, 2],
+                        [this.time, 2],
+                        [this.date, 2],
+                        [entry.crc, 4],
+                        [entry.size, 4],
+                        [entry.size, 4],
+                        [entry.name.length, 2],
+                        [0, 2],
+                        [0, 2],
+                        [0, 2],
+                        [0, 2],
+                        [0, 4],
+                        [entry.offset, 4],
+                    ],
+                    entry.name,
+                ),
+            ),
+        );
+        const end = record([
+            [0x06054b50, 4],
+            [0, 2],
+            [0, 2],
+            [this.entries.length, 2],
+            [this.entries.length, 2],
+            [this.offset - start, 4],
+            [start, 4],
+            [0, 2],
+        ]);
+        return [...central, end];
+    }
+
+    private emit(bytes: Uint8Array): Uint8Array {
+        this.offset += bytes.length;
+        return bytes;
+    }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const STATIC_PARTS: [string, string][] = [
+    [
+        '[Content_Types].xml',
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '</Types>',
+    ],
+    [
+        '_rels/.rels',
+        `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+            '</Relationships>',
+    ],
+    [
+        'xl/_rels/workbook.xml.rels',
+        `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+            '</Relationships>',
+    ],
+];
+
+const escapeXml = (text: string): string =>
+    text
+        // Control characters other than tab and line breaks are not allowed in XML 1.0.
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+};
+
+export class XlsxStreamWriter {
+    private readonly zip = new ZipStream();
+
+    private rowCount = 0;
+
+    constructor(private readonly sheetName: string) {}
+
+    /** Package parts and the start of the sheet, with `header` as its first row. */
+    begin(header: readonly string[]): Uint8Array[] {
+        const workbook =
+            `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>` +
+            `<sheet name="${escapeXml(this.sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/>` +
+            '</sheets></workbook>';
+        return [
+            ...STATIC_PARTS.flatMap(([name, content]) => this.zip.file(name, content)),
+            ...this.zip.file('xl/workbook.xml', workbook),
+            this.zip.startFile('xl/worksheets/sheet1.xml'),
+            this.zip.data(
+                encoder.encode(`${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><sheetData>`),
+            ),
+            ...this.rows([header]),
+        ];
+    }
+
+    rows(rows: readonly (readonly XlsxCell[])[]): Uint8Array[] {
+        const xml = rows
+            .map((cells) => {
+                const r = ++this.rowCount;
+                const body = cells
+                    .map((value, i) => {
+                        const ref = `${columnName(i)}${r}`;
+                        if (value === null || value === '') return '';
+                        if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+                        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+                    })
+                    .join('');
+                return `<row r="${r}">${body}</row>`;
+            })
+            .join('');
+        return [this.zip.data(encoder.encode(xml))];
+    }
+
+    /** Closes the sheet and writes the ZIP directory; nothing can follow. */
+    end(): Uint8Array[] {
+        return [
+            this.zip.data(encoder.encode('</sheetData></worksheet>')),
+            this.zip.endFile(),
+            ...this.zip.finish(),
+        ];
+    }
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import {
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    List,
+    ListItem,
+    ListItemIcon,
+    ListItemText,
+    Stack,
+    Typography,
+} from '@mui/material';
+import ComputerIcon from '@mui/icons-material/Computer';
+import PhoneIphoneIcon from '@mui/icons-material/PhoneIphone';
+import TabletIcon from '@mui/icons-material/Tablet';
+import { formatDistanceToNow } from 'date-fns';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
+import { DeviceKind, describeUserAgent } from '../common/userAgent.ts';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
+import { UserSessionDto } from '../model/users.ts';
+import { useAppToast } from './toast.tsx';
+
+const DEVICE_ICONS: Record<DeviceKind, typeof ComputerIcon> = {
+    desktop: ComputerIcon,
+    mobile: PhoneIphoneIcon,
+    tablet: TabletIcon,
+};
+
+/** Devices signed in to the account, with sign-out per device or for all but this one. */
+export default function ActiveSessions() {
+    const { data: sessions, loading } = useApiQuery(queryKeys.userSessions(), (signal) =>
+        ApiClient.getSessions({ signal }),
+    );
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const { success, apiError } = useAppToast();
+
+    const others = (sessions ?? []).filter((s) => !s.current);
+
+    const handleRevoke = async (session: UserSessionDto) => {
+        setBusyId(session.id);
+        const res = await ApiClient.revokeSession(session.id);
+        setBusyId(null);
+        if (isErr(res)) {
+            apiError('Could not sign out the session', res);
+            return;
+        }
+        success('Session was signed out');
+    };
+
+    const handleRevokeOthers = async () => {
+        setBusyId('others');
+        const res = await ApiClient.revokeOtherSessions();
+        setBusyId(null);
+        if (isErr(res)) {
+            apiError('Could not sign out other sessions', res);
+            return;
+        }
+        success('Signed out everywhere else');
+    };
+
+    return (
+        <Stack spacing={2}>
+            <Stack direction="row" spacing={2} alignItems="center" justifyContent="space-between">
+                <Typography variant="h6">Active sessions</Typography>
+                <Button
+                    variant="outlined"
+                    color="error"
+                    onClick={handleRevokeOthers}
+                    disabled={!others.length || busyId !== null}
+                >
+                    Sign Out Everywhere Else
+                </Button>
+            </Stack>
+            <Typography variant="body2" color="text.secondary">
+                Devices that are signed in to your account. Sign out any you don’t recognise.
+            </Typography>
+
+            {loading ? (
+                <Box sx={{ textAlign: 'center', py: 2 }}>
+                    <CircularProgress size={28} />
+                </Box>
+            ) : (
+                <List disablePadding>
+                    {(sessions ?? []).map((session) => {
+                        const device = describeUserAgent(session.userAgent);
+                        const Icon = DEVICE_ICONS[device.kind];
+                        return (
+                            <ListItem
+                                key={session.id}
+                                divider
+                                secondaryAction={
+                                    session.current ? (
+                                        <Chip
+                                            label="This device"
+                                            color="primary"
+                                            size="small"
+                                            variant="outlined"
+                                        />
+                                    ) : (
+                                        <Button
+                                            size="small"
+                                            onClick={() => handleRevoke(session)}
+                                            disabled={busyId !== null}
+                                        >
+                                            Sign Out
+                                        </Button>
+                                    )
+                                }
+                            >
+                                <ListItemIcon>
+                                    <Icon />
+                                </ListItemIcon>
+                                <ListItemText
+                                    primary={`${device.browser} on ${device.os}`}
+                                    secondary={
+                                        <>
+                                            {[session.location, session.ipAddress]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                            <br />
+                                            {session.current
+                                                ? 'Active now'
+                                                : `Last seen ${formatDistanceToNow(
+                                                      new Date(session.lastSeenAt),
+                                                      { addSuffix: true },
+                                                  )}`}
+                                        </>
+                                    }
+                                />
+                            </ListItem>
+                        );
+                    })}
+                </List>
+            )}
+        </Stack>
+    );
+}
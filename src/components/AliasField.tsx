@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { CircularProgress, InputAdornment, TextField } from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import ErrorIcon from '@mui/icons-material/Error';
+import { ApiClient } from '../common/api.ts';
+import { aliasPolicySchema } from '../common/aliasPolicy.ts';
+import { isErr } from '../common/result.ts';
+import { useDebouncedValue } from '../hooks/useDebouncedValue.ts';
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
+
+export type AliasStatus =
+    | { kind: 'empty' }
+    | { kind: 'invalid'; message: string }
+    | { kind: 'checking' }
+    | { kind: 'available'; shortUrl: string }
+    | { kind: 'taken' }
+    | { kind: 'unknown' };
+
+export interface AliasFieldProps {
+    slug: string;
+    value: string;
+    onChange: (value: string) => void;
+    onStatusChange: (status: AliasStatus) => void;
+    /** Error reported by the server on submit, shown in place of the live check. */
+    error?: string;
+}
+
+/** Optional custom back-half with live availability check and a preview of the final link. */
+export default function AliasField({
+    slug,
+    value,
+    onChange,
+    onStatusChange,
+    error,
+}: AliasFieldProps) {
+    const [status, setStatus] = useState<AliasStatus>({ kind: 'empty' });
+    const alias = useDebouncedValue(value.trim(), 400);
+    const runLatest = useLatestRequest();
+
+    const onStatusChangeRef = useRef(onStatusChange);
+    onStatusChangeRef.current = onStatusChange;
+
+    useEffect(() => {
+        const update = (next: AliasStatus) => {
+            setStatus(next);
+            onStatusChangeRef.current(next);
+        };
+
+        // Starting a no-op cancels a check still in flight for an older value.
+        if (!alias) {
+            runLatest(async () => null);
+            update({ kind: 'empty' });
+            return;
+        }
+        const parsed = aliasPolicySchema.safeParse(alias);
+        if (!parsed.success) {
+            runLatest(async () => null);
+            update({ kind: 'invalid', message: parsed.error.issues[0].message });
+            return;
+        }
+        update({ kind: 'checking' });
+        runLatest((signal) => ApiClient.checkAliasAvailability(slug, alias, { signal })).then(
+            (res) => {
+                if (!res) return;
+                if (isErr(res)) update({ kind: 'unknown' });
+                else if (res.value.available) {
+                    update({ kind: 'available', shortUrl: res.value.shortUrl });
+                } else update({ kind: 'taken' });
+            },
+        );
+    }, [alias, slug, runLatest]);
+
+    // Typing again makes the last result stale until the debounced check catches up.
+    const pending = value.trim() !== alias;
+
+    let helperText = 'Optional. Leave empty to get a random code.';
+    if (error) helperText = error;
+    else if (pending || status.kind === 'checking') helperText = 'Checking availability…';
+    else if (status.kind === 'invalid') helperText = status.message;
+    else if (status.kind === 'taken') helperText = 'This alias is already taken';
+    else if (status.kind === 'available') helperText = `Your link will be ${status.shortUrl}`;
+    else if (status.kind === 'unknown') helperText = 'Could not check availability right now';
+
+    const invalid = !!error || (!pending && (status.kind === 'invalid' || status.kind === 'taken'));
+
+    let adornment = null;
+    if (pending || status.kind === 'checking') adornment = <CircularProgress size={18} />;
+    else if (status.kind === 'available') adornment = <CheckCircleIcon color="success" />;
+    else if (invalid) adornment = <ErrorIcon color="error" />;
+
+    return (
+        <TextField
+            variant="outlined"
+            label="Custom alias"
+            placeholder="spring-sale"
+            fullWidth
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            error={invalid}
+            helperText={helperText}
+            InputProps={{
+                endAdornment: adornment && (
+                    <InputAdornment position="end">{adornment}</InputAdornment>
+                ),
+            }}
+        />
+    );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Box, IconButton, Stack, Tab, Tabs, Tooltip, Typography } from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import config from '../config/config.ts';
+import { useAppToast } from './toast.tsx';
+
+type Language = 'curl' | 'javascript' | 'python';
+
+const LANGUAGES: { value: Language; label: string }[] = [
+    { value: 'curl', label: 'cURL' },
+    { value: 'javascript', label: 'JavaScript' },
+    { value: 'python', label: 'Python' },
+];
+
+// Same endpoints ApiClient calls; the token goes into the Authorization header as-is.
+const snippet = (language: Language, slug: string): string => {
+    const urls = `${config.apiBase}/user/organizations/${slug}/urls`;
+    switch (language) {
+        case 'curl':
+            return `# Create a short link
+curl -X POST "${urls}" \\
+  -H "Authorization: $SHORTENER_TOKEN" \\
+  -H "Content-Type: application/json" \\
+  -d '{"originalUrl": "https://example.com/release-notes", "tags": ["ci"]}'
+
+# List links tagged "ci"
+curl "${urls}?tags=ci&sb=id&dir=desc" \\
+  -H "Authorization: $SHORTENER_TOKEN"
+
+# Click totals of one link
+curl "${urls}/$URL_ID/stats/global" \\
+  -H "Authorization: $SHORTENER_TOKEN"`;
+        case 'javascript':
+            return `const BASE = '${urls}';
+const headers = {
+    Authorization: process.env.SHORTENER_TOKEN,
+    'Content-Type': 'application/json',
+};
+
+// Create a short link
+await fetch(BASE, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ originalUrl: 'https://example.com/release-notes', tags: ['ci'] }),
+});
+
+// List links tagged "ci"
+const res = await fetch(\`\${BASE}?tags=ci&sb=id&dir=desc\`, { headers });
+const { payload } = await res.json();
+console.log(payload.entries.map((u) => u.shortUrl));`;
+        default:
+            return `import os
+import requests
+
+BASE = "${urls}"
+headers = {"Authorization": os.environ["SHORTENER_TOKEN"]}
+
+# Create a short link
+requests.post(
+    BASE,
+    headers=headers,
+    json={"originalUrl": "https://example.com/release-notes", "tags": ["ci"]},
+).raise_for_status()
+
+# List links tagged "ci"
+res = requests.get(BASE, headers=headers, params={"tags": "ci", "sb": "id", "dir": "desc"})
+print([u["shortUrl"] for u in res.json()["payload"]["entries"]])`;
+    }
+};
+
+export interface ApiTokenSnippetsProps {
+    organizationSlug: string;
+}
+
+/** Copy-ready examples of calling the API with a personal token kept in `SHORTENER_TOKEN`. */
+export default function ApiTokenSnippets({ organizationSlug }: ApiTokenSnippetsProps) {
+    const [language, setLanguage] = useState<Language>('curl');
+    const { success } = useAppToast();
+
+    const code = snippet(language, organizationSlug);
+
+    return (
+        <Stack spacing={1}>
+            <Tabs value={language} onChange={(_, v: Language) => setLanguage(v)}>
+                {LANGUAGES.map((l) => (
+                    <Tab key={l.value} value={l.value} label={l.label} />
+                ))}
+            </Tabs>
+            <Box sx={{ position: 'relative' }}>
+                <Box
+                    component="pre"
+                    sx={{
+                        m: 0,
+                        p: 2,
+                        pr: 6,
+                        borderRadius: 1,
+                        bgcolor: 'action.hover',
+                        fontFamily: 'monospace',
+                        fontSize: 13,
+                        overflowX: 'auto',
+                    }}
+                >
+                    {code}
+                </Box>
+                <Tooltip title="Copy">
+                    <IconButton
+                        size="small"
+                        sx={{ position: 'absolute', top: 8, right: 8 }}
+                        onClick={() => {
+                            navigator.clipboard.writeText(code);
+                            success('Snippet copied');
+                        }}
+                    >
+                        <ContentCopyIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+                Export the token as <code>SHORTENER_TOKEN</code> before running the examples.
+            </Typography>
+        </Stack>
+    );
+}
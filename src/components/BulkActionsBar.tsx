@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Box, Button, Menu, MenuItem, Typography } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { ShortUrlState } from '../model/urls.ts';
+import { BulkTagsMode } from './BulkTagsDialog.tsx';
+
+export interface BulkActionsBarProps {
+    count: number;
+    stateLabels: Record<ShortUrlState, string>;
+    canChangeState: boolean;
+    canEditTags: boolean;
+    disabled?: boolean;
+    onChangeState: (state: ShortUrlState) => void;
+    onTags: (mode: BulkTagsMode) => void;
+    onExport: () => void;
+    onClear: () => void;
+}
+
+/** Actions applied to every selected link in the URL table. */
+export default function BulkActionsBar({
+    count,
+    stateLabels,
+    canChangeState,
+    canEditTags,
+    disabled = false,
+    onChangeState,
+    onTags,
+    onExport,
+    onClear,
+}: BulkActionsBarProps) {
+    const [stateAnchor, setStateAnchor] = useState<HTMLElement | null>(null);
+
+    return (
+        <Box
+            sx={{
+                display: 'flex',
+                alignItems: 'center',
+                flexWrap: 'wrap',
+                gap: 1,
+                mb: 2,
+                px: 2,
+                py: 1,
+                borderRadius: 1,
+                bgcolor: 'action.selected',
+            }}
+        >
+            <Typography variant="subtitle2" sx={{ mr: 1 }}>
+                {count} selected
+            </Typography>
+            {canChangeState && (
+                <Button
+                    size="small"
+                    endIcon={<ExpandMoreIcon />}
+                    onClick={(e) => setStateAnchor(e.currentTarget)}
+                    disabled={disabled}
+                >
+                    Change state
+                </Button>
+            )}
+            {canEditTags && (
+                <>
+                    <Button size="small" onClick={() => onTags('add')} disabled={disabled}>
+                        Add tags
+                    </Button>
+                    <Button size="small" onClick={() => onTags('remove')} disabled={disabled}>
+                        Remove tags
+                    </Button>
+                </>
+            )}
+            <Button size="small" onClick={onExport}>
+                Export CSV
+            </Button>
+            <Button size="small" color="inherit" onClick={onClear} sx={{ ml: 'auto' }}>
+                Clear selection
+            </Button>
+
+            <Menu
+                anchorEl={stateAnchor}
+                open={Boolean(stateAnchor)}
+                onClose={() => setStateAnchor(null)}
+            >
+                {(Object.keys(stateLabels) as ShortUrlState[]).map((st) => (
+                    <MenuItem
+                        key={st}
+                        onClick={() => {
+                            setStateAnchor(null);
+                            onChangeState(st);
+                        }}
+                    >
+                        {stateLabels[st]}
+                    </MenuItem>
+                ))}
+            </Menu>
+        </Box>
+    );
+}
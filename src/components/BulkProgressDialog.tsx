@@ -0,0 +1,83 @@
+import {
+    Alert,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    LinearProgress,
+    List,
+    ListItem,
+    ListItemText,
+    Typography,
+} from '@mui/material';
+
+export interface BulkFailure {
+    id: number;
+    label: string;
+    reason: string;
+}
+
+export interface BulkProgress {
+    title: string;
+    total: number;
+    done: number;
+    failures: BulkFailure[];
+    running: boolean;
+}
+
+export interface BulkProgressDialogProps {
+    progress: BulkProgress | null;
+    onClose: () => void;
+}
+
+/** Progress of a bulk action over many links, then the list of links it failed for. */
+export default function BulkProgressDialog({ progress, onClose }: BulkProgressDialogProps) {
+    const percent = progress && progress.total ? (progress.done / progress.total) * 100 : 0;
+    const failures = progress?.failures ?? [];
+
+    return (
+        <Dialog
+            open={!!progress}
+            onClose={progress?.running ? undefined : onClose}
+            fullWidth
+            maxWidth="sm"
+        >
+            <DialogTitle>{progress?.title}</DialogTitle>
+            <DialogContent>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <LinearProgress variant="determinate" value={percent} sx={{ flexGrow: 1 }} />
+                    <Typography variant="body2" color="text.secondary">
+                        {progress?.done ?? 0} / {progress?.total ?? 0}
+                    </Typography>
+                </Box>
+                {progress && !progress.running && !failures.length && (
+                    <Alert severity="success">All {progress.total} links were updated.</Alert>
+                )}
+                {!!failures.length && (
+                    <>
+                        <Alert severity="warning" sx={{ mb: 1 }}>
+                            {failures.length} of {progress?.total} links could not be updated.
+                        </Alert>
+                        <List dense sx={{ maxHeight: 280, overflow: 'auto' }}>
+                            {failures.map((f) => (
+                                <ListItem key={f.id} disableGutters>
+                                    <ListItemText
+                                        primary={`#${f.id} ${f.label}`}
+                                        secondary={f.reason}
+                                    />
+                                </ListItem>
+                            ))}
+                        </List>
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ px: 3, py: 2 }}>
+                <Button onClick={onClose} disabled={progress?.running}>
+                    Close
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
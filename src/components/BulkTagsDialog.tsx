@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import {
+    Autocomplete,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    TextField,
+} from '@mui/material';
+
+export type BulkTagsMode = 'add' | 'remove';
+
+export interface BulkTagsDialogProps {
+    /** Whether tags are added or removed; the dialog is open while this is set. */
+    mode: BulkTagsMode | null;
+    count: number;
+    allTags: string[];
+    onClose: () => void;
+    onSubmit: (tags: string[]) => void;
+}
+
+/** Picks the tags to add to or remove from every selected link. */
+export default function BulkTagsDialog({
+    mode,
+    count,
+    allTags,
+    onClose,
+    onSubmit,
+}: BulkTagsDialogProps) {
+    const [tags, setTags] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (mode) setTags([]);
+    }, [mode]);
+
+    return (
+        <Dialog open={!!mode} onClose={onClose} fullWidth maxWidth="xs">
+            <DialogTitle>
+                {mode === 'remove' ? 'Remove tags from' : 'Add tags to'} {count} links
+            </DialogTitle>
+            <DialogContent>
+                <Autocomplete
+                    multiple
+                    freeSolo={mode === 'add'}
+                    options={allTags}
+                    value={tags}
+                    onChange={(_, v) =>
+                        setTags(
+                            [...new Set(v.map((t) => t.trim().replace(/\s+/g, '-')))].filter(
+                                Boolean,
+                            ),
+                        )
+                    }
+                    renderTags={(value, getTagProps) =>
+                        value.map((tag, index) => {
+                            const { key, ...tagProps } = getTagProps({ index });
+                            return <Chip key={key} label={tag} size="small" {...tagProps} />;
+                        })
+                    }
+                    renderInput={(params) => <TextField {...params} label="Tags" sx={{ mt: 1 }} />}
+                />
+            </DialogContent>
+            <DialogActions sx={{ px: 3, py: 2 }}>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button variant="contained" onClick={() => onSubmit(tags)} disabled={!tags.length}>
+                    {mode === 'remove' ? 'Remove' : 'Add'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
@@ -0,0 +1,123 @@
+import { useState, ChangeEvent } from 'react';
+import { z } from 'zod';
+import { Box, Button, Stack, TextField, Typography } from '@mui/material';
+import { ApiClient } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { passwordPolicySchema } from '../common/passwordPolicy.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import { useAppToast } from './toast.tsx';
+
+type PasswordFields = {
+    currentPassword: string;
+    newPassword: string;
+    confirmPassword: string;
+};
+
+const EMPTY_FORM: PasswordFields = {
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+};
+
+const changePasswordFormSchema = z
+    .object({
+        currentPassword: z.string().nonempty('Current password is required'),
+        newPassword: passwordPolicySchema,
+        confirmPassword: z.string().nonempty('Please confirm your password'),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    })
+    .refine((data) => data.newPassword !== data.currentPassword, {
+        message: 'New password must differ from the current one',
+        path: ['newPassword'],
+    });
+
+export default function ChangePasswordForm() {
+    const [form, setForm] = useState<PasswordFields>(EMPTY_FORM);
+    const [errors, setErrors] = useState<Partial<PasswordFields>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { success, apiError } = useAppToast();
+
+    const handleChange = (field: keyof PasswordFields) => (e: ChangeEvent<HTMLInputElement>) => {
+        setForm((prev) => ({ ...prev, [field]: e.target.value }));
+        setErrors((prev) => ({ ...prev, [field]: undefined }));
+    };
+
+    const handleSubmit = async () => {
+        const result = changePasswordFormSchema.safeParse(form);
+        if (!result.success) {
+            const fieldErrors: Partial<PasswordFields> = {};
+            result.error.errors.forEach((err) => {
+                const key = err.path[0] as keyof PasswordFields;
+                fieldErrors[key] ??= err.message;
+            });
+            setErrors(fieldErrors);
+            return;
+        }
+
+        setIsSubmitting(true);
+        const res = await ApiClient.changePassword({
+            currentPassword: form.currentPassword,
+            newPassword: form.newPassword,
+        });
+        setIsSubmitting(false);
+
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.LOGIN_FAILED)) {
+                setErrors({ currentPassword: 'Current password is wrong' });
+            } else if (hasErrorType(res, ServiceErrorType.PASSWORD_IS_NOT_COMPLIANT)) {
+                setErrors({ newPassword: res.errors[0]?.errorMessage ?? 'Password is too weak' });
+            } else {
+                apiError('Could not change password', res);
+            }
+            return;
+        }
+
+        setForm(EMPTY_FORM);
+        success('Password was changed');
+    };
+
+    return (
+        <Stack spacing={2} sx={{ maxWidth: 600 }}>
+            <Typography variant="h6">Change password</Typography>
+            <TextField
+                label="Current Password"
+                type="password"
+                autoComplete="current-password"
+                value={form.currentPassword}
+                onChange={handleChange('currentPassword')}
+                error={!!errors.currentPassword}
+                helperText={errors.currentPassword}
+                fullWidth
+            />
+            <TextField
+                label="New Password"
+                type="password"
+                autoComplete="new-password"
+                value={form.newPassword}
+                onChange={handleChange('newPassword')}
+                error={!!errors.newPassword}
+                helperText={errors.newPassword}
+                fullWidth
+            />
+            <TextField
+                label="Confirm New Password"
+                type="password"
+                autoComplete="new-password"
+                value={form.confirmPassword}
+                onChange={handleChange('confirmPassword')}
+                error={!!errors.confirmPassword}
+                helperText={errors.confirmPassword}
+                fullWidth
+            />
+            <Box>
+                <Button variant="contained" onClick={handleSubmit} disabled={isSubmitting}>
+                    {isSubmitting ? 'Saving…' : 'Change Password'}
+                </Button>
+            </Box>
+        </Stack>
+    );
+}
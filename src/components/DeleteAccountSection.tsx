@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Link,
+    List,
+    ListItem,
+    ListItemText,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { orgPath } from '../common/paths.ts';
+import { getAccessToken } from '../auth/auth.ts';
+import { SessionManager } from '../auth/session.ts';
+import { MemberRole } from '../model/auth.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import { OrganizationType } from '../model/organizations.ts';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
+import { useAppToast } from './toast.tsx';
+
+const ORGANIZATIONS_QUERY = { q: 10000 };
+
+export interface DeleteAccountSectionProps {
+    email: string;
+}
+
+/**
+ * Account deletion. Organizations the user owns would be left without an owner, so deletion is
+ * blocked until each of them is handed over or deleted; the personal one goes with the account.
+ */
+export default function DeleteAccountSection({ email }: DeleteAccountSectionProps) {
+    const [open, setOpen] = useState(false);
+    const [confirmation, setConfirmation] = useState('');
+    const [password, setPassword] = useState('');
+    const [passwordError, setPasswordError] = useState<string | undefined>();
+    const [deleting, setDeleting] = useState(false);
+
+    const { apiError } = useAppToast();
+
+    const { data: orgsList } = useApiQuery(
+        queryKeys.userOrganizations(ORGANIZATIONS_QUERY),
+        (signal) => ApiClient.getUserOrganizations(ORGANIZATIONS_QUERY, { signal }),
+    );
+    const ownedSlugs = new Set(
+        (getAccessToken()?.organizations ?? [])
+            .filter((o) => o.roles.includes(MemberRole.ORGANIZATION_OWNER))
+            .map((o) => o.slug),
+    );
+    const blocking = (orgsList?.entries ?? []).filter(
+        (o) => ownedSlugs.has(o.slug) && o.type !== OrganizationType.PERMANENT,
+    );
+
+    const handleClose = () => {
+        setOpen(false);
+        setConfirmation('');
+        setPassword('');
+        setPasswordError(undefined);
+    };
+
+    const handleDelete = async () => {
+        setDeleting(true);
+        const res = await ApiClient.deleteAccount({ password });
+        setDeleting(false);
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.LOGIN_FAILED)) {
+                setPasswordError('Password is wrong');
+            } else {
+                apiError('Could not delete account', res);
+            }
+            return;
+        }
+        SessionManager.logout();
+    };
+
+    return (
+        <Stack spacing={2}>
+            <Typography variant="h6" color="error">
+                Delete account
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+                Permanently removes your account, your personal organization and its short URLs.
+            </Typography>
+
+            {blocking.length > 0 && (
+                <Alert severity="warning">
+                    You own these organizations. Transfer ownership or delete them before deleting
+                    your account:
+                    <List dense disablePadding>
+                        {blocking.map((org) => (
+                            <ListItem key={org.slug} disableGutters>
+                                <ListItemText
+                                    primary={
+                                        <Link
+                                            component={RouterLink}
+                                            to={orgPath(org.slug, '/organization')}
+                                            underline="hover"
+                                        >
+                                            {org.name}
+                                        </Link>
+                                    }
+                                    secondary={`${org.membersCount} members`}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                </Alert>
+            )}
+
+            <Box>
+                <Button
+                    variant="outlined"
+                    color="error"
+                    disabled={!orgsList || blocking.length > 0}
+                    onClick={() => setOpen(true)}
+                >
+                    Delete My Account
+                </Button>
+            </Box>
+
+            <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+                <DialogTitle>Delete your account?</DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        This cannot be undone. Type <strong>{email}</strong> to confirm.
+                    </DialogContentText>
+                    <Stack spacing={2}>
+                        <TextField
+                            label="Email"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            fullWidth
+                        />
+                        <TextField
+                            label="Password"
+                            type="password"
+                            autoComplete="current-password"
+                            value={password}
+                            onChange={(e) => {
+                                setPassword(e.target.value);
+                                setPasswordError(undefined);
+                            }}
+                            error={!!passwordError}
+                            helperText={passwordError}
+                            fullWidth
+                        />
+                    </Stack>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={handleClose} disabled={deleting}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="error"
+                        onClick={handleDelete}
+                        disabled={deleting || confirmation.trim() !== email || !password}
+                    >
+                        Delete Account
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Stack>
+    );
+}
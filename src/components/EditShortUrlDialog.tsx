@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import {
+    Autocomplete,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    TextField,
+} from '@mui/material';
+import { z } from 'zod';
+import { ApiClient } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
+import {
+    EMPTY_SCHEDULE,
+    ScheduleErrors,
+    ScheduleInput,
+    scheduleFromUrl,
+    scheduleSchema,
+} from '../common/schedule.ts';
+import { ShortUrlDto, ShortUrlState } from '../model/urls.ts';
+import { useAppToast } from './toast.tsx';
+import ScheduleFields from './ScheduleFields.tsx';
+
+const TITLE_MAX_LENGTH = 100;
+
+const editShortUrlSchema = z.object({
+    title: z.string().max(TITLE_MAX_LENGTH, `Title must be at most ${TITLE_MAX_LENGTH} characters`),
+    originalUrl: z.string().nonempty('Original URL is required').url('Must be a valid URL'),
+    tags: z.array(z.string()),
+});
+
+type EditErrors = Partial<Record<keyof z.infer<typeof editShortUrlSchema>, string>> &
+    ScheduleErrors;
+
+export interface EditShortUrlDialogProps {
+    slug: string;
+    /** The link being edited; the dialog is open while this is set. */
+    url: ShortUrlDto | null;
+    allTags: string[];
+    onClose: () => void;
+    onSaved: (url: ShortUrlDto) => void;
+}
+
+/**
+ * Edits the destination, tags, title and schedule of an existing link. Re-pointing an active link
+ * takes effect for every visitor at once, so that case asks for confirmation first.
+ */
+export default function EditShortUrlDialog({
+    slug,
+    url,
+    allTags,
+    onClose,
+    onSaved,
+}: EditShortUrlDialogProps) {
+    const [title, setTitle] = useState('');
+    const [originalUrl, setOriginalUrl] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+    const [schedule, setSchedule] = useState<ScheduleInput>(EMPTY_SCHEDULE);
+    const [errors, setErrors] = useState<EditErrors>({});
+    const [confirming, setConfirming] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const { success, apiError } = useAppToast();
+
+    useEffect(() => {
+        if (!url) return;
+        setTitle(url.title ?? '');
+        setOriginalUrl(url.originalUrl);
+        setTags(url.tags);
+        setSchedule(scheduleFromUrl(url));
+        setErrors({});
+        setConfirming(false);
+    }, [url]);
+
+    const save = async () => {
+        const parsedSchedule = scheduleSchema.safeParse(schedule);
+        if (!url || !parsedSchedule.success) return;
+        setSaving(true);
+        const res = await ApiClient.updateShortUrl(slug, url.id, {
+            originalUrl: originalUrl.trim(),
+            tags,
+            title: title.trim() || null,
+            ...parsedSchedule.data,
+        });
+        setSaving(false);
+        setConfirming(false);
+        if (isErr(res)) {
+            apiError('Could not update the short URL', res);
+            return;
+        }
+        success('Short URL was successfully updated');
+        onSaved(res.value);
+    };
+
+    const handleSubmit = () => {
+        if (!url) return;
+        const parsed = editShortUrlSchema.safeParse({
+            title,
+            originalUrl: originalUrl.trim(),
+            tags,
+        });
+        const parsedSchedule = scheduleSchema.safeParse(schedule);
+        if (!parsed.success || !parsedSchedule.success) {
+            const errs = parsed.success ? {} : parsed.error.flatten().fieldErrors;
+            const scheduleErrs = parsedSchedule.success
+                ? {}
+                : parsedSchedule.error.flatten().fieldErrors;
+            setErrors({
+                title: errs.title?.[0],
+                originalUrl: errs.originalUrl?.[0],
+                tags: errs.tags?.[0],
+                activateAt: scheduleErrs.activateAt?.[0],
+                expiresAt: scheduleErrs.expiresAt?.[0],
+                maxClicks: scheduleErrs.maxClicks?.[0],
+            });
+            return;
+        }
+        setErrors({});
+        if (url.state === ShortUrlState.ACTIVE && parsed.data.originalUrl !== url.originalUrl) {
+            setConfirming(true);
+            return;
+        }
+        save();
+    };
+
+    return (
+        <>
+            <Dialog open={!!url} onClose={onClose} fullWidth maxWidth="sm">
+                <DialogTitle sx={{ px: 4, pt: 3 }}>Edit Short URL</DialogTitle>
+                <DialogContent
+                    sx={{ px: 4, py: 2, display: 'flex', flexDirection: 'column', gap: 3 }}
+                >
+                    <TextField
+                        label="Title (Optional)"
+                        fullWidth
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        error={!!errors.title}
+                        helperText={errors.title}
+                        sx={{ mt: 1 }}
+                    />
+                    <TextField
+                        label="Original URL"
+                        fullWidth
+                        value={originalUrl}
+                        onChange={(e) => setOriginalUrl(e.target.value)}
+                        error={!!errors.originalUrl}
+                        helperText={errors.originalUrl ?? url?.shortUrl}
+                    />
+                    <Autocomplete
+                        multiple
+                        freeSolo
+                        options={allTags}
+                        value={tags}
+                        onChange={(_, v) =>
+                            setTags([...new Set(v.map((t) => t.trim()))].filter(Boolean))
+                        }
+                        renderTags={(value, getTagProps) =>
+                            value.map((tag, index) => {
+                                const { key, ...tagProps } = getTagProps({ index });
+                                return <Chip key={key} label={tag} size="small" {...tagProps} />;
+                            })
+                        }
+                        renderInput={(params) => (
+                            <TextField
+                                {...params}
+                                label="Tags"
+                                error={!!errors.tags}
+                                helperText={errors.tags ?? 'Press Enter to add a tag'}
+                            />
+                        )}
+                    />
+                    <ScheduleFields
+                        value={schedule}
+                        onChange={setSchedule}
+                        errors={errors}
+                        activateDisabled={url?.state !== ShortUrlState.PENDING}
+                    />
+                </DialogContent>
+                <DialogActions sx={{ px: 4, pb: 3, gap: 2 }}>
+                    <Button onClick={onClose} disabled={saving} sx={{ py: 1, px: 3 }}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="contained"
+                        onClick={handleSubmit}
+                        disabled={saving}
+                        sx={{ py: 1, px: 3 }}
+                    >
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={confirming} onClose={() => setConfirming(false)} maxWidth="xs">
+                <DialogTitle>Change destination?</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        <strong>{url?.shortUrl}</strong> is active. Everyone who opens it, including
+                        links already shared or printed, will be sent to{' '}
+                        <strong>{originalUrl.trim()}</strong> from now on.
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setConfirming(false)} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button variant="contained" color="warning" onClick={save} disabled={saving}>
+                        Change destination
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </>
+    );
+}
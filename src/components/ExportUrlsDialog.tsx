@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    LinearProgress,
+    Typography,
+} from '@mui/material';
+import { format as formatDate } from 'date-fns';
+import { ApiClient } from '../common/api.ts';
+import { openDownloadSink } from '../common/download.ts';
+import { ApiFailure, errorMessages, isErr } from '../common/result.ts';
+import { createUrlExportWriter, URL_EXPORT_FORMATS, UrlExportFormat } from '../common/urlExport.ts';
+import { ShortUrlsSearchParams } from '../model/urls.ts';
+import { useAppToast } from './toast.tsx';
+
+const EXPORT_PAGE_SIZE = 500;
+
+export interface ExportUrlsDialogProps {
+    slug: string;
+    /** The chosen file format; the dialog is open while this is set. */
+    format: UrlExportFormat | null;
+    /** Filters and sort of the list; paging is done by the export. */
+    params: Omit<ShortUrlsSearchParams, 'p' | 'q'>;
+    canIncludeClicks: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Exports every link matching the list filters. Pages are fetched one after another and
+ * written to the file as they arrive, so memory use does not grow with the export size.
+ */
+export default function ExportUrlsDialog({
+    slug,
+    format,
+    params,
+    canIncludeClicks,
+    onClose,
+}: ExportUrlsDialogProps) {
+    const [withClicks, setWithClicks] = useState(false);
+    const [running, setRunning] = useState(false);
+    const [fetched, setFetched] = useState(0);
+    const [total, setTotal] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const controller = useRef<AbortController | null>(null);
+    const { success } = useAppToast();
+
+    useEffect(() => {
+        if (!format) return;
+        setFetched(0);
+        setTotal(null);
+        setError(null);
+    }, [format]);
+
+    // Stop fetching pages when the page goes away mid-export; the partial file is discarded.
+    useEffect(() => () => controller.current?.abort(), []);
+
+    const handleStart = async () => {
+        if (!format) return;
+        const { extension, type } = URL_EXPORT_FORMATS[format];
+        const filename = `short-urls-${slug}-${formatDate(new Date(), 'yyyy-MM-dd')}.${extension}`;
+        const sink = await openDownloadSink(filename, type);
+        if (!sink) return;
+
+        const abort = new AbortController();
+        controller.current = abort;
+        setRunning(true);
+        setFetched(0);
+        setTotal(null);
+        setError(null);
+
+        const writer = createUrlExportWriter(format, withClicks);
+        let written = 0;
+        const exportPage = async (page: number): Promise<ApiFailure | null> => {
+            const res = await ApiClient.getShortUrls(
+                slug,
+                { ...params, p: page, q: EXPORT_PAGE_SIZE, clicks: withClicks || undefined },
+                { signal: abort.signal },
+            );
+            if (isErr(res)) return res;
+            const { entries, total: matching, hasMore } = res.value;
+            await sink.write(writer.rows(entries));
+            written += entries.length;
+            setTotal(matching);
+            setFetched((n) => n + entries.length);
+            return hasMore && entries.length ? exportPage(page + 1) : null;
+        };
+
+        try {
+            await sink.write(writer.begin());
+            const failure = await exportPage(0);
+            if (failure) {
+                await sink.abort().catch(() => undefined);
+                if (!failure.aborted) {
+                    setError(errorMessages(failure).join('; ') || 'Could not load short URLs');
+                }
+            } else {
+                await sink.write(writer.end());
+                await sink.close();
+                success(`Exported ${written} short URLs`);
+                onClose();
+            }
+        } catch (err) {
+            await sink.abort().catch(() => undefined);
+            setError(err instanceof Error ? err.message : 'Could not write the export file');
+        } finally {
+            controller.current = null;
+            setRunning(false);
+        }
+    };
+
+    const percent = total ? Math.min(100, (fetched / total) * 100) : 0;
+
+    return (
+        <Dialog open={!!format} onClose={running ? undefined : onClose} fullWidth maxWidth="xs">
+            <DialogTitle>Export to {format && URL_EXPORT_FORMATS[format].label}</DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    Exports every short URL matching the current filters and sort, across all pages.
+                </DialogContentText>
+                {canIncludeClicks && (
+                    <FormControlLabel
+                        label="Include click totals (slower)"
+                        control={
+                            <Checkbox
+                                checked={withClicks}
+                                onChange={(e) => setWithClicks(e.target.checked)}
+                                disabled={running}
+                            />
+                        }
+                    />
+                )}
+                {running && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
+                        <LinearProgress
+                            variant={total === null ? 'indeterminate' : 'determinate'}
+                            value={percent}
+                            sx={{ flexGrow: 1 }}
+                        />
+                        <Typography variant="body2" color="text.secondary">
+                            {fetched} / {total ?? '…'}
+                        </Typography>
+                    </Box>
+                )}
+                {error && (
+                    <Alert severity="error" sx={{ mt: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ px: 3, py: 2 }}>
+                {running ? (
+                    <Button onClick={() => controller.current?.abort()}>Cancel export</Button>
+                ) : (
+                    <>
+                        <Button onClick={onClose}>Cancel</Button>
+                        <Button variant="contained" onClick={handleStart}>
+                            Export
+                        </Button>
+                    </>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+}
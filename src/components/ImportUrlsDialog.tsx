@@ -0,0 +1,378 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    LinearProgress,
+    MenuItem,
+    Step,
+    StepLabel,
+    Stepper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { ApiClient } from '../common/api.ts';
+import { runBatched } from '../common/batch.ts';
+import { csvLine } from '../common/csv.ts';
+import { downloadFile } from '../common/download.ts';
+import { errorMessages, isErr } from '../common/result.ts';
+import { readSpreadsheet, SPREADSHEET_ACCEPT } from '../common/spreadsheet.ts';
+import {
+    DEFAULT_MAPPING,
+    FIELD_LABELS,
+    FIELDS,
+    guessMapping,
+    ImportField,
+    isHeaderRow,
+    Mapping,
+    validateRows,
+} from '../common/urlImport.ts';
+
+const STEPS = ['Upload file', 'Map columns', 'Preview', 'Import'];
+const MAX_IMPORT_ROWS = 1000;
+const IMPORT_BATCH_SIZE = 5;
+const IMPORT_BATCH_PAUSE_MS = 300;
+
+interface ImportResult {
+    line: number;
+    values: Record<ImportField, string>;
+    status: 'created' | 'failed' | 'skipped';
+    shortUrl: string;
+    error: string;
+}
+
+export interface ImportUrlsDialogProps {
+    slug: string;
+    open: boolean;
+    onClose: () => void;
+    /** Called once an import has created at least one link. */
+    onImported: () => void;
+}
+
+/**
+ * Creates short URLs in bulk from a CSV or XLSX file: upload, map columns, preview every
+ * row validated like the create dialog, then create the valid rows in throttled batches.
+ */
+export default function ImportUrlsDialog({
+    slug,
+    open,
+    onClose,
+    onImported,
+}: ImportUrlsDialogProps) {
+    const [step, setStep] = useState(0);
+    const [fileName, setFileName] = useState('');
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [sheet, setSheet] = useState<string[][]>([]);
+    const [keys, setKeys] = useState<string[]>([]);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<Mapping>(DEFAULT_MAPPING);
+    const [results, setResults] = useState<ImportResult[]>([]);
+    const [done, setDone] = useState(0);
+    const [running, setRunning] = useState(false);
+
+    const columnCount = Math.max(0, ...sheet.map((r) => r.length));
+    const columns = Array.from({ length: columnCount }, (_, i) =>
+        hasHeader && sheet[0]?.[i] ? sheet[0][i] : `Column ${i + 1}`,
+    );
+    const data = hasHeader ? sheet.slice(1) : sheet;
+
+    const rows = useMemo(() => {
+        const skip = hasHeader ? 1 : 0;
+        return validateRows(sheet.slice(skip), keys.slice(skip), mapping, skip + 1);
+    }, [sheet, keys, hasHeader, mapping]);
+    const validRows = rows.filter((r) => r.parsed);
+
+    const reset = () => {
+        setStep(0);
+        setFileName('');
+        setFileError(null);
+        setSheet([]);
+        setKeys([]);
+        setHasHeader(true);
+        setResults([]);
+        setDone(0);
+    };
+
+    const handleClose = () => {
+        if (running) return;
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setFileError(null);
+        let parsed: string[][];
+        try {
+            parsed = await readSpreadsheet(file);
+        } catch (err) {
+            setFileError(err instanceof Error ? err.message : 'The file could not be read');
+            return;
+        }
+        if (!parsed.length) {
+            setFileError('The file has no rows');
+            return;
+        }
+        if (parsed.length > MAX_IMPORT_ROWS + 1) {
+            setFileError(`Files can have at most ${MAX_IMPORT_ROWS} rows`);
+            return;
+        }
+        const header = parsed[0];
+        const looksLikeHeader = isHeaderRow(header);
+        setFileName(file.name);
+        setSheet(parsed);
+        setKeys(parsed.map(() => crypto.randomUUID()));
+        setHasHeader(looksLikeHeader);
+        setMapping(looksLikeHeader ? guessMapping(header) : DEFAULT_MAPPING);
+        setStep(1);
+    };
+
+    const handleImport = async () => {
+        setStep(3);
+        setRunning(true);
+        setDone(0);
+        const collected: ImportResult[] = rows
+            .filter((r) => !r.parsed)
+            .map((r) => ({
+                line: r.line,
+                values: r.values,
+                status: 'skipped',
+                shortUrl: '',
+                error: r.error ?? '',
+            }));
+        await runBatched(
+            validRows,
+            IMPORT_BATCH_SIZE,
+            async (row) => {
+                const res = await ApiClient.createShortUrl(slug, row.parsed!, {
+                    idempotencyKey: row.idempotencyKey,
+                });
+                collected.push(
+                    isErr(res)
+                        ? {
+                              line: row.line,
+                              values: row.values,
+                              status: 'failed',
+                              shortUrl: '',
+                              error: errorMessages(res).join('; ') || 'Request failed',
+                          }
+                        : {
+                              line: row.line,
+                              values: row.values,
+                              status: 'created',
+                              shortUrl: res.value.shortUrl?.shortUrl ?? '',
+                              error: '',
+                          },
+                );
+            },
+            setDone,
+            IMPORT_BATCH_PAUSE_MS,
+        );
+        collected.sort((a, b) => a.line - b.line);
+        setResults(collected);
+        setRunning(false);
+        if (collected.some((r) => r.status === 'created')) onImported();
+    };
+
+    const handleDownloadResults = () => {
+        const header = ['line', ...FIELDS, 'status', 'shortUrl', 'error'];
+        const body = results
+            .map((r) =>
+                csvLine([r.line, ...FIELDS.map((f) => r.values[f]), r.status, r.shortUrl, r.error]),
+            )
+            .join('');
+        const base = fileName.replace(/\.[^.]+$/, '') || 'short-urls';
+        downloadFile(`${base}-results.csv`, csvLine(header) + body, 'text/csv');
+    };
+
+    const count = (status: ImportResult['status']) =>
+        results.filter((r) => r.status === status).length;
+
+    return (
+        <Dialog open={open} onClose={handleClose} fullWidth maxWidth="md">
+            <DialogTitle sx={{ px: 4, pt: 3 }}>Import Short URLs</DialogTitle>
+            <DialogContent sx={{ px: 4 }}>
+                <Stepper activeStep={step} sx={{ mb: 3 }}>
+                    {STEPS.map((label) => (
+                        <Step key={label}>
+                            <StepLabel>{label}</StepLabel>
+                        </Step>
+                    ))}
+                </Stepper>
+
+                {step === 0 && (
+                    <Box sx={{ textAlign: 'center', py: 2 }}>
+                        <Button variant="outlined" component="label" startIcon={<UploadFileIcon />}>
+                            Choose CSV or XLSX file
+                            <input
+                                hidden
+                                type="file"
+                                accept={SPREADSHEET_ACCEPT}
+                                onChange={handleFile}
+                            />
+                        </Button>
+                        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                            One link per row with the destination URL, and optionally tags
+                            (separated by spaces or commas) and a custom alias. Up to{' '}
+                            {MAX_IMPORT_ROWS} rows.
+                        </Typography>
+                        {fileError && (
+                            <Alert severity="error" sx={{ mt: 2, textAlign: 'left' }}>
+                                {fileError}
+                            </Alert>
+                        )}
+                    </Box>
+                )}
+
+                {step === 1 && (
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                        <Typography variant="body2">
+                            {fileName}: {data.length} rows
+                        </Typography>
+                        <FormControlLabel
+                            label="First row is a header"
+                            control={
+                                <Checkbox
+                                    checked={hasHeader}
+                                    onChange={(e) => setHasHeader(e.target.checked)}
+                                />
+                            }
+                        />
+                        {FIELDS.map((field) => (
+                            <TextField
+                                key={field}
+                                select
+                                label={FIELD_LABELS[field]}
+                                value={mapping[field] ?? ''}
+                                onChange={(e) =>
+                                    setMapping((prev) => ({
+                                        ...prev,
+                                        [field]:
+                                            e.target.value === '' ? null : Number(e.target.value),
+                                    }))
+                                }
+                                size="small"
+                            >
+                                {field !== 'originalUrl' && (
+                                    <MenuItem value="">
+                                        <em>Not imported</em>
+                                    </MenuItem>
+                                )}
+                                {columns.map((name, i) => (
+                                    <MenuItem key={i} value={i}>
+                                        {name}
+                                    </MenuItem>
+                                ))}
+                            </TextField>
+                        ))}
+                    </Box>
+                )}
+
+                {step === 2 && (
+                    <>
+                        <Alert
+                            severity={validRows.length === rows.length ? 'success' : 'warning'}
+                            sx={{ mb: 2 }}
+                        >
+                            {validRows.length} of {rows.length} rows are valid.
+                            {validRows.length < rows.length && ' Rows with errors will be skipped.'}
+                        </Alert>
+                        <TableContainer sx={{ maxHeight: 360 }}>
+                            <Table size="small" stickyHeader>
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell width={60}>Line</TableCell>
+                                        {FIELDS.map((f) => (
+                                            <TableCell key={f}>{FIELD_LABELS[f]}</TableCell>
+                                        ))}
+                                        <TableCell>Error</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {rows.map((row) => (
+                                        <TableRow
+                                            key={row.line}
+                                            sx={row.error ? { bgcolor: 'error.light' } : undefined}
+                                        >
+                                            <TableCell>{row.line}</TableCell>
+                                            {FIELDS.map((f) => (
+                                                <TableCell
+                                                    key={f}
+                                                    sx={{ maxWidth: 240, overflowWrap: 'anywhere' }}
+                                                >
+                                                    {row.values[f]}
+                                                </TableCell>
+                                            ))}
+                                            <TableCell>{row.error}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    </>
+                )}
+
+                {step === 3 && (
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                            <LinearProgress
+                                variant="determinate"
+                                value={validRows.length ? (done / validRows.length) * 100 : 100}
+                                sx={{ flexGrow: 1 }}
+                            />
+                            <Typography variant="body2" color="text.secondary">
+                                {done} / {validRows.length}
+                            </Typography>
+                        </Box>
+                        {!running && (
+                            <Alert severity={count('failed') ? 'warning' : 'success'}>
+                                {count('created')} created, {count('failed')} failed,{' '}
+                                {count('skipped')} skipped. Download the results for the generated
+                                short URLs and the reason of every failure.
+                            </Alert>
+                        )}
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ px: 4, pb: 3, gap: 2 }}>
+                {step < 3 && <Button onClick={handleClose}>Cancel</Button>}
+                {(step === 1 || step === 2) && (
+                    <Button onClick={() => setStep(step - 1)}>Back</Button>
+                )}
+                {step === 1 && (
+                    <Button variant="contained" onClick={() => setStep(2)} disabled={!data.length}>
+                        Preview
+                    </Button>
+                )}
+                {step === 2 && (
+                    <Button variant="contained" onClick={handleImport} disabled={!validRows.length}>
+                        Import {validRows.length} links
+                    </Button>
+                )}
+                {step === 3 && !running && (
+                    <>
+                        <Button onClick={handleDownloadResults}>Download results</Button>
+                        <Button variant="contained" onClick={handleClose}>
+                            Done
+                        </Button>
+                    </>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+}
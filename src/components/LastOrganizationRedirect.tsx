@@ -0,0 +1,16 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import config from '../config/config';
+import { getAccessToken } from '../auth/auth.ts';
+import { orgPath } from '../common/paths.ts';
+import NotFoundPage from '../pages/NotFoundPage.tsx';
+
+/** Sends pre-`/o/:orgSlug` links such as `/urls/42` to the same page of the last used org. */
+export default function LastOrganizationRedirect() {
+    const { pathname, search } = useLocation();
+    const slug =
+        localStorage.getItem(config.currentOrganizationSlugKey) ??
+        getAccessToken()?.organizations[0]?.slug;
+
+    if (!slug) return <NotFoundPage />;
+    return <Navigate to={orgPath(slug, pathname) + search} replace />;
+}
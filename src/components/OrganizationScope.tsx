@@ -0,0 +1,36 @@
+import { Fragment, useEffect, useSyncExternalStore } from 'react';
+import { Outlet, useParams } from 'react-router-dom';
+import config from '../config/config';
+import { getAccessToken } from '../auth/auth.ts';
+import { SessionManager } from '../auth/session.ts';
+import ForbiddenPage from '../pages/ForbiddenPage.tsx';
+
+const readToken = () => localStorage.getItem(config.accessTokenKey);
+
+/** Layout route for `/o/:orgSlug/*` that checks membership and remembers the org as last used. */
+export default function OrganizationScope() {
+    const { orgSlug = '' } = useParams<{ orgSlug: string }>();
+    // Re-render when tokens change so a revoked membership takes effect immediately.
+    useSyncExternalStore(SessionManager.subscribe, readToken);
+    const isMember = !!getAccessToken()?.organizations.some((o) => o.slug === orgSlug);
+
+    useEffect(() => {
+        if (isMember) localStorage.setItem(config.currentOrganizationSlugKey, orgSlug);
+    }, [orgSlug, isMember]);
+
+    if (!isMember) {
+        return (
+            <ForbiddenPage
+                title="Organization not available"
+                message="You are not a member of this organization, or it no longer exists."
+            />
+        );
+    }
+
+    // Remount the pages on org switch so no state leaks from the previous organization.
+    return (
+        <Fragment key={orgSlug}>
+            <Outlet />
+        </Fragment>
+    );
+}
@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react';
+import { Alert, CircularProgress, Snackbar } from '@mui/material';
+import { ConnectionStatus } from '../common/connectionStatus.ts';
+
+const subscribe = (listener: () => void) => ConnectionStatus.subscribe(listener);
+const getSnapshot = () => ConnectionStatus.isReconnecting();
+
+export default function ReconnectingIndicator() {
+    const reconnecting = useSyncExternalStore(subscribe, getSnapshot);
+
+    return (
+        <Snackbar open={reconnecting} anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}>
+            <Alert
+                severity="warning"
+                variant="filled"
+                icon={<CircularProgress size={18} color="inherit" />}
+            >
+                Connection problems, reconnecting…
+            </Alert>
+        </Snackbar>
+    );
+}
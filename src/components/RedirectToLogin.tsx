@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SessionManager } from '../auth/session.ts';
+
+/** Sends a signed-out visitor to the login page, remembering the route they asked for. */
+export default function RedirectToLogin() {
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        SessionManager.rememberLocation();
+        navigate('/login', { replace: true });
+    }, [navigate]);
+
+    return null;
+}
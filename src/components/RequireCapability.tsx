@@ -0,0 +1,34 @@
+import { ReactNode } from 'react';
+import { useParams } from 'react-router-dom';
+import { Capability } from '../auth/capabilities.ts';
+import { useCan } from '../hooks/useCan.ts';
+import ForbiddenPage from '../pages/ForbiddenPage.tsx';
+import NoUrlAccessPage from '../pages/NoUrlAccessPage.tsx';
+
+export interface RequireCapabilityProps {
+    capability: Capability;
+    /** Route param holding a short URL id that the user must also have a grant for. */
+    urlIdParam?: string;
+    children: ReactNode;
+}
+
+/** Route element wrapper that renders the 403 page unless the user holds `capability`. */
+export default function RequireCapability({
+    capability,
+    urlIdParam,
+    children,
+}: RequireCapabilityProps) {
+    const can = useCan();
+    const params = useParams();
+
+    if (!can(capability)) return <ForbiddenPage />;
+
+    if (urlIdParam !== undefined) {
+        const urlId = Number(params[urlIdParam]);
+        if (!Number.isInteger(urlId) || !can(capability, urlId)) {
+            return <NoUrlAccessPage />;
+        }
+    }
+
+    return <>{children}</>;
+}
@@ -0,0 +1,15 @@
+import { ReactNode } from 'react';
+import { isSystemAdmin } from '../auth/auth.ts';
+import ForbiddenPage from '../pages/ForbiddenPage.tsx';
+
+export interface RequireSystemAdminProps {
+    children: ReactNode;
+}
+
+/** Route element wrapper for the admin console, keyed on the system role rather than org roles. */
+export default function RequireSystemAdmin({ children }: RequireSystemAdminProps) {
+    if (!isSystemAdmin()) {
+        return <ForbiddenPage message="Only system administrators can open the admin console." />;
+    }
+    return <>{children}</>;
+}
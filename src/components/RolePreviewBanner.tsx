@@ -0,0 +1,41 @@
+import { Alert, Button } from '@mui/material';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import { useNavigate } from 'react-router-dom';
+import { RolePreviewStore } from '../auth/rolePreview.ts';
+import { orgPath } from '../common/paths.ts';
+import { useRolePreview } from '../hooks/useRolePreview.ts';
+
+/** Sticky notice while the dashboard is rendered with another member's permissions. */
+export default function RolePreviewBanner() {
+    const preview = useRolePreview();
+    const navigate = useNavigate();
+
+    if (!preview) return null;
+
+    const links = preview.access.allowedAllUrls
+        ? 'all links'
+        : `${preview.access.allowedUrls.length} granted links`;
+
+    return (
+        <Alert
+            severity="warning"
+            icon={<VisibilityIcon />}
+            sx={{ position: 'sticky', top: 0, zIndex: 2, borderRadius: 0 }}
+            action={
+                <Button
+                    color="inherit"
+                    size="small"
+                    onClick={() => {
+                        RolePreviewStore.stop();
+                        navigate(orgPath(preview.access.slug, '/members'));
+                    }}
+                >
+                    Exit Preview
+                </Button>
+            }
+        >
+            Previewing as <strong>{preview.memberName}</strong> ({links}). You see what they see;
+            changes are disabled until you exit the preview.
+        </Alert>
+    );
+}
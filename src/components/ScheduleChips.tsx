@@ -0,0 +1,62 @@
+import { Chip, Tooltip } from '@mui/material';
+import { format, formatDistanceStrict } from 'date-fns';
+import { EXPIRING_SOON_DAYS, ShortUrlDto, ShortUrlState } from '../model/urls.ts';
+import { useNow } from '../hooks/useNow.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleChipsProps {
+    url: ShortUrlDto;
+    /** Also spell out the exact times, where there is room for them. */
+    showDates?: boolean;
+}
+
+/** Countdown chips for a link's upcoming activation, expiry and click limit. */
+export default function ScheduleChips({ url, showDates = false }: ScheduleChipsProps) {
+    const now = useNow();
+    const live = url.state === ShortUrlState.PENDING || url.state === ShortUrlState.ACTIVE;
+    const activateAt = url.activateAt ? new Date(url.activateAt) : null;
+    const expiresAt = url.expiresAt ? new Date(url.expiresAt) : null;
+    const countdown = (d: Date) => {
+        const relative = d.getTime() > now ? `in ${formatDistanceStrict(d, now)}` : 'now';
+        return showDates ? `${format(d, 'PPp')} (${relative})` : relative;
+    };
+
+    return (
+        <>
+            {url.state === ShortUrlState.PENDING && activateAt && (
+                <Tooltip title={`Activates ${format(activateAt, 'PPp')}`}>
+                    <Chip
+                        label={`Starts ${countdown(activateAt)}`}
+                        color="info"
+                        size="small"
+                        variant="outlined"
+                    />
+                </Tooltip>
+            )}
+            {live && expiresAt && (
+                <Tooltip title={`Expires ${format(expiresAt, 'PPp')}`}>
+                    <Chip
+                        label={`Expires ${countdown(expiresAt)}`}
+                        color={
+                            expiresAt.getTime() - now <= EXPIRING_SOON_DAYS * DAY_MS
+                                ? 'warning'
+                                : 'default'
+                        }
+                        size="small"
+                        variant="outlined"
+                    />
+                </Tooltip>
+            )}
+            {live && url.maxClicks !== null && (
+                <Tooltip title="Deactivates after this many openings">
+                    <Chip
+                        label={`Max ${url.maxClicks.toLocaleString()} clicks`}
+                        size="small"
+                        variant="outlined"
+                    />
+                </Tooltip>
+            )}
+        </>
+    );
+}
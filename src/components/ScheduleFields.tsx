@@ -0,0 +1,69 @@
+import { Box, TextField } from '@mui/material';
+import { DateTimePicker, LocalizationProvider } from '@mui/x-date-pickers';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { ScheduleErrors, ScheduleInput } from '../common/schedule.ts';
+
+export interface ScheduleFieldsProps {
+    value: ScheduleInput;
+    onChange: (value: ScheduleInput) => void;
+    errors?: ScheduleErrors;
+    /** Activation can only be rescheduled while a link is still pending. */
+    activateDisabled?: boolean;
+}
+
+/** Optional activation time, expiry time and click limit of a short URL. */
+export default function ScheduleFields({
+    value,
+    onChange,
+    errors = {},
+    activateDisabled = false,
+}: ScheduleFieldsProps) {
+    return (
+        <LocalizationProvider dateAdapter={AdapterDateFns}>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                <DateTimePicker
+                    label="Activate at (Optional)"
+                    value={value.activateAt}
+                    onChange={(d) => onChange({ ...value, activateAt: d })}
+                    disabled={activateDisabled}
+                    disablePast
+                    ampm={false}
+                    slotProps={{
+                        field: { clearable: true },
+                        textField: {
+                            error: !!errors.activateAt,
+                            helperText:
+                                errors.activateAt ??
+                                (activateDisabled ? 'Link is already live' : 'Stays pending until'),
+                            sx: { flex: '1 1 200px' },
+                        },
+                    }}
+                />
+                <DateTimePicker
+                    label="Expires at (Optional)"
+                    value={value.expiresAt}
+                    onChange={(d) => onChange({ ...value, expiresAt: d })}
+                    disablePast
+                    ampm={false}
+                    slotProps={{
+                        field: { clearable: true },
+                        textField: {
+                            error: !!errors.expiresAt,
+                            helperText: errors.expiresAt ?? 'Deactivates at',
+                            sx: { flex: '1 1 200px' },
+                        },
+                    }}
+                />
+                <TextField
+                    label="Max clicks (Optional)"
+                    value={value.maxClicks}
+                    onChange={(e) => onChange({ ...value, maxClicks: e.target.value })}
+                    error={!!errors.maxClicks}
+                    helperText={errors.maxClicks ?? 'Deactivates after'}
+                    inputProps={{ inputMode: 'numeric' }}
+                    sx={{ flex: '1 1 120px' }}
+                />
+            </Box>
+        </LocalizationProvider>
+    );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    LinearProgress,
+} from '@mui/material';
+import config from '../config/config';
+import { SessionManager } from '../auth/session.ts';
+import { useAppToast } from './toast.tsx';
+
+// setTimeout overflows above this and would fire immediately.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const formatCountdown = (ms: number): string => {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    const minutes = Math.floor(total / 60);
+    const seconds = total % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function SessionExpiryDialog() {
+    const expiry = useSyncExternalStore(SessionManager.subscribe, SessionManager.getRefreshExpiry);
+    const [now, setNow] = useState(Date.now());
+    const [extending, setExtending] = useState(false);
+    const { error } = useAppToast();
+
+    const warnAt = expiry === null ? null : expiry - config.sessionExpiryWarningMs;
+    const warning = warnAt !== null && now >= warnAt;
+    const remaining = expiry === null ? 0 : expiry - now;
+
+    useEffect(() => {
+        if (warnAt === null) return undefined;
+        if (!warning) {
+            const timer = setTimeout(
+                () => setNow(Date.now()),
+                Math.min(warnAt - Date.now(), MAX_TIMEOUT_MS),
+            );
+            return () => clearTimeout(timer);
+        }
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [warnAt, warning]);
+
+    useEffect(() => {
+        if (warning && remaining <= 0) SessionManager.expire();
+    }, [warning, remaining]);
+
+    const handleExtend = async () => {
+        setExtending(true);
+        const extended = await SessionManager.refresh();
+        setExtending(false);
+        setNow(Date.now());
+        if (!extended) error('Could not extend the session, please sign in again');
+    };
+
+    return (
+        <Dialog open={warning && remaining > 0} maxWidth="xs" fullWidth>
+            <DialogTitle>Your session is about to expire</DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    For your security you will be signed out in{' '}
+                    <strong>{formatCountdown(remaining)}</strong>. Do you want to stay signed in?
+                </DialogContentText>
+                <LinearProgress
+                    variant="determinate"
+                    value={(remaining / config.sessionExpiryWarningMs) * 100}
+                />
+            </DialogContent>
+            <DialogActions sx={{ px: 3, py: 2 }}>
+                <Button onClick={() => SessionManager.logout()} disabled={extending}>
+                    Sign out
+                </Button>
+                <Button
+                    variant="contained"
+                    onClick={handleExtend}
+                    disabled={extending}
+                    startIcon={extending ? <CircularProgress size={16} color="inherit" /> : null}
+                >
+                    Stay signed in
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
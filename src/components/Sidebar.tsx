@@ -1,4 +1,4 @@
-import { Dispatch, JSX, SetStateAction, useEffect, useState } from 'react';
+import { JSX, useEffect, useState } from 'react';
 import {
     Avatar,
     Box,
@@ -27,21 +27,30 @@ import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import GroupIcon from '@mui/icons-material/Group';
 import AccountCircleIcon from '@mui/icons-material/AccountCircle';
 import LogoutIcon from '@mui/icons-material/Logout';
+import KeyIcon from '@mui/icons-material/Key';
+import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import PeopleAltIcon from '@mui/icons-material/PeopleAlt';
+import ApartmentIcon from '@mui/icons-material/Apartment';
 import LinkIcon from '@mui/icons-material/Link';
 import DomainIcon from '@mui/icons-material/Domain';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import AddIcon from '@mui/icons-material/Add';
 import { useLocation, useNavigate } from 'react-router-dom';
-import config from '../config/config';
-import { UserInfoDto } from '../model/users.ts';
-import { hasRole } from '../auth/auth.ts';
-import { MemberRole, TokenResponseDto } from '../model/auth.ts';
+import { useCan } from '../hooks/useCan.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { orgPath } from '../common/paths.ts';
+import { SessionManager } from '../auth/session.ts';
+import { isSystemAdmin } from '../auth/auth.ts';
+import { RolePreviewStore } from '../auth/rolePreview.ts';
+import { useRolePreview } from '../hooks/useRolePreview.ts';
+import { TokenResponseDto } from '../model/auth.ts';
 import { OrganizationDto } from '../model/organizations.ts';
 import { z } from 'zod';
-import { ErrorResponseElement } from '../model/common.ts';
-import { ApiClient } from '../common/api.ts';
-import * as _ from 'lodash';
+import { ServiceErrorType } from '../model/common.ts';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
 import { useAppToast } from './toast.tsx';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
 
 const createOrgSchema = z.object({
     name: z.string().nonempty('Name is required'),
@@ -60,6 +69,12 @@ const createOrgSchema = z.object({
 
 type CreateOrgInput = z.infer<typeof createOrgSchema>;
 
+interface NavEntry {
+    label: string;
+    icon: JSX.Element;
+    page: string;
+}
+
 const DRAWER_WIDTH = 270;
 const COLLAPSED_WIDTH = 60;
 
@@ -79,19 +94,42 @@ const NavItem = styled('div', {
     },
 }));
 
-export interface SidebarProps {
-    user: UserInfoDto | null;
-    setUser: Dispatch<SetStateAction<UserInfoDto | null>>;
-    org: OrganizationDto | null;
-    orgs: OrganizationDto[] | null;
-}
+const ORGANIZATIONS_QUERY = { q: 10000 };
 
-export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
+export default function Sidebar() {
     const theme = useTheme();
     const navigate = useNavigate();
     const location = useLocation();
 
-    const { error } = useAppToast();
+    const { apiError } = useAppToast();
+    const can = useCan();
+
+    const slug = useOrgSlug();
+    const previewing = !!useRolePreview();
+
+    const { data: user, failure: userFailure } = useApiQuery(queryKeys.userInfo(), (signal) =>
+        ApiClient.getUserInfo({ signal }),
+    );
+    const { data: org, failure: orgFailure } = useApiQuery(queryKeys.organization(slug), (signal) =>
+        ApiClient.getOrganizationBySlug(slug, { signal }),
+    );
+    const { data: orgsList, failure: orgsFailure } = useApiQuery(
+        queryKeys.userOrganizations(ORGANIZATIONS_QUERY),
+        (signal) => ApiClient.getUserOrganizations(ORGANIZATIONS_QUERY, { signal }),
+    );
+    const orgs: OrganizationDto[] | null = orgsList?.entries ?? null;
+
+    useEffect(() => {
+        if (userFailure) apiError('Could not get user info', userFailure);
+    }, [userFailure, apiError]);
+
+    useEffect(() => {
+        if (orgFailure) apiError('Could not get current organization info', orgFailure);
+    }, [orgFailure, apiError]);
+
+    useEffect(() => {
+        if (orgsFailure) apiError("Could not get participating organizations' info", orgsFailure);
+    }, [orgsFailure, apiError]);
 
     const [open, setOpen] = useState(true);
     const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
@@ -115,18 +153,18 @@ export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
             setErrors({});
             setCreating(true);
 
-            const res: TokenResponseDto | ErrorResponseElement =
-                await ApiClient.createOrganization(parsed);
-            if (_.has(res, 'errorType')) {
-                error('Could not create organization');
+            const res = await ApiClient.createOrganization(parsed);
+            if (isErr(res)) {
+                if (hasErrorType(res, ServiceErrorType.ENTITY_ALREADY_EXISTS)) {
+                    setErrors({ slug: 'Organization with this slug already exists' });
+                }
+                apiError('Could not create organization', res);
                 return;
             }
 
-            const payload: TokenResponseDto = res as TokenResponseDto;
-            localStorage.setItem(config.accessTokenKey, payload.accessToken);
-            localStorage.setItem(config.refreshTokenKey, payload.refreshToken!);
-            localStorage.setItem(config.currentOrganizationSlugKey, input.slug);
-            window.location.href = '/urls';
+            const payload: TokenResponseDto = res.value;
+            SessionManager.setTokens(payload);
+            window.location.href = orgPath(input.slug);
         } catch (err) {
             if (err instanceof z.ZodError) {
                 const fieldErrors: any = {};
@@ -140,48 +178,87 @@ export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
         }
     };
 
-    useEffect(() => {
-        (async () => {
-            const res: UserInfoDto | ErrorResponseElement = await ApiClient.getUserInfo();
-
-            if (_.has(res, 'errorType')) {
-                error('Could not get user info');
-                return;
-            }
-
-            const payload: UserInfoDto = res as UserInfoDto;
-            setUser(payload);
-        })();
-    }, [setUser]);
-
-    const navItems: { label: string; icon: JSX.Element; page: string }[] = [];
+    const navItems: NavEntry[] = [];
 
-    navItems.push({ label: 'Short URLs', icon: <LinkIcon />, page: '/urls' });
+    navItems.push({ label: 'Short URLs', icon: <LinkIcon />, page: orgPath(slug, '/urls') });
 
-    if (hasRole(MemberRole.ORGANIZATION_MEMBERS_MANAGER)) {
-        navItems.push({ label: 'Organization Members', icon: <GroupIcon />, page: '/members' });
+    if (can('member.view')) {
+        navItems.push({
+            label: 'Organization Members',
+            icon: <GroupIcon />,
+            page: orgPath(slug, '/members'),
+        });
     }
 
-    if (hasRole(MemberRole.ORGANIZATION_MANAGER)) {
+    if (can('org.edit')) {
         navItems.push({
             label: 'Organization Settings',
             icon: <DomainIcon />,
-            page: '/organization',
+            page: orgPath(slug, '/organization'),
         });
     }
 
-    if (hasRole(MemberRole.ORGANIZATION_OWNER) || hasRole(MemberRole.ORGANIZATION_ADMIN)) {
-        navItems.push(
-            ...[
-                { label: 'Organization Members', icon: <GroupIcon />, page: '/members' },
-                { label: 'Organization Settings', icon: <DomainIcon />, page: '/organization' },
-            ],
-        );
-    }
-
     navItems.push({ label: 'Account Settings', icon: <AccountCircleIcon />, page: '/account' });
+    navItems.push({ label: 'API Tokens', icon: <KeyIcon />, page: '/account/tokens' });
     navItems.push({ label: 'Logout', icon: <LogoutIcon />, page: '/login' });
 
+    const adminItems: NavEntry[] = isSystemAdmin()
+        ? [
+              { label: 'Platform Overview', icon: <AdminPanelSettingsIcon />, page: '/admin' },
+              { label: 'All Users', icon: <PeopleAltIcon />, page: '/admin/users' },
+              {
+                  label: 'All Organizations',
+                  icon: <ApartmentIcon />,
+                  page: '/admin/organizations',
+              },
+          ]
+        : [];
+
+    const renderNavItem = (item: NavEntry) => {
+        const isSelected = location.pathname === item.page;
+
+        return (
+            <NavItem
+                key={item.label}
+                isSelected={isSelected}
+                onClick={() => {
+                    if (item.label === 'Logout') {
+                        SessionManager.logout();
+                    } else {
+                        navigate(item.page);
+                    }
+                }}
+                sx={{
+                    justifyContent: open ? (isSelected ? 'initial' : 'flex-start') : 'center',
+                    px: open ? theme.spacing(3) : 0,
+                }}
+            >
+                <ListItemIcon
+                    sx={{
+                        minWidth: 0,
+                        mr: open ? theme.spacing(2) : 0,
+                        justifyContent: 'center',
+                        color: isSelected ? theme.palette.primary.main : theme.palette.text.primary,
+                    }}
+                >
+                    {item.icon}
+                </ListItemIcon>
+                {open && (
+                    <ListItemText
+                        primary={item.label}
+                        primaryTypographyProps={{
+                            variant: 'body2',
+                            fontWeight: isSelected ? 600 : 400,
+                            color: isSelected
+                                ? theme.palette.primary.main
+                                : theme.palette.text.primary,
+                        }}
+                    />
+                )}
+            </NavItem>
+        );
+    };
+
     return (
         <>
             <Drawer
@@ -217,60 +294,23 @@ export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
 
                 <Divider />
 
-                <List disablePadding>
-                    {navItems.map((item) => {
-                        const isSelected = location.pathname === item.page;
-
-                        return (
-                            <NavItem
-                                key={item.label}
-                                isSelected={isSelected}
-                                onClick={() => {
-                                    if (item.label === 'Logout') {
-                                        localStorage.removeItem(config.accessTokenKey);
-                                        localStorage.removeItem(config.refreshTokenKey);
-                                        window.location.href = '/login';
-                                    } else {
-                                        navigate(item.page);
-                                    }
-                                }}
-                                sx={{
-                                    justifyContent: open
-                                        ? isSelected
-                                            ? 'initial'
-                                            : 'flex-start'
-                                        : 'center',
-                                    px: open ? theme.spacing(3) : 0,
-                                }}
+                <List disablePadding>{navItems.map(renderNavItem)}</List>
+
+                {adminItems.length > 0 && (
+                    <>
+                        <Divider sx={{ my: 1 }} />
+                        {open && (
+                            <Typography
+                                variant="overline"
+                                color="text.secondary"
+                                sx={{ px: 3, display: 'block' }}
                             >
-                                <ListItemIcon
-                                    sx={{
-                                        minWidth: 0,
-                                        mr: open ? theme.spacing(2) : 0,
-                                        justifyContent: 'center',
-                                        color: isSelected
-                                            ? theme.palette.primary.main
-                                            : theme.palette.text.primary,
-                                    }}
-                                >
-                                    {item.icon}
-                                </ListItemIcon>
-                                {open && (
-                                    <ListItemText
-                                        primary={item.label}
-                                        primaryTypographyProps={{
-                                            variant: 'body2',
-                                            fontWeight: isSelected ? 600 : 400,
-                                            color: isSelected
-                                                ? theme.palette.primary.main
-                                                : theme.palette.text.primary,
-                                        }}
-                                    />
-                                )}
-                            </NavItem>
-                        );
-                    })}
-                </List>
+                                Administration
+                            </Typography>
+                        )}
+                        <List disablePadding>{adminItems.map(renderNavItem)}</List>
+                    </>
+                )}
 
                 <Box sx={{ flexGrow: 1 }} />
 
@@ -330,12 +370,11 @@ export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
                         <MenuItem
                             dense
                             key={org.slug}
-                            selected={
-                                org.slug === localStorage.getItem(config.currentOrganizationSlugKey)
-                            }
+                            selected={org.slug === slug}
                             onClick={() => {
-                                localStorage.setItem(config.currentOrganizationSlugKey, org.slug);
-                                window.location.href = '/urls';
+                                setAnchorEl(null);
+                                if (org.slug !== slug) RolePreviewStore.stop();
+                                navigate(orgPath(org.slug));
                             }}
                             sx={{ width: 400 }}
                         >
@@ -370,6 +409,7 @@ export default function Sidebar({ user, setUser, org, orgs }: SidebarProps) {
                             setCreateOpen(true);
                             setAnchorEl(null);
                         }}
+                        disabled={previewing}
                         sx={{ width: 280, display: 'flex', alignItems: 'center' }}
                     >
                         <AddIcon fontSize="small" sx={{ mr: 1 }} />
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Button, Link, Stack, TextField, Typography } from '@mui/material';
+import { ApiClient } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { SessionManager } from '../auth/session.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import { useAppToast } from './toast.tsx';
+
+export interface TwoFactorLoginStepProps {
+    /** Issued by a sign-in route when the account also needs a second factor. */
+    challengeToken: string;
+    /** Leaves the step; also called when the challenge can no longer be completed. */
+    onBack: () => void;
+}
+
+/**
+ * Second step of every sign-in method for accounts with 2FA: trades the challenge and an
+ * authenticator or recovery code for a session.
+ */
+export default function TwoFactorLoginStep({ challengeToken, onBack }: TwoFactorLoginStepProps) {
+    const [secondFactor, setSecondFactor] = useState('');
+    const [secondFactorError, setSecondFactorError] = useState<string | undefined>();
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const [verifying, setVerifying] = useState(false);
+
+    const { success, apiError } = useAppToast();
+
+    const handleSecondFactor = async () => {
+        if (verifying) return;
+        const code = secondFactor.trim();
+        if (!code) {
+            setSecondFactorError(
+                useRecoveryCode ? 'Recovery code is required' : 'Authentication code is required',
+            );
+            return;
+        }
+
+        setVerifying(true);
+        const res = await ApiClient.completeTwoFactorLogin({
+            challengeToken,
+            code,
+            recoveryCode: useRecoveryCode,
+        });
+        setVerifying(false);
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.TWO_FACTOR_CODE_INVALID)) {
+                setSecondFactorError('That code is not valid');
+            } else {
+                apiError('Login failed', res);
+                onBack();
+            }
+            return;
+        }
+        window.location.href = SessionManager.signIn(res.value);
+        success('Login succeeded');
+    };
+
+    return (
+        <Stack spacing={3} sx={{ minHeight: 300 }}>
+            <Typography variant="h4" align="center">
+                Two-Step Verification
+            </Typography>
+            <Typography variant="body2" color="text.secondary" align="center">
+                {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when setting up 2FA.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+            </Typography>
+            <TextField
+                label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                fullWidth
+                disabled={verifying}
+                value={secondFactor}
+                onChange={(e) => {
+                    setSecondFactor(e.target.value);
+                    setSecondFactorError(undefined);
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleSecondFactor()}
+                error={!!secondFactorError}
+                helperText={secondFactorError}
+                inputProps={
+                    useRecoveryCode
+                        ? undefined
+                        : { inputMode: 'numeric', autoComplete: 'one-time-code' }
+                }
+            />
+            <Button variant="contained" fullWidth onClick={handleSecondFactor} disabled={verifying}>
+                Verify
+            </Button>
+            <Link
+                component="button"
+                variant="body2"
+                underline="hover"
+                onClick={() => {
+                    setUseRecoveryCode((v) => !v);
+                    setSecondFactor('');
+                    setSecondFactorError(undefined);
+                }}
+            >
+                {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code instead'}
+            </Link>
+            <Button variant="outlined" color="secondary" fullWidth onClick={onBack}>
+                Back
+            </Button>
+        </Stack>
+    );
+}
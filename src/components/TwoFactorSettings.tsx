@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    Stack,
+    TextField,
+    Typography,
+} from '@mui/material';
+import { QRCodeSVG } from 'qrcode.react';
+import { ApiClient } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import { TotpEnrollmentDto } from '../model/users.ts';
+import { useAppToast } from './toast.tsx';
+
+const CODE_PATTERN = /^\d{6}$/;
+
+export interface TwoFactorSettingsProps {
+    enabled: boolean;
+}
+
+/** Account security block: TOTP enrollment with recovery codes, and turning 2FA off again. */
+export default function TwoFactorSettings({ enabled }: TwoFactorSettingsProps) {
+    const [enrollment, setEnrollment] = useState<TotpEnrollmentDto | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [disableOpen, setDisableOpen] = useState(false);
+    const [code, setCode] = useState('');
+    const [codeError, setCodeError] = useState<string | undefined>();
+    const [busy, setBusy] = useState(false);
+
+    const { success, apiError } = useAppToast();
+
+    const resetCode = () => {
+        setCode('');
+        setCodeError(undefined);
+    };
+
+    const handleStart = async () => {
+        setBusy(true);
+        const res = await ApiClient.startTotpEnrollment();
+        setBusy(false);
+        if (isErr(res)) {
+            apiError('Could not start two-factor setup', res);
+            return;
+        }
+        resetCode();
+        setEnrollment(res.value);
+    };
+
+    const handleConfirm = async () => {
+        if (!CODE_PATTERN.test(code.trim())) {
+            setCodeError('Enter the 6-digit code from your authenticator app');
+            return;
+        }
+        setBusy(true);
+        const res = await ApiClient.confirmTotpEnrollment({ code: code.trim() });
+        setBusy(false);
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.TWO_FACTOR_CODE_INVALID)) {
+                setCodeError('That code did not match, check the time on your device');
+            } else {
+                apiError('Could not enable two-factor authentication', res);
+            }
+            return;
+        }
+        setEnrollment(null);
+        setRecoveryCodes(res.value.recoveryCodes);
+        success('Two-factor authentication was enabled');
+    };
+
+    const handleDisable = async () => {
+        if (!code.trim()) {
+            setCodeError('Enter an authenticator or recovery code');
+            return;
+        }
+        setBusy(true);
+        const res = await ApiClient.disableTotp({ code: code.trim() });
+        setBusy(false);
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.TWO_FACTOR_CODE_INVALID)) {
+                setCodeError('That code is not valid');
+            } else {
+                apiError('Could not disable two-factor authentication', res);
+            }
+            return;
+        }
+        setDisableOpen(false);
+        success('Two-factor authentication was disabled');
+    };
+
+    const handleDownloadCodes = () => {
+        const blob = new Blob([(recoveryCodes ?? []).join('\n') + '\n'], { type: 'text/plain' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'shortener-recovery-codes.txt';
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    return (
+        <Stack spacing={2}>
+            <Stack direction="row" spacing={2} alignItems="center">
+                <Typography variant="h6">Two-factor authentication</Typography>
+                <Chip
+                    label={enabled ? 'On' : 'Off'}
+                    color={enabled ? 'success' : 'default'}
+                    size="small"
+                    variant="outlined"
+                />
+            </Stack>
+            <Typography variant="body2" color="text.secondary">
+                Require a code from an authenticator app in addition to your password when signing
+                in.
+            </Typography>
+            <Box>
+                {enabled ? (
+                    <Button
+                        variant="outlined"
+                        color="error"
+                        onClick={() => {
+                            resetCode();
+                            setDisableOpen(true);
+                        }}
+                    >
+                        Disable 2FA
+                    </Button>
+                ) : (
+                    <Button variant="contained" onClick={handleStart} disabled={busy}>
+                        Set Up Authenticator
+                    </Button>
+                )}
+            </Box>
+
+            <Dialog open={!!enrollment} maxWidth="xs" fullWidth>
+                <DialogTitle>Set up authenticator</DialogTitle>
+                <DialogContent>
+                    <Stack spacing={2} alignItems="center">
+                        <DialogContentText>
+                            Scan the QR code with your authenticator app, then enter the code it
+                            shows.
+                        </DialogContentText>
+                        {enrollment && (
+                            <Box sx={{ p: 1.5, bgcolor: '#fff', borderRadius: 1 }}>
+                                <QRCodeSVG value={enrollment.otpauthUri} size={180} />
+                            </Box>
+                        )}
+                        <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            sx={{ wordBreak: 'break-all', textAlign: 'center' }}
+                        >
+                            Can’t scan? Enter this key: <strong>{enrollment?.secret}</strong>
+                        </Typography>
+                        <TextField
+                            label="6-digit code"
+                            value={code}
+                            onChange={(e) => {
+                                setCode(e.target.value);
+                                setCodeError(undefined);
+                            }}
+                            error={!!codeError}
+                            helperText={codeError}
+                            inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code' }}
+                            fullWidth
+                        />
+                    </Stack>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setEnrollment(null)} disabled={busy}>
+                        Cancel
+                    </Button>
+                    <Button variant="contained" onClick={handleConfirm} disabled={busy}>
+                        Verify
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={!!recoveryCodes} maxWidth="xs" fullWidth>
+                <DialogTitle>Save your recovery codes</DialogTitle>
+                <DialogContent>
+                    <Stack spacing={2}>
+                        <Alert severity="warning">
+                            Each code signs you in once if you lose your authenticator. They will
+                            not be shown again.
+                        </Alert>
+                        <Box
+                            sx={{
+                                display: 'grid',
+                                gridTemplateColumns: '1fr 1fr',
+                                gap: 1,
+                                fontFamily: 'monospace',
+                                textAlign: 'center',
+                            }}
+                        >
+                            {recoveryCodes?.map((c) => <span key={c}>{c}</span>)}
+                        </Box>
+                    </Stack>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={handleDownloadCodes}>Download</Button>
+                    <Button
+                        onClick={() => {
+                            navigator.clipboard.writeText((recoveryCodes ?? []).join('\n'));
+                            success('Recovery codes copied');
+                        }}
+                    >
+                        Copy
+                    </Button>
+                    <Button variant="contained" onClick={() => setRecoveryCodes(null)}>
+                        Done
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog
+                open={disableOpen}
+                onClose={() => setDisableOpen(false)}
+                maxWidth="xs"
+                fullWidth
+            >
+                <DialogTitle>Disable two-factor authentication</DialogTitle>
+                <DialogContent>
+                    <DialogContentText sx={{ mb: 2 }}>
+                        Enter a code from your authenticator app or one of your recovery codes.
+                    </DialogContentText>
+                    <TextField
+                        label="Code"
+                        value={code}
+                        onChange={(e) => {
+                            setCode(e.target.value);
+                            setCodeError(undefined);
+                        }}
+                        error={!!codeError}
+                        helperText={codeError}
+                        fullWidth
+                    />
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setDisableOpen(false)} disabled={busy}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="error"
+                        onClick={handleDisable}
+                        disabled={busy}
+                    >
+                        Disable
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Stack>
+    );
+}
@@ -1,45 +1,74 @@
 import { toast, ToastContainer, ToastOptions } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import { useTheme } from '@mui/material/styles';
+import { ReactNode, useMemo } from 'react';
+import { ApiFailure, errorMessages } from '../common/result.ts';
 
 export const useAppToast = () => {
-    const theme = useTheme();
+    const mode = useTheme().palette.mode;
 
-    const baseOptions: ToastOptions = {
-        position: 'top-center',
-        autoClose: 4000,
-        hideProgressBar: false,
-        closeOnClick: true,
-        pauseOnHover: true,
-        draggable: true,
-        theme: theme.palette.mode === 'dark' ? 'dark' : 'light',
-    };
+    // Stable across renders so effects can depend on the toasts without re-running.
+    return useMemo(() => {
+        const baseOptions: ToastOptions = {
+            position: 'top-center',
+            autoClose: 4000,
+            hideProgressBar: false,
+            closeOnClick: true,
+            pauseOnHover: true,
+            draggable: true,
+            theme: mode === 'dark' ? 'dark' : 'light',
+        };
 
-    const success = (message: string) => {
-        toast.success(message, {
-            ...baseOptions,
-            style: {
-                background: theme.palette.mode === 'dark' ? '#1B5E20' : '#43A047', // Dark green / Medium green
-                color: '#FFFFFF',
-                fontFamily: "'Poppins', sans-serif",
-                fontWeight: 600,
-            },
-        });
-    };
+        const success = (message: string) => {
+            toast.success(message, {
+                ...baseOptions,
+                style: {
+                    background: mode === 'dark' ? '#1B5E20' : '#43A047', // Dark green / Medium green
+                    color: '#FFFFFF',
+                    fontFamily: "'Poppins', sans-serif",
+                    fontWeight: 600,
+                },
+            });
+        };
 
-    const error = (message: string) => {
-        toast.error(message, {
-            ...baseOptions,
-            style: {
-                background: theme.palette.mode === 'dark' ? '#B71C1C' : '#E53935', // Dark red / Medium red
-                color: '#FFFFFF',
-                fontFamily: "'Poppins', sans-serif",
-                fontWeight: 600,
-            },
-        });
-    };
+        const error = (message: ReactNode) => {
+            toast.error(message, {
+                ...baseOptions,
+                style: {
+                    background: mode === 'dark' ? '#B71C1C' : '#E53935', // Dark red / Medium red
+                    color: '#FFFFFF',
+                    fontFamily: "'Poppins', sans-serif",
+                    fontWeight: 600,
+                },
+            });
+        };
 
-    return { success, error };
+        const apiError = (message: string, failure: ApiFailure) => {
+            if (failure.aborted) return;
+            const details = errorMessages(failure);
+            if (!details.length) {
+                error(message);
+                return;
+            }
+            error(
+                <div>
+                    <div>{message}</div>
+                    <ul style={{ margin: '4px 0 0', paddingLeft: 18, fontWeight: 400 }}>
+                        {details.map((d, i) => (
+                            <li key={i}>{d}</li>
+                        ))}
+                    </ul>
+                    {failure.requestId && (
+                        <div style={{ fontSize: '0.75em', fontWeight: 400, opacity: 0.8 }}>
+                            Request ID: {failure.requestId}
+                        </div>
+                    )}
+                </div>,
+            );
+        };
+
+        return { success, error, apiError };
+    }, [mode]);
 };
 
 export const AppToastContainer = ToastContainer;
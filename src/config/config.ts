@@ -5,6 +5,15 @@ interface AppConfig {
     accessTokenKey: string;
     refreshTokenKey: string;
     currentOrganizationSlugKey: string;
+    apiRetryAttempts: number;
+    apiRetryBaseDelayMs: number;
+    apiRetryMaxDelayMs: number;
+    mockApi: boolean;
+    sessionReturnToKey: string;
+    sessionExpiryWarningMs: number;
+    identityProvidersUrl: string;
+    oidcLoginStateKey: string;
+    rolePreviewKey: string;
 }
 
 const config: AppConfig = {
@@ -15,6 +24,15 @@ const config: AppConfig = {
     refreshTokenKey: import.meta.env.VITE_REFRESH_TOKEN_KEY ?? 'refreshToken',
     currentOrganizationSlugKey:
         import.meta.env.VITE_CURRENT_ORGANIZATION_SLUG_KEY ?? 'currentOrganizationSlugKey',
+    apiRetryAttempts: Number(import.meta.env.VITE_API_RETRY_ATTEMPTS ?? 4),
+    apiRetryBaseDelayMs: Number(import.meta.env.VITE_API_RETRY_BASE_DELAY_MS ?? 500),
+    apiRetryMaxDelayMs: Number(import.meta.env.VITE_API_RETRY_MAX_DELAY_MS ?? 10000),
+    mockApi: import.meta.env.VITE_MOCK_API === 'true',
+    sessionReturnToKey: import.meta.env.VITE_SESSION_RETURN_TO_KEY ?? 'sessionReturnTo',
+    sessionExpiryWarningMs: Number(import.meta.env.VITE_SESSION_EXPIRY_WARNING_MS ?? 3 * 60 * 1000),
+    identityProvidersUrl: import.meta.env.VITE_IDENTITY_PROVIDERS_URL ?? '/identity-providers.json',
+    oidcLoginStateKey: import.meta.env.VITE_OIDC_LOGIN_STATE_KEY ?? 'oidcLoginState',
+    rolePreviewKey: import.meta.env.VITE_ROLE_PREVIEW_KEY ?? 'rolePreview',
 };
 
 export default config;
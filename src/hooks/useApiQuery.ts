@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { QueryCache, QueryKey } from '../common/queryCache.ts';
+import { ApiFailure, ApiResult } from '../common/result.ts';
+
+export interface ApiQueryState<T> {
+    data: T | null;
+    failure: ApiFailure | null;
+    loading: boolean;
+    reload: () => void;
+}
+
+/**
+ * Reads a cached `ApiClient` query and re-renders whenever the cache entry changes, e.g.
+ * after a background revalidation or a mutation that wrote the entry. Pass `null` as the
+ * key to skip the query.
+ */
+export const useApiQuery = <T>(
+    key: QueryKey | null,
+    fetcher: (signal: AbortSignal) => Promise<ApiResult<T>>,
+): ApiQueryState<T> => {
+    const hash = key ? JSON.stringify(key) : null;
+    const keyRef = useRef(key);
+    keyRef.current = key;
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    const [failure, setFailure] = useState<ApiFailure | null>(null);
+    const [pending, setPending] = useState(false);
+    const [generation, setGeneration] = useState(0);
+
+    const subscribe = useCallback(
+        (listener: () => void) =>
+            hash ? QueryCache.subscribe(JSON.parse(hash), listener) : () => undefined,
+        [hash],
+    );
+    const snapshot = useSyncExternalStore(subscribe, () =>
+        keyRef.current ? QueryCache.peek<T>(keyRef.current) : null,
+    );
+
+    useEffect(() => {
+        if (!hash) return undefined;
+        const controller = new AbortController();
+        setPending(true);
+        fetcherRef.current(controller.signal).then((res) => {
+            if (controller.signal.aborted) return;
+            setFailure(res.ok ? null : res);
+            setPending(false);
+        });
+        return () => controller.abort();
+    }, [hash, generation]);
+
+    const reload = useCallback(() => {
+        if (keyRef.current) QueryCache.invalidate(keyRef.current);
+        setGeneration((g) => g + 1);
+    }, []);
+
+    return {
+        data: snapshot?.value ?? null,
+        failure,
+        loading: !snapshot && pending,
+        reload,
+    };
+};
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import config from '../config/config';
+import { SessionManager } from '../auth/session.ts';
+import { RolePreviewStore } from '../auth/rolePreview.ts';
+import { can } from '../auth/capabilities.ts';
+import { useOrgSlug } from './useOrgSlug.ts';
+
+const readToken = () => localStorage.getItem(config.accessTokenKey);
+
+/**
+ * Capability checker that re-renders the caller whenever the session's tokens, the org or
+ * the role preview change. The returned function itself never changes, so check during
+ * render rather than caching results in `useMemo`.
+ */
+export const useCan = () => {
+    useSyncExternalStore(SessionManager.subscribe, readToken);
+    useSyncExternalStore(RolePreviewStore.subscribe, RolePreviewStore.get);
+    useOrgSlug();
+    return can;
+};
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Returns a runner that aborts whatever it started before and resolves late results
+ * to `null`, so a slow earlier response can never overwrite a newer one.
+ */
+export const useLatestRequest = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    return useCallback(async <R>(task: (signal: AbortSignal) => Promise<R>): Promise<R | null> => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        const result = await task(controller.signal);
+
+        if (controller.signal.aborted || controllerRef.current !== controller) return null;
+        return result;
+    }, []);
+};
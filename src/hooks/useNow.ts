@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** Current time in epoch milliseconds, refreshed every `intervalMs` to drive countdowns. */
+export const useNow = (intervalMs = 60 * 1000): number => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), intervalMs);
+        return () => clearInterval(timer);
+    }, [intervalMs]);
+
+    return now;
+};
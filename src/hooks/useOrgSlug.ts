@@ -0,0 +1,8 @@
+import { useMatch } from 'react-router-dom';
+import config from '../config/config';
+
+/** Slug from the `/o/:orgSlug` route, falling back to the organization the user last worked in. */
+export const useOrgSlug = (): string => {
+    const match = useMatch('/o/:orgSlug/*');
+    return match?.params.orgSlug ?? localStorage.getItem(config.currentOrganizationSlugKey) ?? '';
+};
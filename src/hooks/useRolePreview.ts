@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { RolePreview, RolePreviewStore } from '../auth/rolePreview.ts';
+import { useOrgSlug } from './useOrgSlug.ts';
+
+/** The member being previewed in the current organization, or `null` outside a preview. */
+export const useRolePreview = (): RolePreview | null => {
+    const preview = useSyncExternalStore(RolePreviewStore.subscribe, RolePreviewStore.get);
+    const slug = useOrgSlug();
+    return preview && preview.access.slug === slug ? preview : null;
+};
@@ -1,24 +1,28 @@
 import Sidebar from '../components/Sidebar';
+import SessionExpiryDialog from '../components/SessionExpiryDialog.tsx';
 import { AppBar, Box, IconButton, Switch, Toolbar, Typography } from '@mui/material';
 import Brightness7Icon from '@mui/icons-material/Brightness7';
 import Brightness4Icon from '@mui/icons-material/Brightness4';
-import { Route, Routes } from 'react-router-dom';
+import { Outlet, Route, Routes } from 'react-router-dom';
 import UrlsPage from '../pages/UrlsPage';
-import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import { Dispatch, SetStateAction } from 'react';
 import NotFoundPage from '../pages/NotFoundPage.tsx';
 import UserInfoPage from '../pages/UserInfoPage.tsx';
-import { UserInfoDto } from '../model/users.ts';
+import ApiTokensPage from '../pages/ApiTokensPage.tsx';
+import AdminOverviewPage from '../pages/AdminOverviewPage.tsx';
+import AdminUsersPage from '../pages/AdminUsersPage.tsx';
+import AdminOrganizationsPage from '../pages/AdminOrganizationsPage.tsx';
+import AdminOrganizationPage from '../pages/AdminOrganizationPage.tsx';
+import RequireSystemAdmin from '../components/RequireSystemAdmin.tsx';
+import RolePreviewBanner from '../components/RolePreviewBanner.tsx';
 import OrganizationSettingsPage from '../pages/OrganizationSettingsPage.tsx';
-import { OrganizationDto, OrganizationsListDto } from '../model/organizations.ts';
-import config from '../config/config.ts';
-import { ApiClient } from '../common/api.ts';
-import { ErrorResponseElement } from '../model/common.ts';
-import * as _ from 'lodash';
 import OrganizationMembersPage from '../pages/OrganizationMembersPage.tsx';
 import ShortUrlStatsPage from '../pages/ShortUrlStatsPage.tsx';
-import { hasRole } from '../auth/auth.ts';
-import { MemberRole } from '../model/auth.ts';
-import { useAppToast } from '../components/toast.tsx';
+import RequireCapability from '../components/RequireCapability.tsx';
+import OrganizationScope from '../components/OrganizationScope.tsx';
+import LastOrganizationRedirect from '../components/LastOrganizationRedirect.tsx';
+import { setCurrentOrganizationSlug } from '../auth/auth.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
 
 export interface AuthenticatedLayoutProps {
     darkMode: boolean;
@@ -26,38 +30,8 @@ export interface AuthenticatedLayoutProps {
 }
 
 const AuthenticatedLayout = ({ darkMode, setDarkMode }: AuthenticatedLayoutProps) => {
-    const [user, setUser] = useState<UserInfoDto | null>(null);
-    const [currentOrg, setCurrentOrg] = useState<OrganizationDto | null>(null);
-    const [organizations, setOrganizations] = useState<OrganizationDto[] | null>(null);
-
-    const { error } = useAppToast();
-
-    useEffect(() => {
-        (async () => {
-            const slug = localStorage.getItem(config.currentOrganizationSlugKey)!;
-            const res: OrganizationDto | ErrorResponseElement =
-                await ApiClient.getOrganizationBySlug(slug);
-
-            if (_.has(res, 'errorType')) {
-                error('Could not get current organization info');
-                return;
-            }
-
-            const payload: OrganizationDto = res as OrganizationDto;
-            setCurrentOrg(payload);
-        })();
-
-        (async () => {
-            const res: OrganizationsListDto | ErrorResponseElement =
-                await ApiClient.getUserOrganizations({ q: 10000 });
-            if (_.has(res, 'errorType')) {
-                error("Could not get participating organizations' info");
-                return;
-            }
-            const { entries }: OrganizationsListDto = res as OrganizationsListDto;
-            setOrganizations(entries);
-        })();
-    }, [setCurrentOrg, setOrganizations]);
+    // Set before rendering the sidebar and pages so every permission check sees the route's org.
+    setCurrentOrganizationSlug(useOrgSlug());
 
     return (
         <Box
@@ -69,7 +43,8 @@ const AuthenticatedLayout = ({ darkMode, setDarkMode }: AuthenticatedLayoutProps
                 display: 'flex',
             }}
         >
-            <Sidebar user={user} setUser={setUser} org={currentOrg} orgs={organizations} />
+            <Sidebar />
+            <SessionExpiryDialog />
 
             <Box
                 component="main"
@@ -96,6 +71,7 @@ const AuthenticatedLayout = ({ darkMode, setDarkMode }: AuthenticatedLayoutProps
                         />
                     </Toolbar>
                 </AppBar>
+                <RolePreviewBanner />
 
                 <Box
                     sx={{
@@ -104,31 +80,59 @@ const AuthenticatedLayout = ({ darkMode, setDarkMode }: AuthenticatedLayoutProps
                     }}
                 >
                     <Routes>
-                        <Route path={'/urls'} element={<UrlsPage />} />
-                        {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                            hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-                            hasRole(MemberRole.ORGANIZATION_URLS_MANAGER)) && (
-                            <Route path={'/urls/:urlId'} element={<ShortUrlStatsPage />} />
-                        )}
-                        <Route path={'/members'} element={<OrganizationMembersPage />} />
-                        {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                            hasRole(MemberRole.ORGANIZATION_MANAGER) ||
-                            hasRole(MemberRole.ORGANIZATION_ADMIN)) && (
+                        <Route path={'/o/:orgSlug'} element={<OrganizationScope />}>
+                            <Route path={'urls'} element={<UrlsPage />} />
+                            <Route
+                                path={'urls/:urlId'}
+                                element={
+                                    <RequireCapability
+                                        capability="url.viewStats"
+                                        urlIdParam="urlId"
+                                    >
+                                        <ShortUrlStatsPage />
+                                    </RequireCapability>
+                                }
+                            />
+                            <Route
+                                path={'members'}
+                                element={
+                                    <RequireCapability capability="member.view">
+                                        <OrganizationMembersPage />
+                                    </RequireCapability>
+                                }
+                            />
                             <Route
-                                path={'/organization'}
+                                path={'organization'}
                                 element={
-                                    <OrganizationSettingsPage
-                                        org={currentOrg}
-                                        setOrg={setCurrentOrg}
-                                        setOrgs={setOrganizations}
-                                    />
+                                    <RequireCapability capability="org.edit">
+                                        <OrganizationSettingsPage />
+                                    </RequireCapability>
                                 }
                             />
-                        )}
+                            <Route path="*" element={<NotFoundPage />} />
+                        </Route>
+                        <Route path={'/urls/*'} element={<LastOrganizationRedirect />} />
+                        <Route path={'/members'} element={<LastOrganizationRedirect />} />
+                        <Route path={'/organization'} element={<LastOrganizationRedirect />} />
+                        <Route path={'/account'} element={<UserInfoPage />} />
+                        <Route path={'/account/tokens'} element={<ApiTokensPage />} />
                         <Route
-                            path={'/account'}
-                            element={<UserInfoPage user={user} setUser={setUser} />}
-                        />
+                            path={'/admin'}
+                            element={
+                                <RequireSystemAdmin>
+                                    <Outlet />
+                                </RequireSystemAdmin>
+                            }
+                        >
+                            <Route index element={<AdminOverviewPage />} />
+                            <Route path={'users'} element={<AdminUsersPage />} />
+                            <Route path={'organizations'} element={<AdminOrganizationsPage />} />
+                            <Route
+                                path={'organizations/:orgSlug'}
+                                element={<AdminOrganizationPage />}
+                            />
+                            <Route path="*" element={<NotFoundPage />} />
+                        </Route>
                         <Route path="*" element={<NotFoundPage />} />
                     </Routes>
                 </Box>
@@ -3,11 +3,19 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import 'normalize.css';
 import { BrowserRouter } from 'react-router-dom';
+import config from './config/config.ts';
 
-createRoot(document.getElementById('root')!).render(
-    <StrictMode>
-        <BrowserRouter>
-            <App />
-        </BrowserRouter>
-    </StrictMode>,
-);
+const render = () =>
+    createRoot(document.getElementById('root')!).render(
+        <StrictMode>
+            <BrowserRouter>
+                <App />
+            </BrowserRouter>
+        </StrictMode>,
+    );
+
+if (config.mockApi) {
+    import('./mock/index.ts').then(({ installMockApi }) => installMockApi()).then(render);
+} else {
+    render();
+}
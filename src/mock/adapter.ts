@@ -0,0 +1,130 @@
+import {
+    AxiosAdapter,
+    AxiosError,
+    AxiosHeaders,
+    AxiosResponse,
+    CanceledError,
+    InternalAxiosRequestConfig,
+} from 'axios';
+import config from '../config/config';
+import { ErrorResponseDto, ServiceErrorType } from '../model/common.ts';
+import { API_ROUTES, AUTH_ROUTES, MockApiError, MockResponse, resolveRoute } from './routes.ts';
+import { persistDb } from './store.ts';
+
+const MIN_LATENCY_MS = 120;
+const MAX_LATENCY_MS = 450;
+
+let requestCounter = 0;
+
+const latency = (signal?: InternalAxiosRequestConfig['signal']): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(
+            resolve,
+            MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS),
+        );
+        signal?.addEventListener?.('abort', () => {
+            clearTimeout(timer);
+            reject(new CanceledError());
+        });
+    });
+
+const errorResponse = (
+    status: number,
+    errorType: ServiceErrorType,
+    message: string,
+): MockResponse => ({
+    status,
+    data: {
+        errors: [{ errorType, errorClass: 'MockApiError', errorMessage: message }],
+    } satisfies ErrorResponseDto,
+});
+
+const splitUrl = (cfg: InternalAxiosRequestConfig) => {
+    const raw = cfg.url ?? '';
+    const full = /^https?:\/\//.test(raw) ? raw : `${cfg.baseURL ?? ''}${raw}`;
+    const [withoutQuery, search] = full.split('?');
+    const query: Record<string, unknown> = {
+        ...Object.fromEntries(new URLSearchParams(search ?? '')),
+        ...(cfg.params ?? {}),
+    };
+
+    if (withoutQuery.startsWith(config.authApiBase)) {
+        return { table: AUTH_ROUTES, path: withoutQuery.slice(config.authApiBase.length), query };
+    }
+    if (withoutQuery.startsWith(config.apiBase)) {
+        return { table: API_ROUTES, path: withoutQuery.slice(config.apiBase.length), query };
+    }
+    return { table: null, path: withoutQuery, query };
+};
+
+const parseData = (data: unknown): unknown => {
+    if (typeof data !== 'string') return data ?? null;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+};
+
+const handle = async (cfg: InternalAxiosRequestConfig, method: string): Promise<MockResponse> => {
+    const { table, path, query } = splitUrl(cfg);
+    const route = table && resolveRoute(table, method, path);
+    if (!route) {
+        return errorResponse(
+            404,
+            ServiceErrorType.ENTITY_NOT_FOUND,
+            `No mock for ${method} ${path}`,
+        );
+    }
+
+    const authorization = AxiosHeaders.from(cfg.headers).get('Authorization');
+    try {
+        return await route.handler({
+            method,
+            params: route.params,
+            query,
+            body: parseData(cfg.data),
+            authorization: typeof authorization === 'string' ? authorization : null,
+        });
+    } catch (err) {
+        if (err instanceof MockApiError)
+            return errorResponse(err.status, err.errorType, err.message);
+        console.error('[mock api] handler failed', err);
+        return errorResponse(500, ServiceErrorType.INTERNAL_ERROR, 'Mock handler failed');
+    }
+};
+
+/**
+ * Axios adapter that answers every request from the in-browser mock store instead of the
+ * network, including simulated latency, request ids and the backend's error envelope.
+ */
+export const mockAdapter: AxiosAdapter = async (cfg) => {
+    await latency(cfg.signal);
+
+    const method = (cfg.method ?? 'get').toUpperCase();
+    const { status, data } = await handle(cfg, method);
+    if (method !== 'GET' && status < 400) await persistDb();
+
+    const response: AxiosResponse = {
+        data: JSON.parse(JSON.stringify(data)),
+        status,
+        statusText: String(status),
+        headers: new AxiosHeaders({
+            'content-type': 'application/json',
+            'x-request-id': `mock-${++requestCounter}`,
+        }),
+        config: cfg,
+        request: {},
+    };
+
+    const validateStatus = cfg.validateStatus ?? ((s: number) => s >= 200 && s < 300);
+    if (validateStatus(status)) return response;
+
+    throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        cfg,
+        response.request,
+        response,
+    );
+};
@@ -0,0 +1,16 @@
+import axios from 'axios';
+import { mockAdapter } from './adapter.ts';
+import { loadDb, MOCK_PASSWORD, resetDb } from './store.ts';
+
+/**
+ * Routes every axios request to the in-browser mock backend. The store is restored from
+ * IndexedDB first; call `window.mockApi.reset()` from the console to start over.
+ */
+export const installMockApi = async () => {
+    await loadDb();
+    axios.defaults.adapter = mockAdapter;
+    Object.assign(window, { mockApi: { reset: resetDb } });
+    console.info(
+        `[mock api] enabled, sign in as alice@example.com / ${MOCK_PASSWORD} (or bob, carol, dave)`,
+    );
+};
@@ -0,0 +1,1644 @@
+import { z } from 'zod';
+import { JwtUserSubject, MemberRole, TokenResponseDto, UserSystemRole } from '../model/auth.ts';
+import { PagedResponse, ServiceErrorType } from '../model/common.ts';
+import {
+    ApiTokenDto,
+    ApiTokenScope,
+    createApiTokenSchema,
+    CreatedApiTokenDto,
+} from '../model/apiTokens.ts';
+import {
+    createOrganizationSchema,
+    OrganizationDto,
+    OrganizationType,
+    updateOrganizationAvatarSchema,
+    updateOrganizationInfoSchema,
+} from '../model/organizations.ts';
+import {
+    inviteMemberSchema,
+    OrganizationMemberDto,
+    updateMemberRolesSchema,
+    updateMemberUrlsSchema,
+} from '../model/organizationMembers.ts';
+import { aliasPolicySchema } from '../common/aliasPolicy.ts';
+import {
+    AliasAvailabilityDto,
+    changeUrlStateSchema,
+    CreatedShortUrlDto,
+    createShortUrlDtoSchema,
+    EXPIRING_SOON_DAYS,
+    ShortUrlDto,
+    ShortUrlState,
+    ShortUrlType,
+    updateShortUrlSchema,
+} from '../model/urls.ts';
+import { GlobalStatisticsDto, PeriodCountDto, StatsPeriod } from '../model/statistics.ts';
+import {
+    AdminOrganizationDto,
+    AdminUserDto,
+    PlatformStatsDto,
+    updateUserLockSchema,
+} from '../model/admin.ts';
+import {
+    updateUserInfoSchema,
+    updateUserProfilePictureSchema,
+    UserInfoDto,
+    UserSessionDto,
+    userLoginSchema,
+    oidcLoginSchema,
+    totpCodeSchema,
+    changePasswordSchema,
+    deleteAccountSchema,
+    twoFactorLoginSchema,
+    TwoFactorChallengeDto,
+    userSignupSchema,
+} from '../model/users.ts';
+import {
+    db,
+    MOCK_SHORT_URL_BASE,
+    MockApiToken,
+    MockMember,
+    MockOrganization,
+    MockSession,
+    MockShortUrl,
+    MockUser,
+    nextId,
+    randomCode,
+    seededRandom,
+} from './store.ts';
+import { decodeAccessToken, decodeRefreshToken, issueTokens } from './tokens.ts';
+import { generateTotpSecret, totpUri, verifyTotp } from './totp.ts';
+
+export interface MockRequest {
+    method: string;
+    params: Record<string, string>;
+    query: Record<string, unknown>;
+    body: unknown;
+    authorization: string | null;
+}
+
+export interface MockResponse {
+    status: number;
+    data: unknown;
+}
+
+type Handler = (req: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: Handler;
+}
+
+export class MockApiError extends Error {
+    readonly status: number;
+    readonly errorType: ServiceErrorType;
+
+    constructor(status: number, errorType: ServiceErrorType, message: string) {
+        super(message);
+        this.name = 'MockApiError';
+        this.status = status;
+        this.errorType = errorType;
+    }
+}
+
+const URL_MANAGERS = [
+    MemberRole.ORGANIZATION_OWNER,
+    MemberRole.ORGANIZATION_ADMIN,
+    MemberRole.ORGANIZATION_URLS_MANAGER,
+];
+const MEMBER_MANAGERS = [
+    MemberRole.ORGANIZATION_OWNER,
+    MemberRole.ORGANIZATION_ADMIN,
+    MemberRole.ORGANIZATION_MEMBERS_MANAGER,
+];
+const ORGANIZATION_MANAGERS = [
+    MemberRole.ORGANIZATION_OWNER,
+    MemberRole.ORGANIZATION_ADMIN,
+    MemberRole.ORGANIZATION_MANAGER,
+];
+
+const RECOVERY_CODE_TTL_MS = 60 * 60 * 1000;
+const SIGN_IN_CODE_TTL_MS = 15 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+// Pending second-factor logins; kept in memory since they only live for a few minutes.
+const twoFactorChallenges = new Map<string, { userId: number; expiresAt: number }>();
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ok = (payload: unknown, payloadType: string, status = 200): MockResponse => ({
+    status,
+    data: { payload, payloadType },
+});
+
+const message = (text: string): MockResponse => ok({ message: text }, 'MessageResponseDto');
+
+const fail = (status: number, errorType: ServiceErrorType, text: string): never => {
+    throw new MockApiError(status, errorType, text);
+};
+
+const denied = (): never =>
+    fail(403, ServiceErrorType.ACCESS_DENIED, 'You are not allowed to perform this action');
+
+const parseBody = <S extends z.ZodTypeAny>(schema: S, body: unknown): z.output<S> => {
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return fail(
+            400,
+            ServiceErrorType.FORM_VALIDATION_FAILED,
+            `${issue.path.join('.') || 'body'}: ${issue.message}`,
+        );
+    }
+    return parsed.data;
+};
+
+const listParam = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String);
+    if (typeof value === 'string' && value) return value.split(',');
+    return [];
+};
+
+const numberParam = (value: unknown, fallback: number): number => {
+    const n = Number(value);
+    return value === undefined || value === null || Number.isNaN(n) ? fallback : n;
+};
+
+const paginate = <T>(
+    items: T[],
+    query: Record<string, unknown>,
+): PagedResponse & { entries: T[] } => {
+    const page = Math.max(0, numberParam(query.p, 0));
+    const perPage = Math.max(1, numberParam(query.q, 10));
+    const start = page * perPage;
+    return {
+        entries: items.slice(start, start + perPage),
+        total: items.length,
+        hasMore: start + perPage < items.length,
+        page,
+        perPage,
+    };
+};
+
+const sortBy = <T>(
+    items: T[],
+    query: Record<string, unknown>,
+    fields: Record<string, (item: T) => string | number>,
+    fallback: string,
+): T[] => {
+    const field = typeof query.sb === 'string' && query.sb ? query.sb : fallback;
+    const read = fields[field];
+    if (!read) {
+        return fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, `Cannot sort by "${field}"`);
+    }
+    const direction = String(query.dir ?? 'asc').toLowerCase() === 'desc' ? -1 : 1;
+    return [...items].sort((a, b) => {
+        const x = read(a);
+        const y = read(b);
+        const order =
+            typeof x === 'number' && typeof y === 'number'
+                ? x - y
+                : String(x).localeCompare(String(y), undefined, { sensitivity: 'base' });
+        return order * direction;
+    });
+};
+
+const fullName = (user: MockUser | undefined): string =>
+    user ? [user.firstname, user.lastname].filter(Boolean).join(' ') : 'Anonymous';
+
+const findUser = (id: number | null): MockUser | undefined => db().users.find((u) => u.id === id);
+
+const subjectFor = (user: MockUser): JwtUserSubject => ({
+    userId: user.id,
+    username: user.email,
+    userSystemRole: user.systemRole,
+    firstname: user.firstname,
+    lastname: user.lastname ?? '',
+    organizations: db()
+        .members.filter((m) => m.userId === user.id)
+        .flatMap((m) => {
+            const org = db().organizations.find((o) => o.id === m.organizationId);
+            return org
+                ? [
+                      {
+                          organizationId: org.id,
+                          slug: org.slug,
+                          allowedUrls: m.allowedUrls,
+                          allowedAllUrls: m.allowedAllUrls,
+                          roles: m.roles,
+                      },
+                  ]
+                : [];
+        }),
+});
+
+/** Blocks sign-in for accounts an admin locked or sent through a forced password reset. */
+const requireActive = (user: MockUser) => {
+    if (user.locked) {
+        fail(403, ServiceErrorType.ACCOUNT_LOCKED, 'This account is locked, contact support');
+    }
+    if (user.passwordResetRequired) {
+        fail(
+            400,
+            ServiceErrorType.PASSWORD_RESET_REQUIRED,
+            'Reset your password with the link sent to your email',
+        );
+    }
+};
+
+const startSession = (user: MockUser): string => {
+    requireActive(user);
+    const now = new Date().toISOString();
+    const session: MockSession = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        userAgent: navigator.userAgent,
+        ipAddress: '127.0.0.1',
+        location: 'Local network',
+        createdAt: now,
+        lastSeenAt: now,
+    };
+    db().sessions.push(session);
+    return session.id;
+};
+
+/** Issues a token pair, by default for a new session as after a login. */
+const tokensFor = (user: MockUser, sessionId: string = startSession(user)): MockResponse =>
+    ok(issueTokens(subjectFor(user), sessionId) satisfies TokenResponseDto, 'TokenResponseDto');
+
+const toUserSession = (session: MockSession, currentId: string | null): UserSessionDto => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    location: session.location,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentId,
+});
+
+/** Ends every sign-in method: accounts with 2FA get a challenge for `/login/2fa` instead. */
+const signInOrChallenge = (user: MockUser): MockResponse => {
+    if (!user.totpSecret) return tokensFor(user);
+    const challengeToken = randomCode(32);
+    twoFactorChallenges.set(challengeToken, {
+        userId: user.id,
+        expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+    });
+    return ok(
+        { twoFactorRequired: true, challengeToken } satisfies TwoFactorChallengeDto,
+        'TwoFactorChallengeDto',
+    );
+};
+
+const toApiToken = (token: MockApiToken): ApiTokenDto => ({
+    id: token.id,
+    name: token.name,
+    organizationSlug: db().organizations.find((o) => o.id === token.organizationId)?.slug ?? '',
+    scopes: token.scopes,
+    tokenPrefix: token.token.slice(0, 9),
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+});
+
+const toUserInfo = (user: MockUser): UserInfoDto => ({
+    id: user.id,
+    firstname: user.firstname,
+    lastname: user.lastname,
+    companyName: user.companyName,
+    email: user.email,
+    profilePictureUrl: user.profilePictureUrl,
+    twoFactorEnabled: !!user.totpSecret,
+});
+
+const toOrganization = (org: MockOrganization): OrganizationDto => ({
+    id: org.id,
+    name: org.name,
+    slug: org.slug,
+    scope: 'SHORTENER_SCOPE',
+    url: org.url,
+    description: org.description,
+    avatarUrl: org.avatarUrl,
+    type: org.type,
+    membersCount: db().members.filter((m) => m.organizationId === org.id).length,
+});
+
+const toAdminUser = (user: MockUser): AdminUserDto => ({
+    id: user.id,
+    email: user.email,
+    firstname: user.firstname,
+    lastname: user.lastname,
+    systemRole: user.systemRole,
+    locked: !!user.locked,
+    passwordResetRequired: !!user.passwordResetRequired,
+    organizationsCount: db().members.filter((m) => m.userId === user.id).length,
+});
+
+const toAdminOrganization = (org: MockOrganization): AdminOrganizationDto => {
+    const owner = db().members.find(
+        (m) => m.organizationId === org.id && m.roles.includes(MemberRole.ORGANIZATION_OWNER),
+    );
+    return {
+        id: org.id,
+        name: org.name,
+        slug: org.slug,
+        type: org.type,
+        ownerEmail: findUser(owner?.userId ?? null)?.email ?? null,
+        membersCount: db().members.filter((m) => m.organizationId === org.id).length,
+        urlsCount: db().urls.filter((u) => u.organizationId === org.id).length,
+    };
+};
+
+const toMember = (member: MockMember): OrganizationMemberDto => {
+    const user = findUser(member.userId);
+    return {
+        id: member.id,
+        organizationId: member.organizationId,
+        fullName: fullName(user),
+        email: user?.email ?? '',
+        roles: member.roles,
+        allowedUrls: member.allowedUrls,
+        allowedAllUrls: member.allowedAllUrls,
+        pictureUrl: user?.profilePictureUrl ?? null,
+    };
+};
+
+const toShortUrl = (url: MockShortUrl): ShortUrlDto => ({
+    id: url.id,
+    creatorName: fullName(findUser(url.creatorId)),
+    originalUrl: url.originalUrl,
+    shortUrl: `${MOCK_SHORT_URL_BASE}/${url.code}`,
+    state: url.state,
+    type: url.type,
+    tags: url.tags,
+    title: url.title ?? null,
+    activateAt: url.activateAt ?? null,
+    expiresAt: url.expiresAt ?? null,
+    maxClicks: url.maxClicks ?? null,
+    clickCount: null,
+});
+
+/**
+ * Applies the time-based schedule the backend runs as a job. The mock records no clicks,
+ * so `maxClicks` is stored and returned but never trips here.
+ */
+const settleSchedule = (url: MockShortUrl): MockShortUrl => {
+    const now = Date.now();
+    if (
+        url.state === ShortUrlState.PENDING &&
+        url.activateAt &&
+        Date.parse(url.activateAt) <= now
+    ) {
+        url.state = ShortUrlState.ACTIVE;
+    }
+    if (
+        (url.state === ShortUrlState.PENDING || url.state === ShortUrlState.ACTIVE) &&
+        url.expiresAt &&
+        Date.parse(url.expiresAt) <= now
+    ) {
+        url.state = ShortUrlState.NOT_ACTIVE;
+    }
+    return url;
+};
+
+const isExpiringSoon = (url: MockShortUrl): boolean =>
+    !!url.expiresAt &&
+    (url.state === ShortUrlState.PENDING || url.state === ShortUrlState.ACTIVE) &&
+    Date.parse(url.expiresAt) - Date.now() <= EXPIRING_SOON_DAYS * 86400000;
+
+const authenticate = (req: MockRequest): MockUser => {
+    if (!req.authorization) {
+        return fail(401, ServiceErrorType.NO_ACCESS_TOKEN_FOUND, 'No access token found');
+    }
+    const decoded = decodeAccessToken(req.authorization.replace(/^Bearer\s+/i, ''));
+    if (decoded.status === 'expired') {
+        return fail(401, ServiceErrorType.ACCESS_TOKEN_EXPIRED, 'Access token has expired');
+    }
+    const user = decoded.status === 'valid' ? findUser(decoded.subject.userId) : undefined;
+    if (!user || decoded.status !== 'valid') {
+        return fail(401, ServiceErrorType.INVALID_ACCESS_TOKEN, 'Access token is invalid');
+    }
+    // Unlike a stateless backend, the mock rejects tokens of revoked sessions right away.
+    const session = db().sessions.find((s) => s.id === decoded.sessionId);
+    if (!session) {
+        return fail(401, ServiceErrorType.INVALID_ACCESS_TOKEN, 'Session was signed out');
+    }
+    session.lastSeenAt = new Date().toISOString();
+    return user;
+};
+
+const sessionOf = (req: MockRequest): string | null => {
+    const decoded = decodeAccessToken((req.authorization ?? '').replace(/^Bearer\s+/i, ''));
+    return decoded.status === 'valid' ? decoded.sessionId : null;
+};
+
+const authenticateAdmin = (req: MockRequest): MockUser => {
+    const user = authenticate(req);
+    return user.systemRole === UserSystemRole.ADMIN ? user : denied();
+};
+
+const matchesSearch = (query: Record<string, unknown>, ...fields: (string | null)[]) => {
+    const search = typeof query.search === 'string' ? query.search.trim().toLowerCase() : '';
+    return !search || fields.some((f) => f?.toLowerCase().includes(search));
+};
+
+const findAdminUser = (rawId: string): MockUser =>
+    findUser(Number(rawId)) ?? fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'User not found');
+
+const findOrganization = (slug: string): MockOrganization =>
+    db().organizations.find((o) => o.slug === slug) ??
+    fail(404, ServiceErrorType.ENTITY_NOT_FOUND, `Organization "${slug}" not found`);
+
+const membership = (user: MockUser, slug: string) => {
+    const org = db().organizations.find((o) => o.slug === slug);
+    if (!org)
+        return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, `Organization "${slug}" not found`);
+    const member = db().members.find((m) => m.organizationId === org.id && m.userId === user.id);
+    return member ? { org, member } : denied();
+};
+
+const requireRole = (member: MockMember, roles: MemberRole[]) => {
+    if (!member.roles.some((r) => roles.includes(r))) denied();
+};
+
+const canSeeUrl = (member: MockMember, url: MockShortUrl): boolean =>
+    member.allowedAllUrls ||
+    member.roles.some((r) => URL_MANAGERS.includes(r)) ||
+    member.allowedUrls.includes(url.id);
+
+const findUrl = (member: MockMember, org: MockOrganization, rawId: string): MockShortUrl => {
+    const url = db().urls.find((u) => u.id === Number(rawId) && u.organizationId === org.id);
+    if (!url) return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'Short URL not found');
+    return canSeeUrl(member, url) ? settleSchedule(url) : denied();
+};
+
+const findMember = (org: MockOrganization, rawId: string): MockMember =>
+    db().members.find((m) => m.id === Number(rawId) && m.organizationId === org.id) ??
+    fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'Member not found');
+
+const requireEmail = (email: string) => {
+    if (!EMAIL_PATTERN.test(email))
+        fail(400, ServiceErrorType.EMAIL_IS_INVALID, 'Email is invalid');
+};
+
+const requireUrl = (value: string) => {
+    try {
+        new URL(value);
+    } catch {
+        fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'originalUrl: Invalid url');
+    }
+};
+
+const aliasTaken = (alias: string): boolean =>
+    db().urls.some((u) => u.code.toLowerCase() === alias.toLowerCase());
+
+const requireAlias = (alias: string) => {
+    const parsed = aliasPolicySchema.safeParse(alias);
+    if (!parsed.success) {
+        fail(
+            400,
+            ServiceErrorType.FORM_VALIDATION_FAILED,
+            `alias: ${parsed.error.issues[0].message}`,
+        );
+    }
+};
+
+/** Validates schedule timestamps; unchanged values of an existing link are not re-checked. */
+const requireSchedule = (
+    activateAt: string | null | undefined,
+    expiresAt: string | null | undefined,
+    current?: MockShortUrl,
+) => {
+    const invalid = (message: string) =>
+        fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, message);
+    const activate = activateAt ? Date.parse(activateAt) : null;
+    const expires = expiresAt ? Date.parse(expiresAt) : null;
+    if (Number.isNaN(activate)) invalid('activateAt: Invalid date');
+    if (Number.isNaN(expires)) invalid('expiresAt: Invalid date');
+    if (expires !== null && expiresAt !== current?.expiresAt && expires <= Date.now()) {
+        invalid('expiresAt: Expiry must be in the future');
+    }
+    if (activate !== null && expires !== null && expires <= activate) {
+        invalid('expiresAt: Expiry must be after activation');
+    }
+    if (
+        current &&
+        current.state !== ShortUrlState.PENDING &&
+        (activateAt ?? null) !== (current.activateAt ?? null)
+    ) {
+        fail(
+            400,
+            ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+            'Activation time can only be changed while the link is pending',
+        );
+    }
+};
+
+const requirePassword = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        fail(
+            400,
+            ServiceErrorType.PASSWORD_IS_NOT_COMPLIANT,
+            `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+        );
+    }
+};
+
+const invalidTwoFactorCode = (): never =>
+    fail(400, ServiceErrorType.TWO_FACTOR_CODE_INVALID, 'The code is not valid');
+
+/** Checks an authenticator code, or burns a recovery code, for a user with 2FA enabled. */
+const verifySecondFactor = async (user: MockUser, code: string, recoveryCode: boolean) => {
+    if (!user.totpSecret) {
+        fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, '2FA is off');
+        return;
+    }
+    if (!recoveryCode) {
+        if (!(await verifyTotp(user.totpSecret, code.trim()))) invalidTwoFactorCode();
+        return;
+    }
+    const normalized = code.trim().toLowerCase();
+    const codes = user.twoFactorRecoveryCodes ?? [];
+    if (!codes.includes(normalized)) invalidTwoFactorCode();
+    user.twoFactorRecoveryCodes = codes.filter((c) => c !== normalized);
+};
+
+const issuePasswordReset = (user: MockUser) => {
+    const code = randomCode(24);
+    db().recoveryCodes.push({
+        code,
+        userId: user.id,
+        expiresAt: Date.now() + RECOVERY_CODE_TTL_MS,
+    });
+    console.info(`[mock api] password reset link: /password-reset/${code}`);
+};
+
+const issueSignInLink = (user: MockUser) => {
+    const code = randomCode(12);
+    db().shortCodes.push({ code, userId: user.id, expiresAt: Date.now() + SIGN_IN_CODE_TTL_MS });
+    console.info(`[mock api] sign-in link for ${user.email}: /auth/code/${code}`);
+};
+
+const consumeCode = (codes: 'recoveryCodes' | 'shortCodes', code: string): MockUser => {
+    const entry = db()[codes].find((c) => c.code === code);
+    if (!entry) return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'Code not found');
+    db()[codes] = db()[codes].filter((c) => c !== entry);
+    if (entry.expiresAt < Date.now()) {
+        return fail(400, ServiceErrorType.SHORT_CODE_EXPIRED, 'The code has expired');
+    }
+    return findUser(entry.userId) ?? fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'User not found');
+};
+
+const uniqueSlug = (base: string): string => {
+    const root =
+        base
+            .toLowerCase()
+            .replace(/[^a-z0-9-]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'org';
+    let slug = root;
+    for (let i = 2; db().organizations.some((o) => o.slug === slug); i++) slug = `${root}-${i}`;
+    return slug;
+};
+
+const COUNTRIES = ['US', 'DE', 'GB', 'FR', 'UA', 'PL', 'CA', 'JP', 'BR', 'IN', 'NL', 'XX'];
+const CITIES = ['New York', 'Berlin', 'London', 'Paris', 'Kyiv', 'Warsaw', 'Toronto', 'Tokyo'];
+
+/** Made-up but stable opening counts of a link, the same on every request. */
+const globalStatsOf = (url: MockShortUrl): GlobalStatisticsDto => {
+    const random = seededRandom(url.id);
+    const pickCounts = (keys: string[]) =>
+        Object.fromEntries(
+            keys
+                .filter(() => url.state !== ShortUrlState.PENDING && random() < 0.5)
+                .map((k) => [k, 1 + Math.floor(random() * 40)]),
+        );
+    return { countryCounts: pickCounts(COUNTRIES), cityCounts: pickCounts(CITIES) };
+};
+
+const clickCountOf = (url: MockShortUrl): number =>
+    Object.values(globalStatsOf(url).countryCounts).reduce((sum, n) => sum + n, 0);
+
+const bucketStarts = (start: Date, end: Date, period: number): Date[] => {
+    const buckets: Date[] = [];
+    const cursor = new Date(start);
+    while (cursor < end && buckets.length < 2000) {
+        buckets.push(new Date(cursor));
+        if (period === StatsPeriod.MONTH) cursor.setMonth(cursor.getMonth() + 1);
+        else cursor.setTime(cursor.getTime() + period * 1000);
+    }
+    return buckets;
+};
+
+/** Click counts are derived from the URL id and bucket so charts stay stable between reloads. */
+const clicksIn = (url: MockShortUrl, bucket: Date, period: number): number => {
+    if (url.state === ShortUrlState.PENDING || bucket.getTime() > Date.now()) return 0;
+    const random = seededRandom(url.id * 100003 + Math.floor(bucket.getTime() / 60000));
+    const scale = Math.max(1, Math.round(Math.log2(period / 30)));
+    return Math.floor(random() * random() * scale * 4);
+};
+
+const formatUtc = (date: Date): string => date.toISOString().slice(0, 19);
+
+const routes: [string, string, Handler][] = [
+    [
+        'POST',
+        '/public/users/signup',
+        (req) => {
+            const dto = parseBody(userSignupSchema, req.body);
+            requireEmail(dto.username);
+            requirePassword(dto.password);
+            if (db().users.some((u) => u.email === dto.username)) {
+                fail(409, ServiceErrorType.ENTITY_ALREADY_EXISTS, 'User already exists');
+            }
+            const user: MockUser = {
+                id: nextId(),
+                email: dto.username,
+                password: dto.password,
+                firstname: dto.firstName,
+                lastname: dto.lastName,
+                companyName: dto.companyName,
+                profilePictureUrl: dto.profilePictureBase64
+                    ? `data:image/jpeg;base64,${dto.profilePictureBase64}`
+                    : null,
+                systemRole: UserSystemRole.USER,
+            };
+            const org: MockOrganization = {
+                id: nextId(),
+                name: dto.firstName,
+                slug: uniqueSlug(dto.username.split('@')[0]),
+                url: dto.siteUrl,
+                description: null,
+                avatarUrl: null,
+                type: OrganizationType.PERMANENT,
+            };
+            db().users.push(user);
+            db().organizations.push(org);
+            db().members.push({
+                id: nextId(),
+                organizationId: org.id,
+                userId: user.id,
+                roles: [MemberRole.ORGANIZATION_OWNER],
+                allowedUrls: [],
+                allowedAllUrls: true,
+            });
+            return tokensFor(user);
+        },
+    ],
+    [
+        'POST',
+        '/public/users/login',
+        (req) => {
+            const dto = parseBody(userLoginSchema, req.body);
+            const user = db().users.find((u) => u.email === dto.username);
+            if (!user || user.password !== dto.password) {
+                return fail(400, ServiceErrorType.LOGIN_FAILED, 'Wrong email or password');
+            }
+            return signInOrChallenge(user);
+        },
+    ],
+    [
+        'POST',
+        '/public/users/login/2fa',
+        async (req) => {
+            const dto = parseBody(twoFactorLoginSchema, req.body);
+            const challenge = twoFactorChallenges.get(dto.challengeToken);
+            if (!challenge || challenge.expiresAt < Date.now()) {
+                twoFactorChallenges.delete(dto.challengeToken);
+                return fail(400, ServiceErrorType.LOGIN_FAILED, 'The sign-in attempt expired');
+            }
+            const user = findUser(challenge.userId);
+            if (!user) return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'User not found');
+            await verifySecondFactor(user, dto.code, dto.recoveryCode);
+            twoFactorChallenges.delete(dto.challengeToken);
+            return tokensFor(user);
+        },
+    ],
+    [
+        'GET',
+        '/public/users/exchange-short-code/:code',
+        (req) => signInOrChallenge(consumeCode('shortCodes', req.params.code)),
+    ],
+    [
+        'GET',
+        '/public/users/refresh-token',
+        (req) => {
+            const decoded = decodeRefreshToken(req.authorization ?? '');
+            if (decoded.status === 'expired') {
+                return fail(
+                    401,
+                    ServiceErrorType.ACCESS_TOKEN_EXPIRED,
+                    'Refresh token has expired',
+                );
+            }
+            const user = decoded.status === 'valid' ? findUser(decoded.subject.userId) : undefined;
+            if (!user || decoded.status !== 'valid') {
+                return fail(401, ServiceErrorType.INVALID_ACCESS_TOKEN, 'Refresh token is invalid');
+            }
+            const session = db().sessions.find((s) => s.id === decoded.sessionId);
+            if (!session) {
+                return fail(401, ServiceErrorType.REFRESH_TOKEN_REVOKED, 'Session was signed out');
+            }
+            session.lastSeenAt = new Date().toISOString();
+            return tokensFor(user, session.id);
+        },
+    ],
+    [
+        'POST',
+        '/public/urls',
+        (req) => {
+            const { originalUrl } = parseBody(
+                createShortUrlDtoSchema.pick({ originalUrl: true }),
+                req.body,
+            );
+            requireUrl(originalUrl);
+            const url: MockShortUrl = {
+                id: nextId(),
+                organizationId: null,
+                creatorId: null,
+                originalUrl,
+                code: randomCode(6),
+                state: ShortUrlState.ACTIVE,
+                type: ShortUrlType.TRIAL,
+                tags: [],
+                createdAt: new Date().toISOString(),
+            };
+            db().urls.push(url);
+            return ok(toShortUrl(url), 'ShortUrlDto', 201);
+        },
+    ],
+
+    ['GET', '/user/users/info', (req) => ok(toUserInfo(authenticate(req)), 'UserInfoDto')],
+    [
+        'GET',
+        '/user/users/sessions',
+        (req) => {
+            const user = authenticate(req);
+            const currentId = sessionOf(req);
+            const sessions = db()
+                .sessions.filter((s) => s.userId === user.id)
+                .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+                .map((s) => toUserSession(s, currentId));
+            return ok(sessions, 'List<UserSessionDto>');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/users/sessions',
+        (req) => {
+            const user = authenticate(req);
+            const currentId = sessionOf(req);
+            db().sessions = db().sessions.filter((s) => s.userId !== user.id || s.id === currentId);
+            return message('Other sessions were signed out');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/users/sessions/:id',
+        (req) => {
+            const user = authenticate(req);
+            const session = db().sessions.find(
+                (s) => s.id === req.params.id && s.userId === user.id,
+            );
+            if (!session) return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'Session not found');
+            db().sessions = db().sessions.filter((s) => s !== session);
+            return message('Session was signed out');
+        },
+    ],
+    [
+        'GET',
+        '/user/users/api-tokens',
+        (req) => {
+            const user = authenticate(req);
+            const tokens = db()
+                .apiTokens.filter((t) => t.userId === user.id)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+                .map(toApiToken);
+            return ok(tokens, 'List<ApiTokenDto>');
+        },
+    ],
+    [
+        'POST',
+        '/user/users/api-tokens',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(createApiTokenSchema, req.body);
+            if (!dto.name.trim() || !dto.scopes.length) {
+                fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'Name and scopes are required');
+            }
+            const { org, member } = membership(user, dto.organizationSlug);
+            if (dto.scopes.includes(ApiTokenScope.URLS_WRITE)) requireRole(member, URL_MANAGERS);
+            if (dto.expiresAt && !(Date.parse(dto.expiresAt) > Date.now())) {
+                fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'expiresAt: Must be in future');
+            }
+            const token: MockApiToken = {
+                id: nextId(),
+                userId: user.id,
+                organizationId: org.id,
+                name: dto.name.trim(),
+                scopes: [...new Set(dto.scopes)],
+                token: `shrt_${randomCode(32)}`,
+                createdAt: new Date().toISOString(),
+                expiresAt: dto.expiresAt,
+                lastUsedAt: null,
+            };
+            db().apiTokens.push(token);
+            return ok(
+                { ...toApiToken(token), token: token.token } satisfies CreatedApiTokenDto,
+                'CreatedApiTokenDto',
+            );
+        },
+    ],
+    [
+        'DELETE',
+        '/user/users/api-tokens/:id',
+        (req) => {
+            const user = authenticate(req);
+            const token = db().apiTokens.find(
+                (t) => t.id === Number(req.params.id) && t.userId === user.id,
+            );
+            if (!token) return fail(404, ServiceErrorType.ENTITY_NOT_FOUND, 'Token not found');
+            db().apiTokens = db().apiTokens.filter((t) => t !== token);
+            return message('Token was revoked');
+        },
+    ],
+    [
+        'PUT',
+        '/user/users/password',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(changePasswordSchema, req.body);
+            if (user.password !== dto.currentPassword) {
+                fail(400, ServiceErrorType.LOGIN_FAILED, 'Current password is wrong');
+            }
+            requirePassword(dto.newPassword);
+            user.password = dto.newPassword;
+            return message('Password was changed');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/users',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(deleteAccountSchema, req.body);
+            if (user.password !== dto.password) {
+                fail(400, ServiceErrorType.LOGIN_FAILED, 'Password is wrong');
+            }
+            const store = db();
+            const owned = store.members
+                .filter(
+                    (m) => m.userId === user.id && m.roles.includes(MemberRole.ORGANIZATION_OWNER),
+                )
+                .map((m) => store.organizations.find((o) => o.id === m.organizationId)!);
+            if (owned.some((o) => o.type !== OrganizationType.PERMANENT)) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    'Transfer or delete the organizations you own first',
+                );
+            }
+            const personal = new Set(owned.map((o) => o.id));
+            store.organizations = store.organizations.filter((o) => !personal.has(o.id));
+            store.members = store.members.filter(
+                (m) => m.userId !== user.id && !personal.has(m.organizationId),
+            );
+            store.urls = store.urls.filter((u) => !personal.has(u.organizationId ?? -1));
+            store.users = store.users.filter((u) => u !== user);
+            store.sessions = store.sessions.filter((s) => s.userId !== user.id);
+            store.apiTokens = store.apiTokens.filter((t) => t.userId !== user.id);
+            return message('Account was deleted');
+        },
+    ],
+    [
+        'POST',
+        '/user/users/2fa/totp',
+        (req) => {
+            const user = authenticate(req);
+            if (user.totpSecret) {
+                fail(409, ServiceErrorType.ENTITY_ALREADY_EXISTS, '2FA is already enabled');
+            }
+            user.pendingTotpSecret = generateTotpSecret();
+            return ok(
+                {
+                    secret: user.pendingTotpSecret,
+                    otpauthUri: totpUri(user.pendingTotpSecret, user.email),
+                },
+                'TotpEnrollmentDto',
+            );
+        },
+    ],
+    [
+        'POST',
+        '/user/users/2fa/totp/confirm',
+        async (req) => {
+            const user = authenticate(req);
+            const { code } = parseBody(totpCodeSchema, req.body);
+            if (!user.pendingTotpSecret) {
+                return fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'Start enrollment first');
+            }
+            if (!(await verifyTotp(user.pendingTotpSecret, code.trim()))) invalidTwoFactorCode();
+            user.totpSecret = user.pendingTotpSecret;
+            user.pendingTotpSecret = null;
+            user.twoFactorRecoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+                randomCode(10).toLowerCase(),
+            );
+            return ok({ recoveryCodes: user.twoFactorRecoveryCodes }, 'RecoveryCodesDto');
+        },
+    ],
+    [
+        'POST',
+        '/user/users/2fa/totp/disable',
+        async (req) => {
+            const user = authenticate(req);
+            const { code } = parseBody(totpCodeSchema, req.body);
+            const isRecoveryCode = !/^\d{6}$/.test(code.trim());
+            await verifySecondFactor(user, code, isRecoveryCode);
+            user.totpSecret = null;
+            user.twoFactorRecoveryCodes = [];
+            return message('Two-factor authentication was disabled');
+        },
+    ],
+    [
+        'PATCH',
+        '/user/users/info',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(updateUserInfoSchema, req.body);
+            if (dto.newEmail && dto.newEmail !== user.email) {
+                requireEmail(dto.newEmail);
+                if (db().users.some((u) => u.email === dto.newEmail)) {
+                    fail(409, ServiceErrorType.ENTITY_ALREADY_EXISTS, 'Email is already taken');
+                }
+                user.email = dto.newEmail;
+            }
+            if (dto.newFirstname) user.firstname = dto.newFirstname;
+            if (dto.newLastname !== null) user.lastname = dto.newLastname || null;
+            if (dto.newCompanyName !== null) user.companyName = dto.newCompanyName || null;
+            return ok(toUserInfo(user), 'UserInfoDto');
+        },
+    ],
+    [
+        'PUT',
+        '/user/users/picture',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(updateUserProfilePictureSchema, req.body);
+            user.profilePictureUrl = `data:image/jpeg;base64,${dto.newProfilePictureBase64}`;
+            return ok(toUserInfo(user), 'UserInfoDto');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/users/picture',
+        (req) => {
+            const user = authenticate(req);
+            user.profilePictureUrl = null;
+            return ok(toUserInfo(user), 'UserInfoDto');
+        },
+    ],
+
+    [
+        'GET',
+        '/user/organizations',
+        (req) => {
+            const user = authenticate(req);
+            const ids = db()
+                .members.filter((m) => m.userId === user.id)
+                .map((m) => m.organizationId);
+            const orgs = db().organizations.filter((o) => ids.includes(o.id));
+            const sorted = sortBy(
+                orgs,
+                req.query,
+                { id: (o) => o.id, name: (o) => o.name, slug: (o) => o.slug },
+                'id',
+            );
+            const page = paginate(sorted, req.query);
+            return ok(
+                { ...page, entries: page.entries.map(toOrganization) },
+                'OrganizationsListDto',
+            );
+        },
+    ],
+    [
+        'POST',
+        '/user/organizations',
+        (req) => {
+            const user = authenticate(req);
+            const dto = parseBody(createOrganizationSchema, req.body);
+            if (!/^[a-z0-9-]+$/.test(dto.slug)) {
+                fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'slug: Invalid slug');
+            }
+            if (db().organizations.some((o) => o.slug === dto.slug)) {
+                fail(409, ServiceErrorType.ENTITY_ALREADY_EXISTS, 'Organization slug is taken');
+            }
+            const org: MockOrganization = {
+                id: nextId(),
+                name: dto.name,
+                slug: dto.slug,
+                url: dto.url,
+                description: dto.description,
+                avatarUrl: dto.avatarBase64 ? `data:image/jpeg;base64,${dto.avatarBase64}` : null,
+                type: OrganizationType.MANUAL,
+            };
+            db().organizations.push(org);
+            db().members.push({
+                id: nextId(),
+                organizationId: org.id,
+                userId: user.id,
+                roles: [MemberRole.ORGANIZATION_OWNER],
+                allowedUrls: [],
+                allowedAllUrls: true,
+            });
+            return tokensFor(user, sessionOf(req)!);
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug',
+        (req) =>
+            ok(
+                toOrganization(membership(authenticate(req), req.params.slug).org),
+                'OrganizationDto',
+            ),
+    ],
+    [
+        'PATCH',
+        '/user/organizations/:slug',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, ORGANIZATION_MANAGERS);
+            const dto = parseBody(updateOrganizationInfoSchema, req.body);
+            if (dto.newName) org.name = dto.newName;
+            if (dto.newDescription !== undefined) org.description = dto.newDescription || null;
+            if (dto.newUrl !== undefined) org.url = dto.newUrl || null;
+            return ok(toOrganization(org), 'OrganizationDto');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/organizations/:slug',
+        (req) => {
+            const user = authenticate(req);
+            const { org, member } = membership(user, req.params.slug);
+            requireRole(member, [MemberRole.ORGANIZATION_OWNER]);
+            if (org.type === OrganizationType.PERMANENT) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    'Personal organizations cannot be deleted',
+                );
+            }
+            const store = db();
+            store.organizations = store.organizations.filter((o) => o !== org);
+            store.members = store.members.filter((m) => m.organizationId !== org.id);
+            store.urls = store.urls.filter((u) => u.organizationId !== org.id);
+            store.apiTokens = store.apiTokens.filter((t) => t.organizationId !== org.id);
+            return tokensFor(user, sessionOf(req)!);
+        },
+    ],
+    [
+        'PUT',
+        '/user/organizations/:slug/avatar',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, ORGANIZATION_MANAGERS);
+            const dto = parseBody(updateOrganizationAvatarSchema, req.body);
+            org.avatarUrl = `data:image/jpeg;base64,${dto.newAvatarBase64}`;
+            return ok(toOrganization(org), 'OrganizationDto');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/organizations/:slug/avatar',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, ORGANIZATION_MANAGERS);
+            org.avatarUrl = null;
+            return ok(toOrganization(org), 'OrganizationDto');
+        },
+    ],
+
+    [
+        'GET',
+        '/user/organizations/:slug/members',
+        (req) => {
+            const { org } = membership(authenticate(req), req.params.slug);
+            const members = db().members.filter((m) => m.organizationId === org.id);
+            const sorted = sortBy(
+                members.map(toMember),
+                req.query,
+                { id: (m) => m.id, name: (m) => m.fullName, email: (m) => m.email },
+                'id',
+            );
+            return ok(paginate(sorted, req.query), 'OrganizationMembersListDto');
+        },
+    ],
+    [
+        'POST',
+        '/user/organizations/:slug/members',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, MEMBER_MANAGERS);
+            const dto = parseBody(inviteMemberSchema, req.body);
+            requireEmail(dto.email);
+            if (dto.roles.includes(MemberRole.ORGANIZATION_OWNER)) denied();
+            let user = db().users.find((u) => u.email === dto.email);
+            if (
+                user &&
+                db().members.some((m) => m.organizationId === org.id && m.userId === user!.id)
+            ) {
+                fail(409, ServiceErrorType.ENTITY_ALREADY_EXISTS, 'User is already a member');
+            }
+            if (!user) {
+                user = {
+                    id: nextId(),
+                    email: dto.email,
+                    password: randomCode(16),
+                    firstname: dto.firstname,
+                    lastname: dto.lastname || null,
+                    companyName: null,
+                    profilePictureUrl: null,
+                    systemRole: UserSystemRole.USER,
+                };
+                db().users.push(user);
+            }
+            db().members.push({
+                id: nextId(),
+                organizationId: org.id,
+                userId: user.id,
+                roles: dto.roles,
+                allowedUrls: dto.allowedUrls,
+                allowedAllUrls: dto.allowedAllUrls,
+            });
+            issueSignInLink(user);
+            return message('Member was invited');
+        },
+    ],
+    [
+        'PUT',
+        '/user/organizations/:slug/members/:memberId/roles',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, MEMBER_MANAGERS);
+            const target = findMember(org, req.params.memberId);
+            const dto = parseBody(updateMemberRolesSchema, req.body);
+            if (
+                target.roles.includes(MemberRole.ORGANIZATION_OWNER) ||
+                dto.newRoles.includes(MemberRole.ORGANIZATION_OWNER)
+            ) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    'Ownership cannot be changed this way',
+                );
+            }
+            target.roles = dto.newRoles.length ? dto.newRoles : [MemberRole.ORGANIZATION_MEMBER];
+            return message('Member roles were updated');
+        },
+    ],
+    [
+        'PUT',
+        '/user/organizations/:slug/members/:memberId/urls',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, URL_MANAGERS);
+            const target = findMember(org, req.params.memberId);
+            const dto = parseBody(updateMemberUrlsSchema, req.body);
+            target.allowedAllUrls = dto.allowedAllUrls;
+            target.allowedUrls = dto.newUrlsIds.filter((id) =>
+                db().urls.some((u) => u.id === id && u.organizationId === org.id),
+            );
+            return message('Member URLs were updated');
+        },
+    ],
+    [
+        'DELETE',
+        '/user/organizations/:slug/members/:memberId',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            const target = findMember(org, req.params.memberId);
+            if (target !== member) requireRole(member, MEMBER_MANAGERS);
+            if (target.roles.includes(MemberRole.ORGANIZATION_OWNER)) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    'The owner cannot be removed',
+                );
+            }
+            db().members = db().members.filter((m) => m !== target);
+            db().apiTokens = db().apiTokens.filter(
+                (t) => t.userId !== target.userId || t.organizationId !== org.id,
+            );
+            return message('Member was removed');
+        },
+    ],
+
+    [
+        'GET',
+        '/user/organizations/:slug/urls/tags',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            const tags = new Set(
+                db()
+                    .urls.filter((u) => u.organizationId === org.id && canSeeUrl(member, u))
+                    .flatMap((u) => u.tags),
+            );
+            return ok([...tags].sort(), 'List');
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug/urls',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            const tags = listParam(req.query.tags);
+            const states = listParam(req.query.s);
+            const types = listParam(req.query.t);
+            const soon = req.query.soon === 'true';
+            const withClicks = req.query.clicks === 'true';
+            const grantee =
+                req.query.mine === 'true'
+                    ? member
+                    : req.query.member
+                      ? findMember(org, String(req.query.member))
+                      : null;
+            const urls = db()
+                .urls.filter((u) => u.organizationId === org.id && canSeeUrl(member, u))
+                .map(settleSchedule)
+                .filter(
+                    (u) =>
+                        (!tags.length || u.tags.some((t) => tags.includes(t))) &&
+                        (!states.length || states.includes(u.state)) &&
+                        (!types.length || types.includes(u.type)) &&
+                        (!soon || isExpiringSoon(u)) &&
+                        (!grantee || grantee.allowedAllUrls || grantee.allowedUrls.includes(u.id)),
+                );
+            const sorted = sortBy(
+                urls.map((u) => ({
+                    ...toShortUrl(u),
+                    clickCount: withClicks ? clickCountOf(u) : null,
+                })),
+                req.query,
+                {
+                    id: (u) => u.id,
+                    originalUrl: (u) => u.originalUrl,
+                    shortUrl: (u) => u.shortUrl,
+                    creatorName: (u) => u.creatorName,
+                    state: (u) => u.state,
+                    type: (u) => u.type,
+                },
+                'id',
+            );
+            return ok(paginate(sorted, req.query), 'ShortUrlsListDto');
+        },
+    ],
+    [
+        'POST',
+        '/user/organizations/:slug/urls',
+        (req) => {
+            const user = authenticate(req);
+            const { org, member } = membership(user, req.params.slug);
+            requireRole(member, URL_MANAGERS);
+            const dto = parseBody(createShortUrlDtoSchema, req.body);
+            requireUrl(dto.originalUrl);
+            if (dto.alias) {
+                requireAlias(dto.alias);
+                if (aliasTaken(dto.alias)) {
+                    fail(
+                        409,
+                        ServiceErrorType.ENTITY_ALREADY_EXISTS,
+                        'This alias is already taken',
+                    );
+                }
+            }
+            requireSchedule(dto.activateAt, dto.expiresAt);
+            const scheduled = !!dto.activateAt && Date.parse(dto.activateAt) > Date.now();
+            const created: MockShortUrl = {
+                id: nextId(),
+                organizationId: org.id,
+                creatorId: user.id,
+                originalUrl: dto.originalUrl,
+                code: dto.alias || randomCode(6),
+                state: scheduled ? ShortUrlState.PENDING : ShortUrlState.ACTIVE,
+                type: ShortUrlType.REGULAR,
+                tags: [...new Set(dto.tags)],
+                activateAt: dto.activateAt ?? null,
+                expiresAt: dto.expiresAt ?? null,
+                maxClicks: dto.maxClicks ?? null,
+                createdAt: new Date().toISOString(),
+            };
+            db().urls.push(created);
+            const payload: CreatedShortUrlDto = {
+                ...issueTokens(subjectFor(user), sessionOf(req)!),
+                shortUrl: toShortUrl(created),
+            };
+            return ok(payload, 'CreatedShortUrlDto');
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug/urls/aliases/:alias',
+        (req) => {
+            const { member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, URL_MANAGERS);
+            const { alias } = req.params;
+            requireAlias(alias);
+            const availability: AliasAvailabilityDto = {
+                alias,
+                available: !aliasTaken(alias),
+                shortUrl: `${MOCK_SHORT_URL_BASE}/${alias}`,
+            };
+            return ok(availability, 'AliasAvailabilityDto');
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug/urls/:urlId',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            return ok(toShortUrl(findUrl(member, org, req.params.urlId)), 'ShortUrlDto');
+        },
+    ],
+    [
+        'PUT',
+        '/user/organizations/:slug/urls/:urlId',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, URL_MANAGERS);
+            const url = findUrl(member, org, req.params.urlId);
+            const { newState } = parseBody(changeUrlStateSchema, req.body);
+            if (
+                url.state === ShortUrlState.ARCHIVED ||
+                (url.state !== ShortUrlState.PENDING && newState === ShortUrlState.PENDING)
+            ) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    `Cannot change state from ${url.state} to ${newState}`,
+                );
+            }
+            url.state = newState;
+            // A manual state change overrides the parts of the schedule it contradicts.
+            if (newState === ShortUrlState.ACTIVE) {
+                url.activateAt = null;
+                if (url.expiresAt && Date.parse(url.expiresAt) <= Date.now()) url.expiresAt = null;
+            }
+            return ok(toShortUrl(url), 'ShortUrlDto');
+        },
+    ],
+    [
+        'PATCH',
+        '/user/organizations/:slug/urls/:urlId',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            requireRole(member, URL_MANAGERS);
+            const url = findUrl(member, org, req.params.urlId);
+            const dto = parseBody(updateShortUrlSchema, req.body);
+            requireUrl(dto.originalUrl);
+            if (url.state === ShortUrlState.ARCHIVED) {
+                fail(
+                    400,
+                    ServiceErrorType.ORGANIZATION_ACTION_NOT_ALLOWED,
+                    'Archived short URLs cannot be edited',
+                );
+            }
+            requireSchedule(dto.activateAt, dto.expiresAt, url);
+            url.originalUrl = dto.originalUrl;
+            url.tags = [...new Set(dto.tags)];
+            url.title = dto.title?.trim() || null;
+            url.activateAt = dto.activateAt;
+            url.expiresAt = dto.expiresAt;
+            url.maxClicks = dto.maxClicks;
+            return ok(toShortUrl(settleSchedule(url)), 'ShortUrlDto');
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug/urls/:urlId/stats/global',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            const url = findUrl(member, org, req.params.urlId);
+            return ok(globalStatsOf(url), 'GlobalStatisticsDto');
+        },
+    ],
+    [
+        'GET',
+        '/user/organizations/:slug/urls/:urlId/stats/time-range',
+        (req) => {
+            const { org, member } = membership(authenticate(req), req.params.slug);
+            const url = findUrl(member, org, req.params.urlId);
+            const start = new Date(String(req.query.start));
+            const end = new Date(String(req.query.end));
+            const period = numberParam(req.query.period, StatsPeriod.DAY);
+            if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || period <= 0) {
+                fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'Invalid time range');
+            }
+            const counts: PeriodCountDto[] = bucketStarts(start, end, period).map((bucket) => ({
+                timestamp: formatUtc(bucket),
+                count: clicksIn(url, bucket, period),
+            }));
+            return ok({ counts }, 'PeriodCountsDto');
+        },
+    ],
+];
+
+const authRoutes: [string, string, Handler][] = [
+    [
+        'GET',
+        '/admin/stats',
+        (req) => {
+            authenticateAdmin(req);
+            const { users, organizations, urls } = db();
+            const stats: PlatformStatsDto = {
+                users: users.length,
+                lockedUsers: users.filter((u) => u.locked).length,
+                organizations: organizations.length,
+                urls: urls.length,
+                activeUrls: urls.filter((u) => u.state === ShortUrlState.ACTIVE).length,
+            };
+            return ok(stats, 'PlatformStatsDto');
+        },
+    ],
+    [
+        'GET',
+        '/admin/users',
+        (req) => {
+            authenticateAdmin(req);
+            const users = db()
+                .users.filter((u) => matchesSearch(req.query, u.email, fullName(u)))
+                .map(toAdminUser);
+            const sorted = sortBy(
+                users,
+                req.query,
+                { id: (u) => u.id, email: (u) => u.email, firstname: (u) => u.firstname },
+                'id',
+            );
+            return ok(paginate(sorted, req.query), 'AdminUsersListDto');
+        },
+    ],
+    [
+        'PUT',
+        '/admin/users/:userId/lock',
+        (req) => {
+            const admin = authenticateAdmin(req);
+            const user = findAdminUser(req.params.userId);
+            const { locked } = parseBody(updateUserLockSchema, req.body);
+            if (user === admin) {
+                fail(400, ServiceErrorType.FORM_VALIDATION_FAILED, 'You cannot lock yourself');
+            }
+            user.locked = locked;
+            if (locked) db().sessions = db().sessions.filter((s) => s.userId !== user.id);
+            return ok(toAdminUser(user), 'AdminUserDto');
+        },
+    ],
+    [
+        'POST',
+        '/admin/users/:userId/password-reset',
+        (req) => {
+            authenticateAdmin(req);
+            const user = findAdminUser(req.params.userId);
+            user.passwordResetRequired = true;
+            db().sessions = db().sessions.filter((s) => s.userId !== user.id);
+            issuePasswordReset(user);
+            return ok(toAdminUser(user), 'AdminUserDto');
+        },
+    ],
+    [
+        'GET',
+        '/admin/organizations',
+        (req) => {
+            authenticateAdmin(req);
+            const orgs = db()
+                .organizations.filter((o) => matchesSearch(req.query, o.name, o.slug))
+                .map(toAdminOrganization);
+            const sorted = sortBy(
+                orgs,
+                req.query,
+                { id: (o) => o.id, name: (o) => o.name, slug: (o) => o.slug },
+                'id',
+            );
+            return ok(paginate(sorted, req.query), 'AdminOrganizationsListDto');
+        },
+    ],
+    [
+        'GET',
+        '/admin/organizations/:slug',
+        (req) => {
+            authenticateAdmin(req);
+            const org = findOrganization(req.params.slug);
+            return ok(toAdminOrganization(org), 'AdminOrganizationDto');
+        },
+    ],
+    [
+        'GET',
+        '/admin/organizations/:slug/urls',
+        (req) => {
+            authenticateAdmin(req);
+            const org = findOrganization(req.params.slug);
+            const urls = db()
+                .urls.filter((u) => u.organizationId === org.id)
+                .map(toShortUrl);
+            const sorted = sortBy(urls, req.query, { id: (u) => u.id }, 'id');
+            return ok(paginate(sorted, req.query), 'ShortUrlsListDto');
+        },
+    ],
+    [
+        'GET',
+        '/admin/organizations/:slug/members',
+        (req) => {
+            authenticateAdmin(req);
+            const org = findOrganization(req.params.slug);
+            const members = db()
+                .members.filter((m) => m.organizationId === org.id)
+                .map(toMember);
+            const sorted = sortBy(members, req.query, { id: (m) => m.id }, 'id');
+            return ok(paginate(sorted, req.query), 'OrganizationMembersListDto');
+        },
+    ],
+    [
+        'POST',
+        '/public/users/send-reset-password',
+        (req) => {
+            const { email } = parseBody(z.object({ email: z.string() }), req.body);
+            const user = db().users.find((u) => u.email === email);
+            if (user) issuePasswordReset(user);
+            return message('If the account exists, a reset link was sent');
+        },
+    ],
+    [
+        'POST',
+        '/public/users/oidc-login',
+        (req) => {
+            // There is no identity provider to redeem the code with, so a stand-in authorize
+            // endpoint is expected to send a seeded user's email back as the code.
+            const dto = parseBody(oidcLoginSchema, req.body);
+            const user = db().users.find((u) => u.email === dto.code);
+            if (!user || !dto.codeVerifier) {
+                return fail(
+                    400,
+                    ServiceErrorType.LOGIN_FAILED,
+                    'Authorization code was not accepted',
+                );
+            }
+            return signInOrChallenge(user);
+        },
+    ],
+    [
+        'POST',
+        '/public/users/send-sign-in-link',
+        (req) => {
+            const { email } = parseBody(z.object({ email: z.string() }), req.body);
+            const user = db().users.find((u) => u.email === email);
+            if (user) issueSignInLink(user);
+            return message('If the account exists, a sign-in link was sent');
+        },
+    ],
+    [
+        'POST',
+        '/public/users/reset-password',
+        (req) => {
+            const dto = parseBody(
+                z.object({ recoveryCode: z.string(), newPassword: z.string() }),
+                req.body,
+            );
+            requirePassword(dto.newPassword);
+            const user = consumeCode('recoveryCodes', dto.recoveryCode);
+            user.password = dto.newPassword;
+            user.passwordResetRequired = false;
+            return message('Password was reset');
+        },
+    ],
+];
+
+const compile = (defs: [string, string, Handler][]): Route[] =>
+    defs.map(([method, path, handler]) => {
+        const keys: string[] = [];
+        const source = path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+            keys.push(key);
+            return '([^/]+)';
+        });
+        return { method, pattern: new RegExp(`^${source}/?$`), keys, handler };
+    });
+
+export const API_ROUTES = compile(routes);
+export const AUTH_ROUTES = compile(authRoutes);
+
+export const resolveRoute = (
+    table: Route[],
+    method: string,
+    path: string,
+): { handler: Handler; params: Record<string, string> } | null => {
+    for (const route of table) {
+        if (route.method !== method) continue;
+        const found = route.pattern.exec(path);
+        if (!found) continue;
+        const params = Object.fromEntries(
+            route.keys.map((key, i) => [key, decodeURIComponent(found[i + 1])]),
+        );
+        return { handler: route.handler, params };
+    }
+    return null;
+};
@@ -0,0 +1,366 @@
+import { ApiTokenScope } from '../model/apiTokens.ts';
+import { MemberRole, UserSystemRole } from '../model/auth.ts';
+import { OrganizationType } from '../model/organizations.ts';
+import { ShortUrlState, ShortUrlType } from '../model/urls.ts';
+
+export const MOCK_SHORT_URL_BASE = 'https://shrt.mock';
+export const MOCK_PASSWORD = 'password';
+
+const DB_NAME = 'shortener-mock-api';
+const DB_STORE = 'state';
+const DB_KEY = 'db';
+const SCHEMA_VERSION = 4;
+
+export interface MockUser {
+    id: number;
+    email: string;
+    password: string;
+    firstname: string;
+    lastname: string | null;
+    companyName: string | null;
+    profilePictureUrl: string | null;
+    systemRole: UserSystemRole;
+    /** Absent on users persisted before 2FA existed. */
+    totpSecret?: string | null;
+    pendingTotpSecret?: string | null;
+    twoFactorRecoveryCodes?: string[];
+    /** Set by a system admin; absent on users persisted before the admin console existed. */
+    locked?: boolean;
+    passwordResetRequired?: boolean;
+}
+
+export interface MockOrganization {
+    id: number;
+    name: string;
+    slug: string;
+    url: string | null;
+    description: string | null;
+    avatarUrl: string | null;
+    type: OrganizationType;
+}
+
+export interface MockMember {
+    id: number;
+    organizationId: number;
+    userId: number;
+    roles: MemberRole[];
+    allowedUrls: number[];
+    allowedAllUrls: boolean;
+}
+
+export interface MockShortUrl {
+    id: number;
+    organizationId: number | null;
+    creatorId: number | null;
+    originalUrl: string;
+    code: string;
+    state: ShortUrlState;
+    type: ShortUrlType;
+    tags: string[];
+    title?: string | null;
+    activateAt?: string | null;
+    expiresAt?: string | null;
+    maxClicks?: number | null;
+    createdAt: string;
+}
+
+export interface MockCode {
+    code: string;
+    userId: number;
+    expiresAt: number;
+}
+
+export interface MockSession {
+    id: string;
+    userId: number;
+    userAgent: string;
+    ipAddress: string;
+    location: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+}
+
+export interface MockApiToken {
+    id: number;
+    userId: number;
+    organizationId: number;
+    name: string;
+    scopes: ApiTokenScope[];
+    token: string;
+    createdAt: string;
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+}
+
+export interface MockDb {
+    version: number;
+    sequence: number;
+    users: MockUser[];
+    organizations: MockOrganization[];
+    members: MockMember[];
+    urls: MockShortUrl[];
+    recoveryCodes: MockCode[];
+    shortCodes: MockCode[];
+    sessions: MockSession[];
+    apiTokens: MockApiToken[];
+}
+
+/** Small deterministic PRNG so every fresh seed produces the same data set. */
+export const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const CODE_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const randomCode = (length: number, random: () => number = Math.random): string =>
+    Array.from({ length }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join(
+        '',
+    );
+
+const SEED_DOMAINS = [
+    'https://example.com',
+    'https://docs.example.org',
+    'https://blog.acme.test',
+    'https://shop.globex.test',
+    'https://news.ycombinator.com',
+    'https://github.com/acme',
+];
+const SEED_PATHS = [
+    'pricing',
+    'about',
+    'launch-week',
+    'careers',
+    'guides/getting-started',
+    'changelog',
+];
+const SEED_TAGS = ['marketing', 'docs', 'launch', 'social', 'blog', 'internal', 'campaign-q3'];
+const SEED_STATES = [
+    ShortUrlState.ACTIVE,
+    ShortUrlState.ACTIVE,
+    ShortUrlState.ACTIVE,
+    ShortUrlState.PENDING,
+    ShortUrlState.NOT_ACTIVE,
+    ShortUrlState.ARCHIVED,
+];
+
+const seed = (): MockDb => {
+    const random = seededRandom(42);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    const db: MockDb = {
+        version: SCHEMA_VERSION,
+        sequence: 1000,
+        users: [
+            ['Alice', 'Owner', 'alice@example.com', UserSystemRole.ADMIN],
+            ['Bob', 'Builder', 'bob@example.com', UserSystemRole.USER],
+            ['Carol', 'Reader', 'carol@example.com', UserSystemRole.USER],
+            ['Dave', 'Keeper', 'dave@example.com', UserSystemRole.USER],
+        ].map(([firstname, lastname, email, systemRole], i) => ({
+            id: i + 1,
+            email,
+            password: MOCK_PASSWORD,
+            firstname,
+            lastname,
+            companyName: i < 2 ? 'Acme Corp' : null,
+            profilePictureUrl: null,
+            systemRole: systemRole as UserSystemRole,
+        })),
+        organizations: [
+            {
+                id: 1,
+                name: 'Alice',
+                slug: 'alice',
+                url: null,
+                description: 'Personal workspace',
+                avatarUrl: null,
+                type: OrganizationType.PERMANENT,
+            },
+            {
+                id: 2,
+                name: 'Acme Corp',
+                slug: 'acme',
+                url: 'https://acme.test',
+                description: 'Everything a coyote could ever need',
+                avatarUrl: null,
+                type: OrganizationType.MANUAL,
+            },
+            {
+                id: 3,
+                name: 'Globex',
+                slug: 'globex',
+                url: 'https://globex.test',
+                description: null,
+                avatarUrl: null,
+                type: OrganizationType.MANUAL,
+            },
+        ],
+        members: [],
+        urls: [],
+        recoveryCodes: [],
+        shortCodes: [],
+        sessions: [],
+        apiTokens: [],
+    };
+
+    const member = (
+        organizationId: number,
+        userId: number,
+        roles: MemberRole[],
+        allowedAllUrls = true,
+    ) =>
+        db.members.push({
+            id: db.members.length + 1,
+            organizationId,
+            userId,
+            roles,
+            allowedUrls: [],
+            allowedAllUrls,
+        });
+
+    member(1, 1, [MemberRole.ORGANIZATION_OWNER]);
+    member(2, 1, [MemberRole.ORGANIZATION_OWNER]);
+    member(2, 2, [MemberRole.ORGANIZATION_URLS_MANAGER]);
+    member(2, 3, [MemberRole.ORGANIZATION_MEMBER], false);
+    member(2, 4, [MemberRole.ORGANIZATION_MEMBERS_MANAGER, MemberRole.ORGANIZATION_MANAGER]);
+    member(3, 2, [MemberRole.ORGANIZATION_OWNER]);
+    member(3, 1, [MemberRole.ORGANIZATION_MEMBER]);
+
+    const urlsPerOrg: [number, number, number][] = [
+        [1, 1, 6],
+        [2, 1, 45],
+        [3, 2, 12],
+    ];
+    const now = Date.now();
+    urlsPerOrg.forEach(([organizationId, creatorId, count]) => {
+        for (let i = 0; i < count; i++) {
+            const tags = SEED_TAGS.filter(() => random() < 0.25);
+            db.urls.push({
+                id: db.urls.length + 1,
+                organizationId,
+                creatorId: i % 3 === 2 && organizationId === 2 ? 2 : creatorId,
+                originalUrl: `${pick(SEED_DOMAINS)}/${pick(SEED_PATHS)}?ref=${i + 1}`,
+                code: randomCode(6, random),
+                state: pick(SEED_STATES),
+                type: ShortUrlType.REGULAR,
+                tags,
+                createdAt: new Date(now - Math.floor(random() * 90) * 86400000).toISOString(),
+            });
+        }
+    });
+
+    // A few scheduled links so countdowns and the "Expiring soon" filter have data.
+    const inHours = (hours: number) => new Date(now + hours * 3600 * 1000).toISOString();
+    const acme = db.urls.filter((u) => u.organizationId === 2);
+    Object.assign(acme[0], { state: ShortUrlState.PENDING, activateAt: inHours(30) });
+    Object.assign(acme[1], { state: ShortUrlState.ACTIVE, expiresAt: inHours(52) });
+    Object.assign(acme[2], { state: ShortUrlState.ACTIVE, expiresAt: inHours(24 * 20) });
+    Object.assign(acme[3], { state: ShortUrlState.ACTIVE, maxClicks: 500 });
+
+    const carol = db.members.find((m) => m.userId === 3 && m.organizationId === 2)!;
+    carol.allowedUrls = db.urls
+        .filter((u) => u.organizationId === 2)
+        .slice(0, 5)
+        .map((u) => u.id);
+
+    // Other devices of alice's, so the active sessions panel has something to revoke.
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600 * 1000).toISOString();
+    db.sessions.push(
+        {
+            id: 'seed-session-phone',
+            userId: 1,
+            userAgent:
+                'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+            ipAddress: '203.0.113.24',
+            location: 'Kyiv, Ukraine',
+            createdAt: hoursAgo(24 * 12),
+            lastSeenAt: hoursAgo(3),
+        },
+        {
+            id: 'seed-session-laptop',
+            userId: 1,
+            userAgent:
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+            ipAddress: '198.51.100.7',
+            location: 'Berlin, Germany',
+            createdAt: hoursAgo(24 * 40),
+            lastSeenAt: hoursAgo(24 * 6),
+        },
+    );
+
+    db.apiTokens.push({
+        id: 1,
+        userId: 1,
+        organizationId: 2,
+        name: 'CI release links',
+        scopes: [ApiTokenScope.URLS_WRITE, ApiTokenScope.STATS_READ],
+        token: `shrt_${randomCode(32, random)}`,
+        createdAt: hoursAgo(24 * 30),
+        expiresAt: null,
+        lastUsedAt: hoursAgo(20),
+    });
+
+    return db;
+};
+
+let current: MockDb = seed();
+
+export const db = (): MockDb => current;
+
+export const nextId = (): number => ++current.sequence;
+
+const openIdb = (): Promise<IDBDatabase | null> =>
+    new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+    });
+
+const idbRequest = <T>(
+    mode: 'readonly' | 'readwrite',
+    run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T | null> =>
+    openIdb().then(
+        (idb) =>
+            new Promise((resolve) => {
+                if (!idb) {
+                    resolve(null);
+                    return;
+                }
+                const request = run(idb.transaction(DB_STORE, mode).objectStore(DB_STORE));
+                request.onsuccess = () => {
+                    resolve((request.result as T) ?? null);
+                    idb.close();
+                };
+                request.onerror = () => {
+                    resolve(null);
+                    idb.close();
+                };
+            }),
+    );
+
+/** Restores the last persisted state, or keeps the fresh seed when there is none. */
+export const loadDb = async () => {
+    const stored = await idbRequest<MockDb>('readonly', (store) => store.get(DB_KEY));
+    if (stored?.version === SCHEMA_VERSION) current = stored;
+};
+
+export const persistDb = async () => {
+    await idbRequest('readwrite', (store) => store.put(current, DB_KEY));
+};
+
+export const resetDb = async () => {
+    current = seed();
+    await persistDb();
+};
@@ -0,0 +1,84 @@
+import { JwtPayload, JwtUserSubject, TokenResponseDto } from '../model/auth.ts';
+
+const ACCESS_TOKEN_TTL_S = 15 * 60;
+const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60;
+
+interface RefreshSubject {
+    userId: number;
+    type: 'refresh';
+    jti: string;
+}
+
+/** Both tokens carry the id of the session they belong to, so it can be revoked. */
+type SessionJwtPayload = JwtPayload & { sid: string };
+
+const base64UrlEncode = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach((b) => (binary += String.fromCharCode(b)));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlDecode = (value: string): string => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64);
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+const HEADER = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+const sign = (sub: string, ttl: number, sid: string): string => {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: SessionJwtPayload = { iat, exp: iat + ttl, sub, sid };
+    const body = base64UrlEncode(JSON.stringify(payload));
+    // The mock never verifies signatures, it only needs a well-formed third segment.
+    return `${HEADER}.${body}.${base64UrlEncode(`mock-signature-${iat}`)}`;
+};
+
+export type DecodedToken<T> =
+    | { status: 'valid'; subject: T; sessionId: string | null }
+    | { status: 'expired' }
+    | { status: 'invalid' };
+
+export const decodeToken = <T>(token: string): DecodedToken<T> => {
+    try {
+        const [, body] = token.split('.');
+        const payload = JSON.parse(base64UrlDecode(body)) as SessionJwtPayload;
+        if (payload.exp * 1000 < Date.now()) return { status: 'expired' };
+        return {
+            status: 'valid',
+            subject: JSON.parse(payload.sub) as T,
+            sessionId: payload.sid ?? null,
+        };
+    } catch {
+        return { status: 'invalid' };
+    }
+};
+
+export const issueTokens = (subject: JwtUserSubject, sessionId: string): TokenResponseDto => {
+    const refresh: RefreshSubject = {
+        userId: subject.userId,
+        type: 'refresh',
+        jti: crypto.randomUUID(),
+    };
+    return {
+        accessToken: sign(JSON.stringify(subject), ACCESS_TOKEN_TTL_S, sessionId),
+        refreshToken: sign(JSON.stringify(refresh), REFRESH_TOKEN_TTL_S, sessionId),
+    };
+};
+
+export const decodeAccessToken = (token: string): DecodedToken<JwtUserSubject> => {
+    const decoded = decodeToken<JwtUserSubject>(token);
+    if (decoded.status === 'valid' && !Array.isArray(decoded.subject.organizations)) {
+        return { status: 'invalid' };
+    }
+    return decoded;
+};
+
+export const decodeRefreshToken = (token: string): DecodedToken<RefreshSubject> => {
+    const decoded = decodeToken<RefreshSubject>(token);
+    if (decoded.status === 'valid' && decoded.subject.type !== 'refresh') {
+        return { status: 'invalid' };
+    }
+    return decoded;
+};
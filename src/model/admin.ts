@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { UserSystemRole } from './auth.ts';
+import { nullable, pagedResponseSchema } from './common.ts';
+import { OrganizationType } from './organizations.ts';
+
+export interface AdminSearchParams {
+    p?: number;
+    q?: number;
+    /** Case-insensitive match on name, email or slug. */
+    search?: string;
+}
+
+export const platformStatsSchema = z.object({
+    users: z.number(),
+    lockedUsers: z.number(),
+    organizations: z.number(),
+    urls: z.number(),
+    activeUrls: z.number(),
+});
+
+export type PlatformStatsDto = z.infer<typeof platformStatsSchema>;
+
+export const adminUserSchema = z.object({
+    id: z.number(),
+    email: z.string(),
+    firstname: z.string(),
+    lastname: nullable(z.string()),
+    systemRole: z.nativeEnum(UserSystemRole),
+    locked: z.boolean(),
+    passwordResetRequired: z.boolean(),
+    organizationsCount: z.number(),
+});
+
+export type AdminUserDto = z.infer<typeof adminUserSchema>;
+
+export const adminUsersListSchema = pagedResponseSchema.extend({
+    entries: z.array(adminUserSchema),
+});
+
+export type AdminUsersListDto = z.infer<typeof adminUsersListSchema>;
+
+export const adminOrganizationSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    slug: z.string(),
+    type: z.nativeEnum(OrganizationType),
+    ownerEmail: nullable(z.string()),
+    membersCount: z.number(),
+    urlsCount: z.number(),
+});
+
+export type AdminOrganizationDto = z.infer<typeof adminOrganizationSchema>;
+
+export const adminOrganizationsListSchema = pagedResponseSchema.extend({
+    entries: z.array(adminOrganizationSchema),
+});
+
+export type AdminOrganizationsListDto = z.infer<typeof adminOrganizationsListSchema>;
+
+export const updateUserLockSchema = z.object({
+    locked: z.boolean(),
+});
+
+export type UpdateUserLockDto = z.infer<typeof updateUserLockSchema>;
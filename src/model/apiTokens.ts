@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { nullable } from './common.ts';
+
+export enum ApiTokenScope {
+    URLS_READ = 'urls:read',
+    URLS_WRITE = 'urls:write',
+    STATS_READ = 'stats:read',
+}
+
+export const apiTokenSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    organizationSlug: z.string(),
+    scopes: z.array(z.nativeEnum(ApiTokenScope)),
+    /** First characters of the secret, enough to tell tokens apart in logs. */
+    tokenPrefix: z.string(),
+    createdAt: z.string(),
+    expiresAt: nullable(z.string()),
+    lastUsedAt: nullable(z.string()),
+});
+
+export type ApiTokenDto = z.infer<typeof apiTokenSchema>;
+
+export const apiTokensSchema = z.array(apiTokenSchema);
+
+/** Returned once on creation; the secret is never sent again. */
+export const createdApiTokenSchema = apiTokenSchema.extend({
+    token: z.string(),
+});
+
+export type CreatedApiTokenDto = z.infer<typeof createdApiTokenSchema>;
+
+export const createApiTokenSchema = z.object({
+    name: z.string(),
+    organizationSlug: z.string(),
+    scopes: z.array(z.nativeEnum(ApiTokenScope)),
+    expiresAt: nullable(z.string()),
+});
+
+export type CreateApiTokenDto = z.infer<typeof createApiTokenSchema>;
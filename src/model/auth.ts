@@ -1,7 +1,12 @@
-export interface TokenResponseDto {
-    accessToken: string;
-    refreshToken?: string | null;
-}
+import { z } from 'zod';
+import { nullable } from './common.ts';
+
+export const tokenResponseSchema = z.object({
+    accessToken: z.string(),
+    refreshToken: nullable(z.string()).optional(),
+});
+
+export type TokenResponseDto = z.infer<typeof tokenResponseSchema>;
 
 export enum MemberRole {
     ORGANIZATION_OWNER = 'ORGANIZATION_OWNER',
@@ -17,25 +22,31 @@ export enum UserSystemRole {
     ADMIN = 'ADMIN',
 }
 
-export interface OrganizationAccessEntry {
-    organizationId: number;
-    slug: string;
-    allowedUrls: number[];
-    allowedAllUrls: boolean;
-    roles: MemberRole[];
-}
+export const organizationAccessEntrySchema = z.object({
+    organizationId: z.number(),
+    slug: z.string(),
+    allowedUrls: z.array(z.number()),
+    allowedAllUrls: z.boolean(),
+    roles: z.array(z.nativeEnum(MemberRole)),
+});
 
-export interface JwtUserSubject {
-    userId: number;
-    username: string;
-    userSystemRole: UserSystemRole;
-    firstname: string;
-    lastname: string;
-    organizations: OrganizationAccessEntry[];
-}
+export type OrganizationAccessEntry = z.infer<typeof organizationAccessEntrySchema>;
 
-export interface JwtPayload {
-    exp: number;
-    iat: number;
-    sub: string;
-}
+export const jwtUserSubjectSchema = z.object({
+    userId: z.number(),
+    username: z.string(),
+    userSystemRole: z.nativeEnum(UserSystemRole),
+    firstname: z.string(),
+    lastname: z.string(),
+    organizations: z.array(organizationAccessEntrySchema),
+});
+
+export type JwtUserSubject = z.infer<typeof jwtUserSubjectSchema>;
+
+export const jwtPayloadSchema = z.object({
+    exp: z.number(),
+    iat: z.number(),
+    sub: z.string(),
+});
+
+export type JwtPayload = z.infer<typeof jwtPayloadSchema>;
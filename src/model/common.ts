@@ -1,18 +1,31 @@
-export interface PagedResponse {
-    total: number;
-    hasMore: boolean;
-    page: number;
-    perPage: number;
-}
+import { z } from 'zod';
+
+/**
+ * Accepts both `null` and a missing property for optional backend fields and normalises
+ * them to `null`, so the inferred type stays `T | null`.
+ */
+export const nullable = <T extends z.ZodTypeAny>(schema: T) =>
+    schema.nullish().transform((value): z.output<T> | null => value ?? null);
+
+export const pagedResponseSchema = z.object({
+    total: z.number(),
+    hasMore: z.boolean(),
+    page: z.number(),
+    perPage: z.number(),
+});
+
+export type PagedResponse = z.infer<typeof pagedResponseSchema>;
 
 export interface AbstractResponseDto<T> {
     payload: T;
     payloadType: string;
 }
 
-export interface MessageResponseDto {
-    message: string;
-}
+export const messageResponseSchema = z.object({
+    message: z.string(),
+});
+
+export type MessageResponseDto = z.infer<typeof messageResponseSchema>;
 
 export enum ServiceErrorType {
     PLATFORM_ERROR = 'PLATFORM_ERROR',
@@ -30,14 +43,23 @@ export enum ServiceErrorType {
     INTERNAL_ERROR = 'INTERNAL_ERROR',
     PASSWORD_IS_NOT_COMPLIANT = 'PASSWORD_IS_NOT_COMPLIANT',
     SHORT_CODE_EXPIRED = 'SHORT_CODE_EXPIRED',
+    SCHEMA_MISMATCH = 'SCHEMA_MISMATCH',
+    TWO_FACTOR_CODE_INVALID = 'TWO_FACTOR_CODE_INVALID',
+    REFRESH_TOKEN_REVOKED = 'REFRESH_TOKEN_REVOKED',
+    ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+    PASSWORD_RESET_REQUIRED = 'PASSWORD_RESET_REQUIRED',
 }
 
-export interface ErrorResponseElement {
-    errorMessage?: string | null;
-    errorType: ServiceErrorType;
-    errorClass: string;
-}
+export const errorResponseElementSchema = z.object({
+    errorMessage: nullable(z.string()).optional(),
+    errorType: z.nativeEnum(ServiceErrorType),
+    errorClass: z.string(),
+});
 
-export interface ErrorResponseDto {
-    errors: ErrorResponseElement[];
-}
+export type ErrorResponseElement = z.infer<typeof errorResponseElementSchema>;
+
+export const errorResponseSchema = z.object({
+    errors: z.array(errorResponseElementSchema),
+});
+
+export type ErrorResponseDto = z.infer<typeof errorResponseSchema>;
@@ -1,35 +1,46 @@
+import { z } from 'zod';
 import { MemberRole } from './auth.ts';
-import { PagedResponse } from './common.ts';
-
-export interface InviteMemberDto {
-    firstname: string;
-    lastname: string;
-    email: string;
-    allowedAllUrls: boolean;
-    allowedUrls: number[];
-    roles: MemberRole[];
-}
-
-export interface OrganizationMemberDto {
-    id: number;
-    organizationId: number;
-    fullName: string;
-    email: string;
-    roles: MemberRole[];
-    allowedUrls: number[];
-    allowedAllUrls: boolean;
-    pictureUrl?: string | null;
-}
-
-export interface OrganizationMembersListDto extends PagedResponse {
-    entries: OrganizationMemberDto[];
-}
-
-export interface UpdateMemberRolesDto {
-    newRoles: MemberRole[];
-}
-
-export interface UpdateMemberUrlsDto {
-    newUrlsIds: number[];
-    allowedAllUrls: boolean;
-}
+import { nullable, pagedResponseSchema } from './common.ts';
+
+export const inviteMemberSchema = z.object({
+    firstname: z.string(),
+    lastname: z.string(),
+    email: z.string(),
+    allowedAllUrls: z.boolean(),
+    allowedUrls: z.array(z.number()),
+    roles: z.array(z.nativeEnum(MemberRole)),
+});
+
+export type InviteMemberDto = z.infer<typeof inviteMemberSchema>;
+
+export const organizationMemberSchema = z.object({
+    id: z.number(),
+    organizationId: z.number(),
+    fullName: z.string(),
+    email: z.string(),
+    roles: z.array(z.nativeEnum(MemberRole)),
+    allowedUrls: z.array(z.number()),
+    allowedAllUrls: z.boolean(),
+    pictureUrl: nullable(z.string()).optional(),
+});
+
+export type OrganizationMemberDto = z.infer<typeof organizationMemberSchema>;
+
+export const organizationMembersListSchema = pagedResponseSchema.extend({
+    entries: z.array(organizationMemberSchema),
+});
+
+export type OrganizationMembersListDto = z.infer<typeof organizationMembersListSchema>;
+
+export const updateMemberRolesSchema = z.object({
+    newRoles: z.array(z.nativeEnum(MemberRole)),
+});
+
+export type UpdateMemberRolesDto = z.infer<typeof updateMemberRolesSchema>;
+
+export const updateMemberUrlsSchema = z.object({
+    newUrlsIds: z.array(z.number()),
+    allowedAllUrls: z.boolean(),
+});
+
+export type UpdateMemberUrlsDto = z.infer<typeof updateMemberUrlsSchema>;
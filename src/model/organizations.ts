@@ -1,41 +1,52 @@
-import { PagedResponse } from './common.ts';
-
-export interface CreateOrganizationDto {
-    name: string;
-    slug: string;
-    scope: 'SHORTENER_SCOPE';
-    url: string | null;
-    description: string | null;
-    avatarBase64: string | null;
-}
+import { z } from 'zod';
+import { nullable, pagedResponseSchema } from './common.ts';
+
+export const createOrganizationSchema = z.object({
+    name: z.string(),
+    slug: z.string(),
+    scope: z.literal('SHORTENER_SCOPE'),
+    url: z.string().nullable(),
+    description: z.string().nullable(),
+    avatarBase64: z.string().nullable(),
+});
+
+export type CreateOrganizationDto = z.infer<typeof createOrganizationSchema>;
 
 export enum OrganizationType {
     PERMANENT = 'PERMANENT',
     MANUAL = 'MANUAL',
 }
 
-export interface OrganizationDto {
-    id: number;
-    name: string;
-    slug: string;
-    scope: 'SHORTENER_SCOPE';
-    url: string | null;
-    description: string | null;
-    avatarUrl: string | null;
-    type: OrganizationType;
-    membersCount: number;
-}
+export const organizationSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    slug: z.string(),
+    scope: z.literal('SHORTENER_SCOPE'),
+    url: nullable(z.string()),
+    description: nullable(z.string()),
+    avatarUrl: nullable(z.string()),
+    type: z.nativeEnum(OrganizationType),
+    membersCount: z.number(),
+});
 
-export interface OrganizationsListDto extends PagedResponse {
-    entries: OrganizationDto[];
-}
+export type OrganizationDto = z.infer<typeof organizationSchema>;
 
-export interface UpdateOrganizationAvatarDto {
-    newAvatarBase64: string;
-}
+export const organizationsListSchema = pagedResponseSchema.extend({
+    entries: z.array(organizationSchema),
+});
 
-export interface UpdateOrganizationInfoDto {
-    newName?: string | null;
-    newDescription?: string | null;
-    newUrl?: string | null;
-}
+export type OrganizationsListDto = z.infer<typeof organizationsListSchema>;
+
+export const updateOrganizationAvatarSchema = z.object({
+    newAvatarBase64: z.string(),
+});
+
+export type UpdateOrganizationAvatarDto = z.infer<typeof updateOrganizationAvatarSchema>;
+
+export const updateOrganizationInfoSchema = z.object({
+    newName: z.string().nullish(),
+    newDescription: z.string().nullish(),
+    newUrl: z.string().nullish(),
+});
+
+export type UpdateOrganizationInfoDto = z.infer<typeof updateOrganizationInfoSchema>;
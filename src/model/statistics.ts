@@ -1,16 +1,24 @@
-export interface GlobalStatisticsDto {
-    countryCounts: Record<string, number>;
-    cityCounts: Record<string, number>;
-}
+import { z } from 'zod';
 
-export interface PeriodCountDto {
-    timestamp: string;
-    count: number;
-}
+export const globalStatisticsSchema = z.object({
+    countryCounts: z.record(z.string(), z.number()),
+    cityCounts: z.record(z.string(), z.number()),
+});
 
-export interface PeriodCountsDto {
-    counts: PeriodCountDto[];
-}
+export type GlobalStatisticsDto = z.infer<typeof globalStatisticsSchema>;
+
+export const periodCountSchema = z.object({
+    timestamp: z.string(),
+    count: z.number(),
+});
+
+export type PeriodCountDto = z.infer<typeof periodCountSchema>;
+
+export const periodCountsSchema = z.object({
+    counts: z.array(periodCountSchema),
+});
+
+export type PeriodCountsDto = z.infer<typeof periodCountsSchema>;
 
 export enum StatsPeriod {
     MINUTE = 60,
@@ -1,4 +1,6 @@
-import { PagedResponse } from './common.ts';
+import { z } from 'zod';
+import { nullable, pagedResponseSchema } from './common.ts';
+import { tokenResponseSchema } from './auth.ts';
 
 export enum ShortUrlType {
     TRIAL = 'TRIAL',
@@ -12,6 +14,9 @@ export enum ShortUrlState {
     ARCHIVED = 'ARCHIVED',
 }
 
+/** Window of the "Expiring soon" filter. */
+export const EXPIRING_SOON_DAYS = 7;
+
 export interface ShortUrlsSearchParams {
     p?: number;
     q?: number;
@@ -20,27 +25,86 @@ export interface ShortUrlsSearchParams {
     t?: ShortUrlType[];
     sb?: string;
     dir?: string;
+    /** Only links that expire within `EXPIRING_SOON_DAYS`. */
+    soon?: boolean;
+    /** Fill `clickCount` on every entry; aggregating the totals makes the query slower. */
+    clicks?: boolean;
+    /** Only links granted to the caller, for members without access to every link. */
+    mine?: boolean;
+    /** Only links granted to this member, for the role preview. */
+    member?: number;
 }
 
-export interface ShortUrlDto {
-    id: number;
-    creatorName: string;
-    originalUrl: string;
-    shortUrl: string;
-    state: ShortUrlState;
-    type: ShortUrlType;
-    tags: string[];
-}
+export const shortUrlSchema = z.object({
+    id: z.number(),
+    creatorName: z.string(),
+    originalUrl: z.string(),
+    shortUrl: z.string(),
+    state: z.nativeEnum(ShortUrlState),
+    type: z.nativeEnum(ShortUrlType),
+    tags: z.array(z.string()),
+    title: nullable(z.string()),
+    /** While set and in the future the link stays PENDING, then turns ACTIVE. */
+    activateAt: nullable(z.string()),
+    /** The link turns NOT_ACTIVE at this moment or after `maxClicks` openings. */
+    expiresAt: nullable(z.string()),
+    maxClicks: nullable(z.number()),
+    /** Total openings, only sent when the list is requested with `clicks`. */
+    clickCount: nullable(z.number()),
+});
 
-export interface ShortUrlsListDto extends PagedResponse {
-    entries: ShortUrlDto[];
-}
+export type ShortUrlDto = z.infer<typeof shortUrlSchema>;
 
-export interface CreateShortUrlDto {
-    originalUrl: string;
-    tags: string[];
-}
+export const shortUrlsListSchema = pagedResponseSchema.extend({
+    entries: z.array(shortUrlSchema),
+});
 
-export interface ChangeUrlStateDto {
-    newState: ShortUrlState;
-}
+export type ShortUrlsListDto = z.infer<typeof shortUrlsListSchema>;
+
+export const createShortUrlDtoSchema = z.object({
+    originalUrl: z.string(),
+    tags: z.array(z.string()),
+    /** Custom back-half; a random code is generated when absent. */
+    alias: z.string().optional(),
+    activateAt: z.string().nullable().optional(),
+    expiresAt: z.string().nullable().optional(),
+    maxClicks: z.number().int().positive().nullable().optional(),
+});
+
+export type CreateShortUrlDto = z.infer<typeof createShortUrlDtoSchema>;
+
+/**
+ * Creating a link grants it to its creator, so the response carries refreshed tokens along
+ * with the link itself.
+ */
+export const createdShortUrlSchema = tokenResponseSchema.extend({
+    shortUrl: nullable(shortUrlSchema),
+});
+
+export type CreatedShortUrlDto = z.infer<typeof createdShortUrlSchema>;
+
+export const aliasAvailabilitySchema = z.object({
+    alias: z.string(),
+    available: z.boolean(),
+    /** The short URL the alias would produce. */
+    shortUrl: z.string(),
+});
+
+export type AliasAvailabilityDto = z.infer<typeof aliasAvailabilitySchema>;
+
+export const updateShortUrlSchema = z.object({
+    originalUrl: z.string(),
+    tags: z.array(z.string()),
+    title: z.string().nullable(),
+    activateAt: z.string().nullable(),
+    expiresAt: z.string().nullable(),
+    maxClicks: z.number().int().positive().nullable(),
+});
+
+export type UpdateShortUrlDto = z.infer<typeof updateShortUrlSchema>;
+
+export const changeUrlStateSchema = z.object({
+    newState: z.nativeEnum(ShortUrlState),
+});
+
+export type ChangeUrlStateDto = z.infer<typeof changeUrlStateSchema>;
@@ -1,35 +1,127 @@
-export interface UserInfoDto {
-    id: number;
-    firstname: string;
-    lastname: string | null;
-    companyName: string | null;
-    email: string;
-    profilePictureUrl: string | null;
-}
-
-export interface UpdateUserInfoDto {
-    newFirstname: string | null;
-    newLastname: string | null;
-    newCompanyName: string | null;
-    newEmail: string | null;
-}
-
-export interface UpdateUserProfilePictureDto {
-    newProfilePictureBase64: string;
-}
-
-export interface UserLoginDto {
-    username: string;
-    password: string;
-}
-
-export interface UserSignupDto {
-    username: string;
-    password: string;
-    firstName: string;
-    lastName: string | null;
-    companyName: string | null;
-    profilePictureBase64: string | null;
-    registrationScope: 'SHORTENER_SCOPE';
-    siteUrl: string | null;
-}
+import { z } from 'zod';
+import { nullable } from './common.ts';
+import { tokenResponseSchema } from './auth.ts';
+
+export const userInfoSchema = z.object({
+    id: z.number(),
+    firstname: z.string(),
+    lastname: nullable(z.string()),
+    companyName: nullable(z.string()),
+    email: z.string(),
+    profilePictureUrl: nullable(z.string()),
+    twoFactorEnabled: z.boolean().default(false),
+});
+
+export type UserInfoDto = z.infer<typeof userInfoSchema>;
+
+export const updateUserInfoSchema = z.object({
+    newFirstname: z.string().nullable(),
+    newLastname: z.string().nullable(),
+    newCompanyName: z.string().nullable(),
+    newEmail: z.string().nullable(),
+});
+
+export type UpdateUserInfoDto = z.infer<typeof updateUserInfoSchema>;
+
+export const updateUserProfilePictureSchema = z.object({
+    newProfilePictureBase64: z.string(),
+});
+
+export type UpdateUserProfilePictureDto = z.infer<typeof updateUserProfilePictureSchema>;
+
+export const userSessionSchema = z.object({
+    id: z.string(),
+    userAgent: z.string(),
+    ipAddress: z.string(),
+    /** Approximate place resolved from the IP address, when known. */
+    location: nullable(z.string()),
+    createdAt: z.string(),
+    lastSeenAt: z.string(),
+    /** Whether this is the session the request was made with. */
+    current: z.boolean(),
+});
+
+export type UserSessionDto = z.infer<typeof userSessionSchema>;
+
+export const userSessionsSchema = z.array(userSessionSchema);
+
+export const changePasswordSchema = z.object({
+    currentPassword: z.string(),
+    newPassword: z.string(),
+});
+
+export type ChangePasswordDto = z.infer<typeof changePasswordSchema>;
+
+export const deleteAccountSchema = z.object({
+    password: z.string(),
+});
+
+export type DeleteAccountDto = z.infer<typeof deleteAccountSchema>;
+
+export const userLoginSchema = z.object({
+    username: z.string(),
+    password: z.string(),
+});
+
+export type UserLoginDto = z.infer<typeof userLoginSchema>;
+
+export const twoFactorChallengeSchema = z.object({
+    twoFactorRequired: z.literal(true),
+    challengeToken: z.string(),
+});
+
+export type TwoFactorChallengeDto = z.infer<typeof twoFactorChallengeSchema>;
+
+/** Login either signs the user in or, with 2FA enabled, asks for a second factor. */
+export const loginResponseSchema = z.union([twoFactorChallengeSchema, tokenResponseSchema]);
+
+export type LoginResponseDto = z.infer<typeof loginResponseSchema>;
+
+export const twoFactorLoginSchema = z.object({
+    challengeToken: z.string(),
+    code: z.string(),
+    recoveryCode: z.boolean(),
+});
+
+export type TwoFactorLoginDto = z.infer<typeof twoFactorLoginSchema>;
+
+export const totpEnrollmentSchema = z.object({
+    secret: z.string(),
+    otpauthUri: z.string(),
+});
+
+export type TotpEnrollmentDto = z.infer<typeof totpEnrollmentSchema>;
+
+export const totpCodeSchema = z.object({
+    code: z.string(),
+});
+
+export type TotpCodeDto = z.infer<typeof totpCodeSchema>;
+
+export const recoveryCodesSchema = z.object({
+    recoveryCodes: z.array(z.string()),
+});
+
+export type RecoveryCodesDto = z.infer<typeof recoveryCodesSchema>;
+
+export const oidcLoginSchema = z.object({
+    providerId: z.string(),
+    code: z.string(),
+    codeVerifier: z.string(),
+    redirectUri: z.string(),
+});
+
+export type OidcLoginDto = z.infer<typeof oidcLoginSchema>;
+
+export const userSignupSchema = z.object({
+    username: z.string(),
+    password: z.string(),
+    firstName: z.string(),
+    lastName: z.string().nullable(),
+    companyName: z.string().nullable(),
+    profilePictureBase64: z.string().nullable(),
+    registrationScope: z.literal('SHORTENER_SCOPE'),
+    siteUrl: z.string().nullable(),
+});
+
+export type UserSignupDto = z.infer<typeof userSignupSchema>;
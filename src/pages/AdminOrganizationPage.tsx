@@ -0,0 +1,225 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    Stack,
+    Tab,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TablePagination,
+    TableRow,
+    Tabs,
+    Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api.ts';
+import { ApiResult, isErr } from '../common/result.ts';
+import { useAppToast } from '../components/toast.tsx';
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
+import { AdminOrganizationDto } from '../model/admin.ts';
+import { PagedResponse } from '../model/common.ts';
+import { OrganizationMemberDto } from '../model/organizationMembers.ts';
+import { ShortUrlDto } from '../model/urls.ts';
+
+type Section = 'urls' | 'members';
+
+const usePagedList = <T,>(
+    fetcher: (
+        page: number,
+        perPage: number,
+        signal: AbortSignal,
+    ) => Promise<ApiResult<PagedResponse & { entries: T[] }>>,
+    errorMessage: string,
+) => {
+    const [entries, setEntries] = useState<T[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [perPage, setPerPage] = useState(10);
+    const [loading, setLoading] = useState(true);
+
+    const runLatest = useLatestRequest();
+    const { apiError } = useAppToast();
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    useEffect(() => {
+        setLoading(true);
+        runLatest((signal) => fetcherRef.current(page, perPage, signal)).then((res) => {
+            if (!res) return;
+            if (isErr(res)) {
+                apiError(errorMessage, res);
+            } else {
+                setEntries(res.value.entries);
+                setTotal(res.value.total);
+            }
+            setLoading(false);
+        });
+    }, [page, perPage, runLatest, apiError, errorMessage]);
+
+    const pagination = (
+        <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            rowsPerPage={perPage}
+            onPageChange={(_, p) => setPage(p)}
+            onRowsPerPageChange={(e) => {
+                setPerPage(+e.target.value);
+                setPage(0);
+            }}
+            rowsPerPageOptions={[10, 25, 50]}
+        />
+    );
+
+    return { entries, loading, pagination };
+};
+
+const Loading = () => (
+    <Box sx={{ textAlign: 'center', py: 4 }}>
+        <CircularProgress />
+    </Box>
+);
+
+const UrlsTable = ({ slug }: { slug: string }) => {
+    const { entries, loading, pagination } = usePagedList<ShortUrlDto>(
+        (p, q, signal) => ApiClient.getAdminOrganizationUrls(slug, { p, q }, { signal }),
+        'Could not get short URLs',
+    );
+    if (loading) return <Loading />;
+    return (
+        <>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Short URL</TableCell>
+                        <TableCell>Original URL</TableCell>
+                        <TableCell>Creator</TableCell>
+                        <TableCell>State</TableCell>
+                        <TableCell>Tags</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {entries.map((u) => (
+                        <TableRow key={u.id}>
+                            <TableCell>{u.shortUrl}</TableCell>
+                            <TableCell sx={{ wordBreak: 'break-all' }}>{u.originalUrl}</TableCell>
+                            <TableCell>{u.creatorName}</TableCell>
+                            <TableCell>{u.state}</TableCell>
+                            <TableCell>
+                                <Stack direction="row" spacing={0.5} flexWrap="wrap">
+                                    {u.tags.map((t) => (
+                                        <Chip key={t} label={t} size="small" variant="outlined" />
+                                    ))}
+                                </Stack>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            {pagination}
+        </>
+    );
+};
+
+const MembersTable = ({ slug }: { slug: string }) => {
+    const { entries, loading, pagination } = usePagedList<OrganizationMemberDto>(
+        (p, q, signal) => ApiClient.getAdminOrganizationMembers(slug, { p, q }, { signal }),
+        'Could not get members',
+    );
+    if (loading) return <Loading />;
+    return (
+        <>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Name</TableCell>
+                        <TableCell>Email</TableCell>
+                        <TableCell>Roles</TableCell>
+                        <TableCell>URLs</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {entries.map((m) => (
+                        <TableRow key={m.id}>
+                            <TableCell>{m.fullName}</TableCell>
+                            <TableCell>{m.email}</TableCell>
+                            <TableCell>{m.roles.join(', ')}</TableCell>
+                            <TableCell>
+                                {m.allowedAllUrls ? 'All' : `${m.allowedUrls.length} selected`}
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            {pagination}
+        </>
+    );
+};
+
+/** Read-only look into any organization for system admins, without joining it. */
+export default function AdminOrganizationPage() {
+    const { orgSlug = '' } = useParams();
+
+    const [org, setOrg] = useState<AdminOrganizationDto | null>(null);
+    const [section, setSection] = useState<Section>('urls');
+
+    const { apiError } = useAppToast();
+
+    useEffect(() => {
+        const controller = new AbortController();
+        ApiClient.getAdminOrganization(orgSlug, { signal: controller.signal }).then((res) => {
+            if (isErr(res)) apiError('Could not get organization', res);
+            else setOrg(res.value);
+        });
+        return () => controller.abort();
+    }, [orgSlug, apiError]);
+
+    return (
+        <BackgroundCard padding={4} width="100%">
+            <Stack spacing={3} width="100%">
+                <Box>
+                    <Button
+                        component={RouterLink}
+                        to="/admin/organizations"
+                        startIcon={<ArrowBackIcon />}
+                        size="small"
+                    >
+                        All organizations
+                    </Button>
+                </Box>
+                {!org ? (
+                    <Loading />
+                ) : (
+                    <>
+                        <Box>
+                            <Typography variant="h4">{org.name}</Typography>
+                            <Typography variant="body2" color="text.secondary">
+                                {org.slug} · {org.type} · owner {org.ownerEmail ?? 'unknown'}
+                            </Typography>
+                        </Box>
+                        <Alert severity="info">
+                            You are viewing this organization as a system administrator. Nothing
+                            here can be changed.
+                        </Alert>
+                        <Tabs value={section} onChange={(_, v: Section) => setSection(v)}>
+                            <Tab value="urls" label={`Short URLs (${org.urlsCount})`} />
+                            <Tab value="members" label={`Members (${org.membersCount})`} />
+                        </Tabs>
+                        {section === 'urls' ? (
+                            <UrlsTable slug={org.slug} />
+                        ) : (
+                            <MembersTable slug={org.slug} />
+                        )}
+                    </>
+                )}
+            </Stack>
+        </BackgroundCard>
+    );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import {
+    Box,
+    CircularProgress,
+    InputAdornment,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TablePagination,
+    TableRow,
+    TextField,
+    Typography,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import { useNavigate } from 'react-router-dom';
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
+import { useAppToast } from '../components/toast.tsx';
+import { useDebouncedValue } from '../hooks/useDebouncedValue.ts';
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
+import { AdminOrganizationDto } from '../model/admin.ts';
+
+export default function AdminOrganizationsPage() {
+    const navigate = useNavigate();
+
+    const [orgs, setOrgs] = useState<AdminOrganizationDto[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [perPage, setPerPage] = useState(10);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    const debouncedSearch = useDebouncedValue(search.trim());
+    const runLatest = useLatestRequest();
+    const { apiError } = useAppToast();
+
+    useEffect(() => {
+        (async () => {
+            setLoading(true);
+            const res = await runLatest((signal) =>
+                ApiClient.getAdminOrganizations(
+                    { p: page, q: perPage, search: debouncedSearch || undefined },
+                    { signal },
+                ),
+            );
+            if (!res) return;
+            if (isErr(res)) {
+                apiError('Could not get organizations', res);
+            } else {
+                setOrgs(res.value.entries);
+                setTotal(res.value.total);
+            }
+            setLoading(false);
+        })();
+    }, [page, perPage, debouncedSearch, runLatest, apiError]);
+
+    return (
+        <BackgroundCard padding={4} width="100%">
+            <Stack spacing={3} width="100%">
+                <Stack direction="row" justifyContent="space-between" alignItems="center">
+                    <Typography variant="h4">Organizations</Typography>
+                    <TextField
+                        size="small"
+                        placeholder="Search by name or slug"
+                        value={search}
+                        onChange={(e) => {
+                            setSearch(e.target.value);
+                            setPage(0);
+                        }}
+                        InputProps={{
+                            startAdornment: (
+                                <InputAdornment position="start">
+                                    <SearchIcon fontSize="small" />
+                                </InputAdornment>
+                            ),
+                        }}
+                        sx={{ width: 320 }}
+                    />
+                </Stack>
+
+                {loading ? (
+                    <Box sx={{ textAlign: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : (
+                    <>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Name</TableCell>
+                                    <TableCell>Slug</TableCell>
+                                    <TableCell>Type</TableCell>
+                                    <TableCell>Owner</TableCell>
+                                    <TableCell align="right">Members</TableCell>
+                                    <TableCell align="right">URLs</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {orgs.map((o) => (
+                                    <TableRow
+                                        key={o.id}
+                                        hover
+                                        sx={{ cursor: 'pointer' }}
+                                        onClick={() => navigate(`/admin/organizations/${o.slug}`)}
+                                    >
+                                        <TableCell>{o.name}</TableCell>
+                                        <TableCell>{o.slug}</TableCell>
+                                        <TableCell>{o.type}</TableCell>
+                                        <TableCell>{o.ownerEmail ?? '—'}</TableCell>
+                                        <TableCell align="right">{o.membersCount}</TableCell>
+                                        <TableCell align="right">{o.urlsCount}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        <TablePagination
+                            component="div"
+                            count={total}
+                            page={page}
+                            rowsPerPage={perPage}
+                            onPageChange={(_, p) => setPage(p)}
+                            onRowsPerPageChange={(e) => {
+                                setPerPage(+e.target.value);
+                                setPage(0);
+                            }}
+                            rowsPerPageOptions={[10, 25, 50]}
+                        />
+                    </>
+                )}
+            </Stack>
+        </BackgroundCard>
+    );
+}
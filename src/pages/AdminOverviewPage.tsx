@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { Box, CircularProgress, Paper, Stack, Typography } from '@mui/material';
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
+import { useAppToast } from '../components/toast.tsx';
+import { PlatformStatsDto } from '../model/admin.ts';
+
+const STAT_LABELS: Record<keyof PlatformStatsDto, string> = {
+    users: 'Users',
+    lockedUsers: 'Locked users',
+    organizations: 'Organizations',
+    urls: 'Short URLs',
+    activeUrls: 'Active short URLs',
+};
+
+export default function AdminOverviewPage() {
+    const { data: stats, failure } = useApiQuery(queryKeys.platformStats(), (signal) =>
+        ApiClient.getPlatformStats({ signal }),
+    );
+
+    const { apiError } = useAppToast();
+
+    useEffect(() => {
+        if (failure) apiError('Could not get platform statistics', failure);
+    }, [failure, apiError]);
+
+    return (
+        <BackgroundCard padding={4} width="100%">
+            <Stack spacing={3} width="100%">
+                <Typography variant="h4">Platform Overview</Typography>
+                {!stats ? (
+                    <Box sx={{ textAlign: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : (
+                    <Box
+                        sx={{
+                            display: 'grid',
+                            gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
+                            gap: 2,
+                        }}
+                    >
+                        {(Object.keys(STAT_LABELS) as (keyof PlatformStatsDto)[]).map((key) => (
+                            <Paper key={key} variant="outlined" sx={{ p: 2 }}>
+                                <Typography variant="body2" color="text.secondary">
+                                    {STAT_LABELS[key]}
+                                </Typography>
+                                <Typography variant="h4">{stats[key].toLocaleString()}</Typography>
+                            </Paper>
+                        ))}
+                    </Box>
+                )}
+            </Stack>
+        </BackgroundCard>
+    );
+}
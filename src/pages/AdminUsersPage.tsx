@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    InputAdornment,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TablePagination,
+    TableRow,
+    TextField,
+    Typography,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
+import { getAccessToken } from '../auth/auth.ts';
+import { useAppToast } from '../components/toast.tsx';
+import { useDebouncedValue } from '../hooks/useDebouncedValue.ts';
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
+import { AdminUserDto } from '../model/admin.ts';
+import { UserSystemRole } from '../model/auth.ts';
+
+type PendingAction = { kind: 'lock' | 'unlock' | 'reset'; user: AdminUserDto };
+
+const ACTION_TEXT: Record<PendingAction['kind'], { title: string; body: string }> = {
+    lock: {
+        title: 'Lock user',
+        body: 'They will be signed out everywhere and cannot sign in until unlocked.',
+    },
+    unlock: {
+        title: 'Unlock user',
+        body: 'They will be able to sign in again.',
+    },
+    reset: {
+        title: 'Force password reset',
+        body: 'They will be signed out everywhere and emailed a link to choose a new password before they can sign in.',
+    },
+};
+
+export default function AdminUsersPage() {
+    const [users, setUsers] = useState<AdminUserDto[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [perPage, setPerPage] = useState(10);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [acting, setActing] = useState(false);
+
+    const debouncedSearch = useDebouncedValue(search.trim());
+    const runLatest = useLatestRequest();
+    const { success, apiError } = useAppToast();
+
+    const selfId = getAccessToken()?.userId;
+
+    useEffect(() => {
+        (async () => {
+            setLoading(true);
+            const res = await runLatest((signal) =>
+                ApiClient.getAdminUsers(
+                    { p: page, q: perPage, search: debouncedSearch || undefined },
+                    { signal },
+                ),
+            );
+            if (!res) return;
+            if (isErr(res)) {
+                apiError('Could not get users', res);
+            } else {
+                setUsers(res.value.entries);
+                setTotal(res.value.total);
+            }
+            setLoading(false);
+        })();
+    }, [page, perPage, debouncedSearch, runLatest, apiError]);
+
+    const replaceUser = (user: AdminUserDto) =>
+        setUsers((prev) => prev.map((u) => (u.id === user.id ? user : u)));
+
+    const handleConfirm = async () => {
+        if (!pending) return;
+        const { kind, user } = pending;
+        setActing(true);
+        const res =
+            kind === 'reset'
+                ? await ApiClient.forcePasswordReset(user.id)
+                : await ApiClient.setUserLocked(user.id, kind === 'lock');
+        setActing(false);
+        if (isErr(res)) {
+            apiError(`Could not update ${user.email}`, res);
+            return;
+        }
+        replaceUser(res.value);
+        setPending(null);
+        success(
+            kind === 'reset'
+                ? `Password reset link was sent to ${user.email}`
+                : `${user.email} was ${kind === 'lock' ? 'locked' : 'unlocked'}`,
+        );
+    };
+
+    return (
+        <BackgroundCard padding={4} width="100%">
+            <Stack spacing={3} width="100%">
+                <Stack direction="row" justifyContent="space-between" alignItems="center">
+                    <Typography variant="h4">Users</Typography>
+                    <TextField
+                        size="small"
+                        placeholder="Search by name or email"
+                        value={search}
+                        onChange={(e) => {
+                            setSearch(e.target.value);
+                            setPage(0);
+                        }}
+                        InputProps={{
+                            startAdornment: (
+                                <InputAdornment position="start">
+                                    <SearchIcon fontSize="small" />
+                                </InputAdornment>
+                            ),
+                        }}
+                        sx={{ width: 320 }}
+                    />
+                </Stack>
+
+                {loading ? (
+                    <Box sx={{ textAlign: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : (
+                    <>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Name</TableCell>
+                                    <TableCell>Email</TableCell>
+                                    <TableCell>Organizations</TableCell>
+                                    <TableCell>Status</TableCell>
+                                    <TableCell align="right">Actions</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {users.map((u) => (
+                                    <TableRow key={u.id} hover>
+                                        <TableCell>
+                                            {u.firstname} {u.lastname ?? ''}
+                                            {u.systemRole === UserSystemRole.ADMIN && (
+                                                <Chip
+                                                    label="Admin"
+                                                    size="small"
+                                                    color="primary"
+                                                    variant="outlined"
+                                                    sx={{ ml: 1 }}
+                                                />
+                                            )}
+                                        </TableCell>
+                                        <TableCell>{u.email}</TableCell>
+                                        <TableCell>{u.organizationsCount}</TableCell>
+                                        <TableCell>
+                                            <Stack direction="row" spacing={0.5}>
+                                                {u.locked && (
+                                                    <Chip
+                                                        label="Locked"
+                                                        color="error"
+                                                        size="small"
+                                                    />
+                                                )}
+                                                {u.passwordResetRequired && (
+                                                    <Chip
+                                                        label="Reset pending"
+                                                        color="warning"
+                                                        size="small"
+                                                    />
+                                                )}
+                                                {!u.locked && !u.passwordResetRequired && (
+                                                    <Chip label="Active" size="small" />
+                                                )}
+                                            </Stack>
+                                        </TableCell>
+                                        <TableCell align="right">
+                                            <Button
+                                                size="small"
+                                                color={u.locked ? 'primary' : 'error'}
+                                                disabled={u.id === selfId}
+                                                onClick={() =>
+                                                    setPending({
+                                                        kind: u.locked ? 'unlock' : 'lock',
+                                                        user: u,
+                                                    })
+                                                }
+                                            >
+                                                {u.locked ? 'Unlock' : 'Lock'}
+                                            </Button>
+                                            <Button
+                                                size="small"
+                                                onClick={() =>
+                                                    setPending({ kind: 'reset', user: u })
+                                                }
+                                            >
+                                                Reset Password
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        <TablePagination
+                            component="div"
+                            count={total}
+                            page={page}
+                            rowsPerPage={perPage}
+                            onPageChange={(_, p) => setPage(p)}
+                            onRowsPerPageChange={(e) => {
+                                setPerPage(+e.target.value);
+                                setPage(0);
+                            }}
+                            rowsPerPageOptions={[10, 25, 50]}
+                        />
+                    </>
+                )}
+            </Stack>
+
+            <Dialog open={!!pending} onClose={() => setPending(null)} maxWidth="xs">
+                <DialogTitle>{pending && ACTION_TEXT[pending.kind].title}</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        <strong>{pending?.user.email}</strong>:{' '}
+                        {pending && ACTION_TEXT[pending.kind].body}
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setPending(null)} disabled={acting}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color={pending?.kind === 'unlock' ? 'primary' : 'error'}
+                        onClick={handleConfirm}
+                        disabled={acting}
+                    >
+                        Confirm
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </BackgroundCard>
+    );
+}
@@ -0,0 +1,431 @@
+import { useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControl,
+    FormControlLabel,
+    FormGroup,
+    FormHelperText,
+    FormLabel,
+    IconButton,
+    InputAdornment,
+    MenuItem,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { z } from 'zod';
+import BackgroundCard from '../components/BackgroundCard';
+import ApiTokenSnippets from '../components/ApiTokenSnippets.tsx';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { useAppToast } from '../components/toast.tsx';
+import { ApiTokenDto, ApiTokenScope, CreatedApiTokenDto } from '../model/apiTokens.ts';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+    [ApiTokenScope.URLS_READ]: 'List and read short URLs',
+    [ApiTokenScope.URLS_WRITE]: 'Create short URLs and change their state',
+    [ApiTokenScope.STATS_READ]: 'Read click statistics',
+};
+
+const EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+    { value: '7', label: '7 days', days: 7 },
+    { value: '30', label: '30 days', days: 30 },
+    { value: '90', label: '90 days', days: 90 },
+    { value: '365', label: '1 year', days: 365 },
+    { value: 'never', label: 'No expiration', days: null },
+];
+
+const ORGANIZATIONS_QUERY = { q: 10000 };
+
+const tokenFormSchema = z.object({
+    name: z.string().trim().nonempty('Name is required').max(64, 'At most 64 characters'),
+    organizationSlug: z.string().nonempty('Choose an organization'),
+    scopes: z.array(z.nativeEnum(ApiTokenScope)).min(1, 'Select at least one scope'),
+    expiry: z.string(),
+});
+
+type TokenForm = z.infer<typeof tokenFormSchema>;
+
+const formatDate = (value: string) => format(new Date(value), 'dd.MM.yy');
+
+export default function ApiTokensPage() {
+    const slug = useOrgSlug();
+
+    const { data: tokens, loading } = useApiQuery(queryKeys.apiTokens(), (signal) =>
+        ApiClient.getApiTokens({ signal }),
+    );
+    const { data: orgsList } = useApiQuery(
+        queryKeys.userOrganizations(ORGANIZATIONS_QUERY),
+        (signal) => ApiClient.getUserOrganizations(ORGANIZATIONS_QUERY, { signal }),
+    );
+    const orgs = orgsList?.entries ?? [];
+
+    const emptyForm = (): TokenForm => ({
+        name: '',
+        organizationSlug: slug,
+        scopes: [ApiTokenScope.URLS_WRITE],
+        expiry: '90',
+    });
+
+    const [createOpen, setCreateOpen] = useState(false);
+    const [form, setForm] = useState<TokenForm>(emptyForm);
+    const [errors, setErrors] = useState<Partial<Record<keyof TokenForm, string>>>({});
+    const [creating, setCreating] = useState(false);
+    const [created, setCreated] = useState<CreatedApiTokenDto | null>(null);
+    const [revokeTarget, setRevokeTarget] = useState<ApiTokenDto | null>(null);
+    const [revoking, setRevoking] = useState(false);
+
+    const { success, apiError } = useAppToast();
+
+    const toggleScope = (scope: ApiTokenScope) => {
+        setForm((prev) => ({
+            ...prev,
+            scopes: prev.scopes.includes(scope)
+                ? prev.scopes.filter((s) => s !== scope)
+                : [...prev.scopes, scope],
+        }));
+        setErrors((prev) => ({ ...prev, scopes: undefined }));
+    };
+
+    const handleCreate = async () => {
+        const parsed = tokenFormSchema.safeParse(form);
+        if (!parsed.success) {
+            const errs: Partial<Record<keyof TokenForm, string>> = {};
+            parsed.error.errors.forEach((e) => {
+                errs[e.path[0] as keyof TokenForm] ??= e.message;
+            });
+            setErrors(errs);
+            return;
+        }
+        const days = EXPIRY_OPTIONS.find((o) => o.value === parsed.data.expiry)?.days ?? null;
+
+        setCreating(true);
+        const res = await ApiClient.createApiToken({
+            name: parsed.data.name,
+            organizationSlug: parsed.data.organizationSlug,
+            scopes: parsed.data.scopes,
+            expiresAt: days === null ? null : addDays(new Date(), days).toISOString(),
+        });
+        setCreating(false);
+        if (isErr(res)) {
+            apiError('Could not create token', res);
+            return;
+        }
+        setCreateOpen(false);
+        setCreated(res.value);
+    };
+
+    const handleRevoke = async () => {
+        if (!revokeTarget) return;
+        setRevoking(true);
+        const res = await ApiClient.revokeApiToken(revokeTarget.id);
+        setRevoking(false);
+        if (isErr(res)) {
+            apiError('Could not revoke token', res);
+            return;
+        }
+        success(`Token "${revokeTarget.name}" was revoked`);
+        setRevokeTarget(null);
+    };
+
+    const isExpired = (token: ApiTokenDto) =>
+        !!token.expiresAt && new Date(token.expiresAt).getTime() < Date.now();
+
+    return (
+        <Stack spacing={3} sx={{ pb: 3 }}>
+            <BackgroundCard padding={4} width="100%">
+                <Stack spacing={3} width="100%">
+                    <Stack direction="row" justifyContent="space-between" alignItems="center">
+                        <Box>
+                            <Typography variant="h4">API Tokens</Typography>
+                            <Typography variant="body2" color="text.secondary">
+                                Personal tokens let scripts and CI call the API on your behalf,
+                                limited to one organization and the scopes you pick.
+                            </Typography>
+                        </Box>
+                        <Button
+                            variant="contained"
+                            onClick={() => {
+                                setForm(emptyForm());
+                                setErrors({});
+                                setCreateOpen(true);
+                            }}
+                        >
+                            New Token
+                        </Button>
+                    </Stack>
+
+                    {loading ? (
+                        <Box sx={{ textAlign: 'center', py: 4 }}>
+                            <CircularProgress />
+                        </Box>
+                    ) : !tokens?.length ? (
+                        <Typography color="text.secondary" sx={{ py: 2 }}>
+                            You have no API tokens yet.
+                        </Typography>
+                    ) : (
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Name</TableCell>
+                                    <TableCell>Organization</TableCell>
+                                    <TableCell>Scopes</TableCell>
+                                    <TableCell>Created</TableCell>
+                                    <TableCell>Last used</TableCell>
+                                    <TableCell>Expires</TableCell>
+                                    <TableCell />
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {tokens.map((t) => (
+                                    <TableRow key={t.id} hover>
+                                        <TableCell>
+                                            <Typography variant="body2">{t.name}</Typography>
+                                            <Typography
+                                                variant="caption"
+                                                color="text.secondary"
+                                                sx={{ fontFamily: 'monospace' }}
+                                            >
+                                                {t.tokenPrefix}…
+                                            </Typography>
+                                        </TableCell>
+                                        <TableCell>{t.organizationSlug}</TableCell>
+                                        <TableCell>
+                                            <Stack direction="row" spacing={0.5} flexWrap="wrap">
+                                                {t.scopes.map((s) => (
+                                                    <Chip
+                                                        key={s}
+                                                        label={s}
+                                                        size="small"
+                                                        variant="outlined"
+                                                    />
+                                                ))}
+                                            </Stack>
+                                        </TableCell>
+                                        <TableCell>{formatDate(t.createdAt)}</TableCell>
+                                        <TableCell>
+                                            {t.lastUsedAt
+                                                ? formatDistanceToNow(new Date(t.lastUsedAt), {
+                                                      addSuffix: true,
+                                                  })
+                                                : 'Never'}
+                                        </TableCell>
+                                        <TableCell>
+                                            {t.expiresAt ? (
+                                                isExpired(t) ? (
+                                                    <Chip
+                                                        label="Expired"
+                                                        color="error"
+                                                        size="small"
+                                                    />
+                                                ) : (
+                                                    formatDate(t.expiresAt)
+                                                )
+                                            ) : (
+                                                'Never'
+                                            )}
+                                        </TableCell>
+                                        <TableCell align="right">
+                                            <Button
+                                                size="small"
+                                                color="error"
+                                                onClick={() => setRevokeTarget(t)}
+                                            >
+                                                Revoke
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </Stack>
+            </BackgroundCard>
+
+            <BackgroundCard padding={4} width="100%">
+                <Stack spacing={2} width="100%">
+                    <Typography variant="h5">Using a token</Typography>
+                    <Typography variant="body2" color="text.secondary">
+                        Send the token in the <code>Authorization</code> header of the same requests
+                        the dashboard makes.
+                    </Typography>
+                    <ApiTokenSnippets organizationSlug={created?.organizationSlug ?? slug} />
+                </Stack>
+            </BackgroundCard>
+
+            <Dialog open={createOpen} onClose={() => setCreateOpen(false)} fullWidth maxWidth="sm">
+                <DialogTitle>New API Token</DialogTitle>
+                <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                    <TextField
+                        label="Name"
+                        placeholder="e.g. Release pipeline"
+                        value={form.name}
+                        onChange={(e) => {
+                            setForm((prev) => ({ ...prev, name: e.target.value }));
+                            setErrors((prev) => ({ ...prev, name: undefined }));
+                        }}
+                        error={!!errors.name}
+                        helperText={errors.name}
+                        margin="dense"
+                        fullWidth
+                    />
+                    <TextField
+                        select
+                        label="Organization"
+                        value={form.organizationSlug}
+                        onChange={(e) =>
+                            setForm((prev) => ({ ...prev, organizationSlug: e.target.value }))
+                        }
+                        error={!!errors.organizationSlug}
+                        helperText={errors.organizationSlug}
+                        fullWidth
+                    >
+                        {orgs.map((o) => (
+                            <MenuItem key={o.slug} value={o.slug}>
+                                {o.name}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    <FormControl error={!!errors.scopes}>
+                        <FormLabel>Scopes</FormLabel>
+                        <FormGroup>
+                            {Object.values(ApiTokenScope).map((scope) => (
+                                <FormControlLabel
+                                    key={scope}
+                                    control={
+                                        <Checkbox
+                                            checked={form.scopes.includes(scope)}
+                                            onChange={() => toggleScope(scope)}
+                                        />
+                                    }
+                                    label={
+                                        <>
+                                            <Typography
+                                                component="span"
+                                                sx={{ fontFamily: 'monospace', mr: 1 }}
+                                            >
+                                                {scope}
+                                            </Typography>
+                                            <Typography
+                                                component="span"
+                                                variant="body2"
+                                                color="text.secondary"
+                                            >
+                                                {SCOPE_LABELS[scope]}
+                                            </Typography>
+                                        </>
+                                    }
+                                />
+                            ))}
+                        </FormGroup>
+                        {errors.scopes && <FormHelperText>{errors.scopes}</FormHelperText>}
+                    </FormControl>
+                    <TextField
+                        select
+                        label="Expiration"
+                        value={form.expiry}
+                        onChange={(e) => setForm((prev) => ({ ...prev, expiry: e.target.value }))}
+                        fullWidth
+                    >
+                        {EXPIRY_OPTIONS.map((o) => (
+                            <MenuItem key={o.value} value={o.value}>
+                                {o.label}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setCreateOpen(false)} disabled={creating}>
+                        Cancel
+                    </Button>
+                    <Button variant="contained" onClick={handleCreate} disabled={creating}>
+                        Create Token
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={!!created} maxWidth="sm" fullWidth>
+                <DialogTitle>Copy your new token</DialogTitle>
+                <DialogContent>
+                    <Stack spacing={2}>
+                        <Alert severity="warning">
+                            This is the only time the token is shown. Store it somewhere safe, such
+                            as your CI secrets.
+                        </Alert>
+                        <TextField
+                            value={created?.token ?? ''}
+                            fullWidth
+                            InputProps={{
+                                readOnly: true,
+                                sx: { fontFamily: 'monospace' },
+                                endAdornment: (
+                                    <InputAdornment position="end">
+                                        <Tooltip title="Copy">
+                                            <IconButton
+                                                onClick={() => {
+                                                    navigator.clipboard.writeText(
+                                                        created?.token ?? '',
+                                                    );
+                                                    success('Token copied');
+                                                }}
+                                            >
+                                                <ContentCopyIcon />
+                                            </IconButton>
+                                        </Tooltip>
+                                    </InputAdornment>
+                                ),
+                            }}
+                        />
+                    </Stack>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button variant="contained" onClick={() => setCreated(null)}>
+                        Done
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={!!revokeTarget} onClose={() => setRevokeTarget(null)} maxWidth="xs">
+                <DialogTitle>Revoke token</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        Scripts using “{revokeTarget?.name}” will stop working immediately.
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions sx={{ px: 3, py: 2 }}>
+                    <Button onClick={() => setRevokeTarget(null)} disabled={revoking}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="error"
+                        onClick={handleRevoke}
+                        disabled={revoking}
+                    >
+                        Revoke
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Stack>
+    );
+}
@@ -0,0 +1,48 @@
+import { Box, Typography, Button, useTheme } from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { FC } from 'react';
+
+export interface ForbiddenPageProps {
+    title?: string;
+    message?: string;
+}
+
+const ForbiddenPage: FC<ForbiddenPageProps> = ({
+    title = '403 — Access Denied',
+    message = 'Your role in this organization does not allow you to open this page.',
+}) => {
+    const theme = useTheme();
+    const toolbarHeight = theme.mixins.toolbar.minHeight;
+
+    return (
+        <Box
+            sx={{
+                position: 'absolute',
+                top: `${toolbarHeight}px`,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                boxSizing: 'border-box',
+                p: 2,
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                textAlign: 'center',
+                overflow: 'hidden',
+            }}
+        >
+            <Typography variant="h3" gutterBottom>
+                {title}
+            </Typography>
+            <Typography variant="body1" gutterBottom>
+                {message}
+            </Typography>
+            <Button component={RouterLink} to="/urls" variant="contained" sx={{ mt: 2 }}>
+                Go Home
+            </Button>
+        </Box>
+    );
+};
+
+export default ForbiddenPage;
@@ -5,7 +5,7 @@ import { Link as RouterLink, useNavigate } from 'react-router-dom';
 
 import BackgroundCard from '../components/BackgroundCard';
 import { ApiClient } from '../common/api';
-import { ErrorResponseElement } from '../model/common';
+import { isErr } from '../common/result';
 import { useAppToast } from '../components/toast.tsx';
 
 const forgotPasswordSchema = z.object({
@@ -24,7 +24,7 @@ const ForgotPasswordPage: FC = () => {
     const [errors, setErrors] = useState<Partial<ForgotPasswordForm & { general?: string }>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
 
     const handleChange =
         (field: keyof ForgotPasswordForm) => (e: ChangeEvent<HTMLInputElement>) => {
@@ -47,8 +47,8 @@ const ForgotPasswordPage: FC = () => {
         try {
             setIsSubmitting(true);
             const response = await ApiClient.sendResetPassword(form.email);
-            if ((response as ErrorResponseElement)?.errorType) {
-                error('Failed to send reset link');
+            if (isErr(response)) {
+                apiError('Failed to send reset link', response);
             } else {
                 success(`Password reset instructions were sent to ${form.email.trim()}`);
                 navigate('/login');
@@ -16,8 +16,7 @@ import { ApiClient } from '../common/api';
 import BackgroundCard from '../components/BackgroundCard.tsx';
 import { ShortUrlDto } from '../model/urls.ts';
 import { useAppToast } from '../components/toast.tsx';
-import { ErrorResponseElement } from '../model/common.ts';
-import * as _ from 'lodash';
+import { match } from '../common/result.ts';
 
 export interface LandingPageProps {
     darkMode: boolean;
@@ -31,18 +30,17 @@ const LandingPage = ({ darkMode, setDarkMode }: LandingPageProps) => {
     const [originalUrl, setOriginalUrl] = useState('');
     const [shortenedUrl, setShortenedUrl] = useState('');
 
-    const { error } = useAppToast();
+    const { apiError } = useAppToast();
 
     const handleShorten = async () => {
         if (!originalUrl.trim()) return;
-        const shortUrl: ShortUrlDto | ErrorResponseElement =
-            await ApiClient.createTrialShortUrl(originalUrl);
+        const res = await ApiClient.createTrialShortUrl(originalUrl);
 
-        if (_.has(shortUrl, 'errorType')) {
-            error('Could not create trial short URL. Try again later');
-            return;
-        }
-        setShortenedUrl((shortUrl as ShortUrlDto).shortUrl);
+        match(res, {
+            ok: (shortUrl: ShortUrlDto) => setShortenedUrl(shortUrl.shortUrl),
+            err: (failure) =>
+                apiError('Could not create trial short URL. Try again later', failure),
+        });
     };
 
     return (
@@ -1,4 +1,4 @@
-import { useState, ChangeEvent, FC } from 'react';
+import { useEffect, useState, ChangeEvent, FC, ReactElement } from 'react';
 import { z } from 'zod';
 import {
     Box,
@@ -9,19 +9,23 @@ import {
     useMediaQuery,
     Stack,
     Link,
+    Divider,
 } from '@mui/material';
+import GoogleIcon from '@mui/icons-material/Google';
+import MicrosoftIcon from '@mui/icons-material/Microsoft';
+import KeyIcon from '@mui/icons-material/Key';
 import { Link as RouterLink } from 'react-router-dom';
 
 import BackgroundCard from '../components/BackgroundCard';
 import moon from '../images/moon.png';
 import sun from '../images/sun.png';
-import config from '../config/config';
-import { ErrorResponseElement } from '../model/common.ts';
 import { TokenResponseDto } from '../model/auth.ts';
-import { getAccessToken } from '../auth/auth.ts';
+import { SessionManager } from '../auth/session.ts';
+import { IdentityProvider, IdentityProviders } from '../auth/identityProviders.ts';
 import { ApiClient } from '../common/api.ts';
-import * as _ from 'lodash';
+import { isErr } from '../common/result.ts';
 import { useAppToast } from '../components/toast.tsx';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep.tsx';
 
 type LoginForm = {
     username: string;
@@ -32,6 +36,12 @@ const loginSchema = z.object({
     password: z.string().nonempty('Password is required'),
 });
 
+const PROVIDER_ICONS: Record<IdentityProvider['type'], ReactElement> = {
+    google: <GoogleIcon />,
+    microsoft: <MicrosoftIcon />,
+    oidc: <KeyIcon />,
+};
+
 export interface LoginPageProps {
     darkMode: boolean;
     setDarkMode: (dark: boolean) => void;
@@ -44,12 +54,28 @@ const LoginPage: FC<LoginPageProps> = ({ darkMode, setDarkMode }) => {
     const [form, setForm] = useState<LoginForm>({ username: '', password: '' });
     const [errors, setErrors] = useState<Partial<LoginForm & { general?: string }>>({});
 
+    // Set when the password was accepted but the account also needs a second factor.
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+
     const handleChange = (field: keyof LoginForm) => (e: ChangeEvent<HTMLInputElement>) => {
         setForm((prev) => ({ ...prev, [field]: e.target.value }));
         setErrors((prev) => ({ ...prev, [field]: undefined }));
     };
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
+
+    const [providers, setProviders] = useState<IdentityProvider[]>([]);
+
+    useEffect(() => {
+        IdentityProviders.list().then(setProviders);
+    }, []);
+
+    const handleProviderLogin = (provider: IdentityProvider) => {
+        IdentityProviders.beginLogin(provider).catch((e) => {
+            console.error('Identity provider error:', e);
+            error(`Could not reach ${provider.name}`);
+        });
+    };
 
     const handleLogin = async () => {
         const result = loginSchema.safeParse(form);
@@ -64,19 +90,17 @@ const LoginPage: FC<LoginPageProps> = ({ darkMode, setDarkMode }) => {
         }
 
         try {
-            const tokenResponse: TokenResponseDto | ErrorResponseElement =
-                await ApiClient.login(form);
-            if (_.has(tokenResponse, 'errorType')) {
-                error('Login failed');
+            const tokenResponse = await ApiClient.login(form);
+            if (isErr(tokenResponse)) {
+                apiError('Login failed', tokenResponse);
                 return;
             }
-            const { accessToken, refreshToken } = tokenResponse as TokenResponseDto;
-            localStorage.setItem(config.accessTokenKey, accessToken);
-            localStorage.setItem(config.refreshTokenKey, refreshToken!);
-            const { organizations } = getAccessToken()!;
-            localStorage.setItem(config.currentOrganizationSlugKey, organizations[0].slug);
-
-            window.location.href = '/urls';
+            if ('challengeToken' in tokenResponse.value) {
+                setChallengeToken(tokenResponse.value.challengeToken);
+                return;
+            }
+            const { accessToken, refreshToken }: TokenResponseDto = tokenResponse.value;
+            window.location.href = SessionManager.signIn({ accessToken, refreshToken });
             success('Login succeeded');
         } catch (e) {
             console.error('Login error:', e);
@@ -103,70 +127,104 @@ const LoginPage: FC<LoginPageProps> = ({ darkMode, setDarkMode }) => {
                 }}
             >
                 <BackgroundCard maxWidth={400} padding={5}>
-                    <Stack spacing={3} sx={{ minHeight: 300 }}>
-                        <Typography variant="h4" align="center">
-                            Sign In
-                        </Typography>
-
-                        {errors.general && (
-                            <Typography color="error" variant="body2">
-                                {errors.general}
-                            </Typography>
-                        )}
-
-                        <TextField
-                            label="Username"
-                            fullWidth
-                            value={form.username}
-                            onChange={handleChange('username')}
-                            error={!!errors.username}
-                            helperText={errors.username}
+                    {challengeToken ? (
+                        <TwoFactorLoginStep
+                            challengeToken={challengeToken}
+                            onBack={() => setChallengeToken(null)}
                         />
+                    ) : (
+                        <Stack spacing={3} sx={{ minHeight: 300 }}>
+                            <Typography variant="h4" align="center">
+                                Sign In
+                            </Typography>
+
+                            {errors.general && (
+                                <Typography color="error" variant="body2">
+                                    {errors.general}
+                                </Typography>
+                            )}
 
-                        <Box>
                             <TextField
-                                label="Password"
-                                type="password"
+                                label="Username"
                                 fullWidth
-                                value={form.password}
-                                onChange={handleChange('password')}
-                                error={!!errors.password}
-                                helperText={errors.password}
+                                value={form.username}
+                                onChange={handleChange('username')}
+                                error={!!errors.username}
+                                helperText={errors.username}
                             />
-                            <Box textAlign="right" sx={{ mt: 1 }}>
-                                <Link
-                                    component={RouterLink}
-                                    to="/forgot-password"
-                                    variant="body2"
-                                    underline="hover"
-                                    sx={{
-                                        fontSize: '0.875rem',
-                                        color: theme.palette.primary.main,
-                                        m: 0,
-                                    }}
-                                >
-                                    Forgot Password?
-                                </Link>
+
+                            <Box>
+                                <TextField
+                                    label="Password"
+                                    type="password"
+                                    fullWidth
+                                    value={form.password}
+                                    onChange={handleChange('password')}
+                                    error={!!errors.password}
+                                    helperText={errors.password}
+                                />
+                                <Box textAlign="right" sx={{ mt: 1 }}>
+                                    <Link
+                                        component={RouterLink}
+                                        to="/forgot-password"
+                                        variant="body2"
+                                        underline="hover"
+                                        sx={{
+                                            fontSize: '0.875rem',
+                                            color: theme.palette.primary.main,
+                                            m: 0,
+                                        }}
+                                    >
+                                        Forgot Password?
+                                    </Link>
+                                </Box>
                             </Box>
-                        </Box>
-
-                        <Button
-                            variant="contained"
-                            color="primary"
-                            fullWidth
-                            sx={{ mt: 1 }}
-                            onClick={handleLogin}
-                        >
-                            Log In
-                        </Button>
-
-                        <Typography variant="body2" textAlign="center">
-                            Don’t have an account?{' '}
-                            <Link component={RouterLink} to="/signup" underline="hover">
-                                Sign up
-                            </Link>
-                        </Typography>
-                    </Stack>
+
+                            <Button
+                                variant="contained"
+                                color="primary"
+                                fullWidth
+                                sx={{ mt: 1 }}
+                                onClick={handleLogin}
+                            >
+                                Log In
+                            </Button>
+
+                            <Button
+                                variant="outlined"
+                                color="secondary"
+                                fullWidth
+                                component={RouterLink}
+                                to="/sign-in-link"
+                            >
+                                Email me a sign-in link
+                            </Button>
+
+                            {providers.length > 0 && (
+                                <>
+                                    <Divider>or</Divider>
+                                    {providers.map((provider) => (
+                                        <Button
+                                            key={provider.id}
+                                            variant="outlined"
+                                            fullWidth
+                                            startIcon={PROVIDER_ICONS[provider.type]}
+                                            onClick={() => handleProviderLogin(provider)}
+                                        >
+                                            Continue with {provider.name}
+                                        </Button>
+                                    ))}
+                                </>
+                            )}
+
+                            <Typography variant="body2" textAlign="center">
+                                Don’t have an account?{' '}
+                                <Link component={RouterLink} to="/signup" underline="hover">
+                                    Sign up
+                                </Link>
+                            </Typography>
+                        </Stack>
+                    )}
                 </BackgroundCard>
             </Box>
 
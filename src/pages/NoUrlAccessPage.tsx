@@ -0,0 +1,11 @@
+import ForbiddenPage from './ForbiddenPage.tsx';
+
+/** Shown when the user's role allows the page but the short URL was not granted to them. */
+export default function NoUrlAccessPage() {
+    return (
+        <ForbiddenPage
+            title="No access to this link"
+            message="This short URL has not been shared with you. Ask an organization admin to grant you access."
+        />
+    );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState, FC } from 'react';
+import { Box, Button, CircularProgress, Stack, Typography, useTheme } from '@mui/material';
+import { Link as RouterLink, useNavigate, useSearchParams } from 'react-router-dom';
+
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api';
+import { isErr } from '../common/result';
+import { SessionManager } from '../auth/session.ts';
+import { IdentityProviders } from '../auth/identityProviders.ts';
+import { useAppToast } from '../components/toast.tsx';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep.tsx';
+
+/** Redirect target of external identity providers; finishes the PKCE login. */
+const OidcCallbackPage: FC = () => {
+    const theme = useTheme();
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const [failure, setFailure] = useState<string | null>(null);
+    // Set when the account also needs a second factor before the session is issued.
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    // The login state is consumed on the first run, so StrictMode's second run must be a no-op.
+    const completed = useRef(false);
+
+    const { success, apiError } = useAppToast();
+
+    useEffect(() => {
+        if (completed.current) return;
+        completed.current = true;
+
+        const result = IdentityProviders.completeLogin(searchParams);
+        if (!result.ok) {
+            setFailure(result.message);
+            return;
+        }
+
+        ApiClient.oidcLogin(result.dto).then((res) => {
+            if (isErr(res)) {
+                apiError('Login failed', res);
+                setFailure('The auth service did not accept this sign-in');
+                return;
+            }
+            if ('challengeToken' in res.value) {
+                setChallengeToken(res.value.challengeToken);
+                return;
+            }
+            window.location.href = SessionManager.signIn(res.value);
+            success('Login succeeded');
+        });
+    }, [searchParams, apiError, success]);
+
+    return (
+        <Box
+            sx={{
+                display: 'flex',
+                width: '100vw',
+                height: '100vh',
+                bgcolor: theme.palette.background.paper,
+                alignItems: 'center',
+                justifyContent: 'center',
+            }}
+        >
+            <BackgroundCard maxWidth={400} padding={5}>
+                {challengeToken ? (
+                    <TwoFactorLoginStep
+                        challengeToken={challengeToken}
+                        onBack={() => navigate('/login')}
+                    />
+                ) : failure === null ? (
+                    <Stack spacing={2} alignItems="center">
+                        <CircularProgress />
+                        <Typography variant="body1">Signing you in…</Typography>
+                    </Stack>
+                ) : (
+                    <Stack spacing={2}>
+                        <Typography variant="h5" align="center">
+                            Sign-in Failed
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" align="center">
+                            {failure}
+                        </Typography>
+                        <Button variant="contained" fullWidth component={RouterLink} to="/login">
+                            Back to Login
+                        </Button>
+                    </Stack>
+                )}
+            </BackgroundCard>
+        </Box>
+    );
+};
+
+export default OidcCallbackPage;
@@ -30,6 +30,7 @@ import MoreVertIcon from '@mui/icons-material/MoreVert';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { z } from 'zod';
 import { ApiClient } from '../common/api';
+import { hasErrorType, isErr, isOk } from '../common/result';
 import {
     InviteMemberDto,
     OrganizationMemberDto,
@@ -37,13 +38,18 @@ import {
     UpdateMemberUrlsDto,
 } from '../model/organizationMembers';
 import { ShortUrlDto } from '../model/urls';
-import { getAccessToken, hasRole } from '../auth/auth';
+import { getAccessToken } from '../auth/auth';
+import { useCan } from '../hooks/useCan.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { useRolePreview } from '../hooks/useRolePreview.ts';
+import { RolePreviewStore } from '../auth/rolePreview.ts';
+import { orgPath } from '../common/paths.ts';
+import { useNavigate } from 'react-router-dom';
 import BackgroundCard from '../components/BackgroundCard';
-import config from '../config/config';
-import { ErrorResponseElement, MessageResponseDto, ServiceErrorType } from '../model/common';
+import { ServiceErrorType } from '../model/common';
 import { MemberRole } from '../model/auth';
 import { useAppToast } from '../components/toast.tsx';
-import * as _ from 'lodash';
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
 
 const ROLE_LABELS: Record<MemberRole, string> = {
     [MemberRole.ORGANIZATION_OWNER]: 'Owner',
@@ -78,7 +84,7 @@ const inviteSchema = z
     });
 
 export default function OrganizationMembersPage() {
-    const slug = localStorage.getItem(config.currentOrganizationSlugKey)!;
+    const slug = useOrgSlug();
     const currentEmail = getAccessToken()?.username;
 
     const [members, setMembers] = useState<OrganizationMemberDto[]>([]);
@@ -111,38 +117,41 @@ export default function OrganizationMembersPage() {
     });
     const [inviteErrors, setInviteErrors] = useState<Partial<Record<string, string>>>({});
 
-    const [removeAnchor, setRemoveAnchor] = useState<HTMLElement | null>(null);
-    const [removeRow, setRemoveRow] = useState<OrganizationMemberDto | null>(null);
+    const [actionsAnchor, setActionsAnchor] = useState<HTMLElement | null>(null);
+    const [actionsRow, setActionsRow] = useState<OrganizationMemberDto | null>(null);
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
+    const runLatest = useLatestRequest();
 
-    const canManageMembers =
-        hasRole(MemberRole.ORGANIZATION_OWNER) ||
-        hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-        hasRole(MemberRole.ORGANIZATION_MEMBERS_MANAGER);
-    const canManageUrls =
-        hasRole(MemberRole.ORGANIZATION_URLS_MANAGER) ||
-        hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-        hasRole(MemberRole.ORGANIZATION_OWNER);
+    const can = useCan();
+    const canInvite = can('member.invite');
+    const canEditRoles = can('member.editRoles');
+    const canRemove = can('member.remove');
+    const canManageUrls = can('member.editUrls');
+    const previewing = !!useRolePreview();
+    const canPreview = can('member.preview') && !previewing;
+    const navigate = useNavigate();
 
     const fetchMembers = async () => {
         setLoading(true);
-        const res = await ApiClient.getOrganizationMembers(slug, {
-            p: page,
-            q: perPage,
-            sb: orderBy,
-            dir: orderDir,
-        });
-        if (!('errorType' in res)) {
-            const sorted = res.entries.sort(
+        const res = await runLatest((signal) =>
+            ApiClient.getOrganizationMembers(
+                slug,
+                { p: page, q: perPage, sb: orderBy, dir: orderDir },
+                { signal },
+            ),
+        );
+        if (!res) return;
+        if (isOk(res)) {
+            const sorted = res.value.entries.sort(
                 (a, b) =>
                     (b.roles.includes(MemberRole.ORGANIZATION_OWNER) ? 1 : 0) -
                     (a.roles.includes(MemberRole.ORGANIZATION_OWNER) ? 1 : 0),
             );
             setMembers(sorted);
-            setTotal(res.total);
+            setTotal(res.value.total);
         } else {
-            error('Could not get members of the organization');
+            apiError('Could not get members of the organization', res);
         }
         setLoading(false);
     };
@@ -161,7 +170,7 @@ export default function OrganizationMembersPage() {
     const handleRolesClick = (e: MouseEvent<HTMLElement>, member: OrganizationMemberDto) => {
         const isSelf = member.email === currentEmail;
         const isOwner = member.roles.includes(MemberRole.ORGANIZATION_OWNER);
-        if (!canManageMembers || isSelf || isOwner) return;
+        if (!canEditRoles || isSelf || isOwner) return;
         setRolesRow(member);
         setNewRoles(member.roles.filter((r) => r !== MemberRole.ORGANIZATION_OWNER));
         setRolesAnchor(e.currentTarget);
@@ -180,13 +189,9 @@ export default function OrganizationMembersPage() {
         const payload: UpdateMemberRolesDto = {
             newRoles: newRoles.length > 0 ? newRoles : [MemberRole.ORGANIZATION_MEMBER],
         };
-        const res: MessageResponseDto | ErrorResponseElement = await ApiClient.updateMemberRoles(
-            slug,
-            rolesRow.id,
-            payload,
-        );
-        if (_.has(res, 'errorType')) {
-            error('Could not update member roles');
+        const res = await ApiClient.updateMemberRoles(slug, rolesRow.id, payload);
+        if (isErr(res)) {
+            apiError('Could not update member roles', res);
             return;
         }
         success('Successfully updated member roles');
@@ -205,9 +210,11 @@ export default function OrganizationMembersPage() {
 
         const urlsRes = await ApiClient.getShortUrls(slug, { q: 10000 });
         let entries: ShortUrlDto[] = [];
-        if (!('errorType' in urlsRes)) {
-            entries = urlsRes.entries;
+        if (isOk(urlsRes)) {
+            entries = urlsRes.value.entries;
             setAllUrls(entries);
+        } else {
+            apiError('Could not get short URLs of the organization', urlsRes);
         }
         setAllowedAll(member.allowedAllUrls);
         setSelectedUrls(
@@ -222,13 +229,9 @@ export default function OrganizationMembersPage() {
             allowedAllUrls: allowedAll,
             newUrlsIds: allowedAll ? [] : selectedUrls.map((u) => u.id),
         };
-        const res: MessageResponseDto | ErrorResponseElement = await ApiClient.updateMemberUrls(
-            slug,
-            urlsMember.id,
-            dto,
-        );
-        if (_.has(res, 'errorType')) {
-            error('Could not update allowed URLs of member');
+        const res = await ApiClient.updateMemberUrls(slug, urlsMember.id, dto);
+        if (isErr(res)) {
+            apiError('Could not update allowed URLs of member', res);
             return;
         }
         success('Successfully updated member allowed URLs');
@@ -239,7 +242,7 @@ export default function OrganizationMembersPage() {
     const handleInviteOpen = async () => {
         setInviteOpen(true);
         const urlsRes = await ApiClient.getShortUrls(slug, { q: 10000 });
-        if (!('errorType' in urlsRes)) setAllUrls(urlsRes.entries);
+        if (isOk(urlsRes)) setAllUrls(urlsRes.value.entries);
     };
     const handleInviteClose = () => setInviteOpen(false);
     const handleInviteChange = (field: keyof InviteMemberDto, value: any) => {
@@ -260,14 +263,13 @@ export default function OrganizationMembersPage() {
             roles:
                 inviteData.roles.length > 0 ? inviteData.roles : [MemberRole.ORGANIZATION_MEMBER],
         };
-        const res = (await ApiClient.inviteMember(slug, dto)) as
-            | MessageResponseDto
-            | ErrorResponseElement;
-        if ('errorType' in res) {
-            if (res.errorType === ServiceErrorType.ENTITY_ALREADY_EXISTS) {
+        const res = await ApiClient.inviteMember(slug, dto);
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.ENTITY_ALREADY_EXISTS)) {
+                setInviteErrors({ email: 'Member with this email already exists' });
                 error('Member with this email already exists');
             } else {
-                error('Could not invite new member');
+                apiError('Could not invite new member', res);
             }
             return;
         }
@@ -285,31 +287,45 @@ export default function OrganizationMembersPage() {
         setInviteErrors({});
     };
 
-    const handleRemoveClick = (e: MouseEvent<HTMLElement>, member: OrganizationMemberDto) => {
-        setRemoveRow(member);
-        setRemoveAnchor(e.currentTarget);
+    const handleActionsClick = (e: MouseEvent<HTMLElement>, member: OrganizationMemberDto) => {
+        setActionsRow(member);
+        setActionsAnchor(e.currentTarget);
     };
+    const handlePreview = () => {
+        if (!actionsRow) return;
+        RolePreviewStore.start({
+            memberId: actionsRow.id,
+            memberName: actionsRow.fullName,
+            access: {
+                organizationId: actionsRow.organizationId,
+                slug,
+                roles: actionsRow.roles,
+                allowedUrls: actionsRow.allowedUrls,
+                allowedAllUrls: actionsRow.allowedAllUrls,
+            },
+        });
+        setActionsAnchor(null);
+        navigate(orgPath(slug));
+    };
+
     const handleRemove = async () => {
-        if (!removeRow) return;
-        const res: MessageResponseDto | ErrorResponseElement = await ApiClient.deleteMember(
-            slug,
-            removeRow.id,
-        );
-        if (_.has(res, 'errorType')) {
-            error('Could not remove member');
+        if (!actionsRow) return;
+        const res = await ApiClient.deleteMember(slug, actionsRow.id);
+        if (isErr(res)) {
+            apiError('Could not remove member', res);
             return;
         }
         success('Member was successfully removed');
-        setRemoveAnchor(null);
+        setActionsAnchor(null);
         setPage(0);
         fetchMembers();
     };
 
     return (
         <BackgroundCard padding={4} width="100%">
-            {canManageMembers && (
+            {canInvite && (
                 <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 3 }}>
-                    <Button variant="contained" onClick={handleInviteOpen}>
+                    <Button variant="contained" onClick={handleInviteOpen} disabled={previewing}>
                         Invite Member
                     </Button>
                 </Box>
@@ -345,7 +361,7 @@ export default function OrganizationMembersPage() {
                                 </TableCell>
                                 <TableCell>Roles</TableCell>
                                 <TableCell>URLs</TableCell>
-                                {canManageMembers && <TableCell>Actions</TableCell>}
+                                {(canRemove || canPreview) && <TableCell>Actions</TableCell>}
                             </TableRow>
                         </TableHead>
                         <TableBody>
@@ -353,13 +369,13 @@ export default function OrganizationMembersPage() {
                                 const isSelf = m.email === currentEmail;
                                 const isOwner = m.roles.includes(MemberRole.ORGANIZATION_OWNER);
                                 const isDisabled = isSelf || isOwner;
-                                const canOpenRolesMenu = canManageMembers && !isDisabled;
+                                const canOpenRolesMenu = canEditRoles && !isDisabled && !previewing;
                                 const labels =
                                     m.roles.length === 1 &&
                                     m.roles[0] === MemberRole.ORGANIZATION_MEMBER
                                         ? ['Member']
                                         : m.roles.map((r) => ROLE_LABELS[r]);
-                                const canEditUrls = canManageUrls && !isDisabled;
+                                const canEditUrls = canManageUrls && !isDisabled && !previewing;
 
                                 return (
                                     <TableRow key={m.id} hover>
@@ -417,12 +433,12 @@ export default function OrganizationMembersPage() {
                                                 `${m.allowedUrls.length} URLs`
                                             )}
                                         </TableCell>
-                                        {canManageMembers && (
+                                        {(canRemove || canPreview) && (
                                             <TableCell>
                                                 {!isDisabled && (
                                                     <IconButton
                                                         size="small"
-                                                        onClick={(e) => handleRemoveClick(e, m)}
+                                                        onClick={(e) => handleActionsClick(e, m)}
                                                     >
                                                         <MoreVertIcon />
                                                     </IconButton>
@@ -457,10 +473,8 @@ export default function OrganizationMembersPage() {
                         MemberRole.ORGANIZATION_MANAGER,
                         MemberRole.ORGANIZATION_URLS_MANAGER,
                     ].map((role) => {
-                        const isAdminOrOwner =
-                            hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                            hasRole(MemberRole.ORGANIZATION_ADMIN);
-                        const canToggle = isAdminOrOwner || hasRole(role);
+                        const canToggle =
+                            can('member.grantAnyRole') || can('member.grantOwnRole', role);
                         return (
                             <FormControlLabel
                                 key={role}
@@ -607,11 +621,16 @@ export default function OrganizationMembersPage() {
                 </DialogActions>
             </Dialog>
             <Menu
-                anchorEl={removeAnchor}
-                open={Boolean(removeAnchor)}
-                onClose={() => setRemoveAnchor(null)}
+                anchorEl={actionsAnchor}
+                open={Boolean(actionsAnchor)}
+                onClose={() => setActionsAnchor(null)}
             >
-                <MenuItem onClick={handleRemove}>Remove Member</MenuItem>
+                {canPreview && <MenuItem onClick={handlePreview}>Preview as…</MenuItem>}
+                {canRemove && (
+                    <MenuItem onClick={handleRemove} disabled={previewing}>
+                        Remove Member
+                    </MenuItem>
+                )}
             </Menu>
         </BackgroundCard>
     );
@@ -1,4 +1,4 @@
-import { ChangeEvent, Dispatch, SetStateAction, useEffect, useState } from 'react';
+import { ChangeEvent, useEffect, useState } from 'react';
 import {
     Avatar,
     Box,
@@ -16,21 +16,21 @@ import {
 } from '@mui/material';
 import Cropper, { Area } from 'react-easy-crop';
 import CloseIcon from '@mui/icons-material/Close';
-import config from '../config/config';
 import BackgroundCard from '../components/BackgroundCard';
-import { MemberRole, TokenResponseDto } from '../model/auth';
+import { TokenResponseDto } from '../model/auth';
 import {
-    OrganizationDto,
-    OrganizationsListDto,
     OrganizationType,
     UpdateOrganizationAvatarDto,
     UpdateOrganizationInfoDto,
 } from '../model/organizations';
-import { getAccessToken, hasRole } from '../auth/auth.ts';
-import { ApiClient } from '../common/api.ts';
-import { ErrorResponseElement } from '../model/common.ts';
-import * as _ from 'lodash';
+import { useCan } from '../hooks/useCan.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { useRolePreview } from '../hooks/useRolePreview.ts';
+import { SessionManager } from '../auth/session.ts';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { isErr } from '../common/result.ts';
 import { useAppToast } from '../components/toast.tsx';
+import { useApiQuery } from '../hooks/useApiQuery.ts';
 
 const createImage = (url: string): Promise<HTMLImageElement> =>
     new Promise((resolve, reject) => {
@@ -62,20 +62,10 @@ const getCroppedImg = async (imageSrc: string, pixelCrop: Area): Promise<string>
     return canvas.toDataURL('image/jpeg');
 };
 
-export interface OrganizationSettingsProps {
-    org: OrganizationDto | null;
-    setOrg: Dispatch<SetStateAction<OrganizationDto | null>>;
-    setOrgs: Dispatch<SetStateAction<OrganizationDto[] | null>>;
-}
-
-export default function OrganizationSettingsPage({
-    org,
-    setOrg,
-    setOrgs,
-}: OrganizationSettingsProps) {
-    const slug = localStorage.getItem(config.currentOrganizationSlugKey) || '';
+export default function OrganizationSettingsPage() {
+    const slug = useOrgSlug();
+    const previewing = !!useRolePreview();
 
-    const [loading, setLoading] = useState(true);
     const [name, setName] = useState('');
     const [url, setUrl] = useState('');
     const [description, setDescription] = useState('');
@@ -89,24 +79,27 @@ export default function OrganizationSettingsPage({
     const [showCrop, setShowCrop] = useState(false);
     const [processingAvatar, setProcessingAvatar] = useState(false);
 
-    const { success, error } = useAppToast();
+    const { success, apiError } = useAppToast();
+    const can = useCan();
+
+    const { data: org, failure: orgFailure } = useApiQuery(queryKeys.organization(slug), (signal) =>
+        ApiClient.getOrganizationBySlug(slug, { signal }),
+    );
 
     useEffect(() => {
-        (async () => {
-            const organizationRes: OrganizationDto | ErrorResponseElement =
-                await ApiClient.getOrganizationBySlug(slug);
-            if (_.has(organizationRes, 'errorType')) {
-                error('Could not get current organization info');
-                return;
-            }
-            const organization: OrganizationDto = organizationRes as OrganizationDto;
-            setOrg(organization);
-            setName(organization.name);
-            setUrl(organization.url ?? '');
-            setDescription(organization.description || '');
-            setLoading(false);
-        })();
-    }, [slug, setOrg]);
+        if (orgFailure) apiError('Could not get current organization info', orgFailure);
+    }, [orgFailure, apiError]);
+
+    // Refill the form when the saved organization changes, but not when a revalidation returns
+    // the same data, which would discard unsaved edits.
+    const saved = org && JSON.stringify([org.id, org.name, org.url, org.description]);
+    const [shownOrg, setShownOrg] = useState<string | null>(null);
+    if (org && saved !== shownOrg) {
+        setShownOrg(saved);
+        setName(org.name);
+        setUrl(org.url ?? '');
+        setDescription(org.description || '');
+    }
 
     const handleSaveInfo = async () => {
         setSaving(true);
@@ -116,26 +109,15 @@ export default function OrganizationSettingsPage({
             newDescription: description,
         };
 
-        const updatedOrganization: OrganizationDto | ErrorResponseElement =
-            await ApiClient.updateOrganizationInfo(slug, dto);
+        const updatedOrganization = await ApiClient.updateOrganizationInfo(slug, dto);
 
-        if (_.has(updatedOrganization, 'errorType')) {
-            error('Could not update organization info');
+        if (isErr(updatedOrganization)) {
+            apiError('Could not update organization info', updatedOrganization);
+            setSaving(false);
             return;
         }
 
         success('Successfully updated organization info');
-
-        const updatedOrganizations: OrganizationsListDto | ErrorResponseElement =
-            await ApiClient.getUserOrganizations({ q: 10000 });
-        if (_.has(updatedOrganizations, 'errorType')) {
-            error("Could not get participating organizations' info");
-            return;
-        }
-
-        setOrg(updatedOrganization as OrganizationDto);
-        setOrgs((updatedOrganizations as OrganizationsListDto).entries);
-
         setSaving(false);
     };
 
@@ -168,70 +150,46 @@ export default function OrganizationSettingsPage({
         const base64 = croppedImage.split(',')[1];
         const dto: UpdateOrganizationAvatarDto = { newAvatarBase64: base64 };
 
-        const updatedOrganization: OrganizationDto | ErrorResponseElement =
-            await ApiClient.updateOrganizationAvatar(slug, dto);
-        if (_.has(updatedOrganization, 'errorType')) {
-            error('Could not upload organization avatar');
+        const updatedOrganization = await ApiClient.updateOrganizationAvatar(slug, dto);
+        if (isErr(updatedOrganization)) {
+            apiError('Could not upload organization avatar', updatedOrganization);
+            setProcessingAvatar(false);
             return;
         }
 
         success('Successfully uploaded organization avatar');
-
-        const updatedOrganizations: OrganizationsListDto | ErrorResponseElement =
-            await ApiClient.getUserOrganizations({ q: 10000 });
-        if (_.has(updatedOrganizations, 'errorType')) {
-            error("Could not get participating organization's info");
-            return;
-        }
-
-        setOrg(updatedOrganization as OrganizationDto);
-        setOrgs((updatedOrganizations as OrganizationsListDto).entries);
         setCroppedImage(null);
         setProcessingAvatar(false);
     };
 
     const handleDeleteAvatar = async () => {
         setProcessingAvatar(true);
-        const updatedOrganization: OrganizationDto | ErrorResponseElement =
-            await ApiClient.deleteOrganizationAvatar(slug);
-        if (_.has(updatedOrganization, 'errorType')) {
-            error('Could not delete organization avatar');
+        const updatedOrganization = await ApiClient.deleteOrganizationAvatar(slug);
+        if (isErr(updatedOrganization)) {
+            apiError('Could not delete organization avatar', updatedOrganization);
+            setProcessingAvatar(false);
             return;
         }
 
         success('Successfully deleted organization avatar');
-
-        const updatedOrganizations: OrganizationsListDto | ErrorResponseElement =
-            await ApiClient.getUserOrganizations({ q: 10000 });
-        if (_.has(updatedOrganizations, 'errorType')) {
-            error("Could not get participating organization's info");
-            return;
-        }
-
-        setOrg(updatedOrganization as OrganizationDto);
-        setOrgs((updatedOrganizations as OrganizationsListDto).entries);
         setProcessingAvatar(false);
     };
 
     const handleDeleteOrg = async () => {
-        const updatedTokens: TokenResponseDto | ErrorResponseElement =
-            await ApiClient.deleteOrganization(slug);
-        if (_.has(updatedTokens, 'errorType')) {
-            error('Could not delete organization');
+        const updatedTokens = await ApiClient.deleteOrganization(slug);
+        if (isErr(updatedTokens)) {
+            apiError('Could not delete organization', updatedTokens);
             return;
         }
 
-        const { accessToken, refreshToken } = updatedTokens as TokenResponseDto;
-        localStorage.setItem(config.accessTokenKey, accessToken);
-        localStorage.setItem(config.refreshTokenKey, refreshToken!);
-        const { organizations } = getAccessToken()!;
-        localStorage.setItem(config.currentOrganizationSlugKey, organizations[0].slug);
+        const tokens: TokenResponseDto = updatedTokens.value;
+        SessionManager.setTokens(tokens);
         window.location.href = '/urls';
 
         success('Successfully deleted organization');
     };
 
-    if (loading) return <CircularProgress />;
+    if (!org) return <CircularProgress />;
 
     return (
         <Box sx={{ width: '100%' }}>
@@ -258,7 +216,12 @@ export default function OrganizationSettingsPage({
                                 src={croppedImage || org?.avatarUrl || undefined}
                                 sx={{ width: 200, height: 200 }}
                             />
-                            <Button variant="outlined" component="label" fullWidth>
+                            <Button
+                                variant="outlined"
+                                component="label"
+                                fullWidth
+                                disabled={previewing}
+                            >
                                 Choose Avatar
                                 <input
                                     type="file"
@@ -268,7 +231,12 @@ export default function OrganizationSettingsPage({
                                 />
                             </Button>
                             {croppedImage && (
-                                <Button variant="contained" onClick={handleUploadAvatar} fullWidth>
+                                <Button
+                                    variant="contained"
+                                    onClick={handleUploadAvatar}
+                                    fullWidth
+                                    disabled={previewing}
+                                >
                                     {processingAvatar ? 'Uploading…' : 'Upload'}
                                 </Button>
                             )}
@@ -278,6 +246,7 @@ export default function OrganizationSettingsPage({
                                     color="error"
                                     fullWidth
                                     onClick={handleDeleteAvatar}
+                                    disabled={previewing}
                                 >
                                     {processingAvatar ? 'Removing…' : 'Remove Avatar'}
                                 </Button>
@@ -309,22 +278,22 @@ export default function OrganizationSettingsPage({
                             <Button
                                 variant="contained"
                                 onClick={handleSaveInfo}
-                                disabled={saving}
+                                disabled={saving || previewing}
                                 fullWidth
                             >
                                 {saving ? 'Saving…' : 'Save Changes'}
                             </Button>
-                            {org?.type !== OrganizationType.PERMANENT &&
-                                hasRole(MemberRole.ORGANIZATION_OWNER) && (
-                                    <Button
-                                        variant="outlined"
-                                        color="error"
-                                        onClick={handleDeleteOrg}
-                                        fullWidth
-                                    >
-                                        Delete Organization
-                                    </Button>
-                                )}
+                            {org?.type !== OrganizationType.PERMANENT && can('org.delete') && (
+                                <Button
+                                    variant="outlined"
+                                    color="error"
+                                    onClick={handleDeleteOrg}
+                                    fullWidth
+                                    disabled={previewing}
+                                >
+                                    Delete Organization
+                                </Button>
+                            )}
                         </Stack>
                     </Stack>
                 </Stack>
@@ -5,7 +5,8 @@ import { Box, Typography, TextField, Button, Stack } from '@mui/material';
 
 import BackgroundCard from '../components/BackgroundCard';
 import { ApiClient } from '../common/api';
-import { ErrorResponseElement } from '../model/common';
+import { isErr } from '../common/result';
+import { passwordPolicySchema } from '../common/passwordPolicy';
 import { useAppToast } from '../components/toast.tsx';
 
 type PasswordForm = {
@@ -15,17 +16,7 @@ type PasswordForm = {
 
 const passwordSchema = z
     .object({
-        password: z
-            .string()
-            .min(8, 'Password must be at least 8 characters')
-            .max(64, 'Password must be at most 64 characters')
-            .regex(/\d/, { message: 'Password must contain at least one digit' })
-            .regex(/[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/, {
-                message: 'Password must contain at least one special character',
-            })
-            .regex(/[a-z]/, { message: 'Password must contain at least one lowercase letter' })
-            .regex(/[A-Z]/, { message: 'Password must contain at least one uppercase letter' })
-            .refine((val) => !/\s/.test(val), { message: 'Password must not contain whitespace' }),
+        password: passwordPolicySchema,
         confirmPassword: z.string().nonempty('Please confirm your password'),
     })
     .refine((data) => data.password === data.confirmPassword, {
@@ -41,7 +32,7 @@ const PasswordRecoveryPage: FC = () => {
     const [errors, setErrors] = useState<Partial<PasswordForm & { general?: string }>>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
 
     const handleChange = (field: keyof PasswordForm) => (e: ChangeEvent<HTMLInputElement>) => {
         setForm((prev) => ({ ...prev, [field]: e.target.value }));
@@ -64,8 +55,8 @@ const PasswordRecoveryPage: FC = () => {
             setIsSubmitting(true);
             if (recoveryCode) {
                 const response = await ApiClient.resetPasswordByCode(recoveryCode, form.password);
-                if ((response as ErrorResponseElement)?.errorType) {
-                    error('Password reset failed');
+                if (isErr(response)) {
+                    apiError('Password reset failed', response);
                 } else {
                     success('Password reset was successful');
                     navigate('/login');
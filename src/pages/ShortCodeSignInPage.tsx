@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState, FC } from 'react';
+import { Box, Button, CircularProgress, Stack, Typography, useTheme } from '@mui/material';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api';
+import { hasErrorType, isErr } from '../common/result';
+import { SessionManager } from '../auth/session.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import { useAppToast } from '../components/toast.tsx';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep.tsx';
+import SignInLinkPage from './SignInLinkPage.tsx';
+
+type ExchangeState = 'pending' | 'expired' | 'failed';
+
+/** Landing page of emailed sign-in links: trades the short code for a session. */
+const ShortCodeSignInPage: FC = () => {
+    const theme = useTheme();
+    const { shortCode = '' } = useParams<{ shortCode: string }>();
+    const navigate = useNavigate();
+    const [state, setState] = useState<ExchangeState>('pending');
+    // Set when the account also needs a second factor before the session is issued.
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    // Codes are single use, so StrictMode's second effect run must not exchange it again.
+    const exchanged = useRef(false);
+
+    const { success, apiError } = useAppToast();
+
+    useEffect(() => {
+        if (exchanged.current) return;
+        exchanged.current = true;
+
+        ApiClient.exchangeShortCode(shortCode).then((res) => {
+            if (isErr(res)) {
+                if (hasErrorType(res, ServiceErrorType.SHORT_CODE_EXPIRED)) {
+                    setState('expired');
+                } else {
+                    apiError('Could not sign in with this link', res);
+                    setState('failed');
+                }
+                return;
+            }
+            if ('challengeToken' in res.value) {
+                setChallengeToken(res.value.challengeToken);
+                return;
+            }
+            window.location.href = SessionManager.signIn(res.value);
+            success('Login succeeded');
+        });
+    }, [shortCode, apiError, success]);
+
+    if (state === 'expired') return <SignInLinkPage expired />;
+
+    return (
+        <Box
+            sx={{
+                display: 'flex',
+                width: '100vw',
+                height: '100vh',
+                bgcolor: theme.palette.background.paper,
+                alignItems: 'center',
+                justifyContent: 'center',
+            }}
+        >
+            <BackgroundCard maxWidth={400} padding={5}>
+                {challengeToken ? (
+                    <TwoFactorLoginStep
+                        challengeToken={challengeToken}
+                        onBack={() => navigate('/login')}
+                    />
+                ) : state === 'pending' ? (
+                    <Stack spacing={2} alignItems="center">
+                        <CircularProgress />
+                        <Typography variant="body1">Signing you in…</Typography>
+                    </Stack>
+                ) : (
+                    <Stack spacing={2}>
+                        <Typography variant="h5" align="center">
+                            Invalid Sign-in Link
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" align="center">
+                            This link was already used or does not exist.
+                        </Typography>
+                        <Button
+                            variant="contained"
+                            fullWidth
+                            component={RouterLink}
+                            to="/sign-in-link"
+                        >
+                            Send Me a New Link
+                        </Button>
+                        <Button
+                            variant="outlined"
+                            color="secondary"
+                            fullWidth
+                            component={RouterLink}
+                            to="/login"
+                        >
+                            Go Back
+                        </Button>
+                    </Stack>
+                )}
+            </BackgroundCard>
+        </Box>
+    );
+};
+
+export default ShortCodeSignInPage;
@@ -37,10 +37,10 @@ import {
 } from 'date-fns';
 import { getTimezoneOffset } from 'date-fns-tz';
 import { ApiClient } from '../common/api';
+import { hasErrorType, isOk } from '../common/result';
 import worldData from 'world-atlas/countries-110m.json';
 import { feature } from 'topojson-client';
 import { GlobalStatisticsDto, PeriodCountsDto, StatsPeriod } from '../model/statistics';
-import config from '../config/config';
 import bbox from '@turf/bbox';
 import { randomPoint } from '@turf/random';
 import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
@@ -50,6 +50,10 @@ import countries from 'i18n-iso-countries';
 import en from 'i18n-iso-countries/langs/en.json';
 import { ShortUrlDto, ShortUrlState } from '../model/urls.ts';
 import { useAppToast } from '../components/toast.tsx';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import ScheduleChips from '../components/ScheduleChips.tsx';
+import NoUrlAccessPage from './NoUrlAccessPage.tsx';
 
 countries.registerLocale(en);
 
@@ -109,22 +113,26 @@ export default function ShortUrlStatsPage() {
     const primaryColor = theme.palette.primary.main;
     const { urlId } = useParams<{ urlId: string }>();
     const id = Number(urlId);
-    const slug = localStorage.getItem(config.currentOrganizationSlugKey)!;
+    const slug = useOrgSlug();
 
     const [shortUrl, setShortUrl] = useState<ShortUrlDto | null>(null);
     const [loadingShortUrl, setLoadingShortUrl] = useState(false);
+    // The grant may have been revoked after the access token was issued.
+    const [accessDenied, setAccessDenied] = useState(false);
 
-    const { error } = useAppToast();
+    const { apiError } = useAppToast();
 
     useEffect(() => {
         if (!slug || !id) return;
         setLoadingShortUrl(true);
         ApiClient.getShortUrl(slug, id)
             .then((res) => {
-                if (!('errorType' in res)) {
-                    setShortUrl(res as ShortUrlDto);
+                if (isOk(res)) {
+                    setShortUrl(res.value);
+                } else if (hasErrorType(res, ServiceErrorType.ACCESS_DENIED)) {
+                    setAccessDenied(true);
                 } else {
-                    error('Could not get short URL info');
+                    apiError('Could not get short URL info', res);
                 }
             })
             .finally(() => setLoadingShortUrl(false));
@@ -160,10 +168,10 @@ export default function ShortUrlStatsPage() {
         setLoadingGlobal(true);
         ApiClient.getGlobalStats(slug, id)
             .then((res) => {
-                if (!('errorType' in res)) {
-                    setGlobalStats(res as GlobalStatisticsDto);
-                } else {
-                    error('Could not get global stats for short URL');
+                if (isOk(res)) {
+                    setGlobalStats(res.value);
+                } else if (!hasErrorType(res, ServiceErrorType.ACCESS_DENIED)) {
+                    apiError('Could not get global stats for short URL', res);
                 }
             })
             .finally(() => setLoadingGlobal(false));
@@ -226,10 +234,10 @@ export default function ShortUrlStatsPage() {
         setLoadingTime((t) => ({ ...t, [p]: true }));
         ApiClient.getTimeRangeStats(slug, id, start, end, p)
             .then((res) => {
-                if (!('errorType' in res)) {
-                    setTimeData((t) => ({ ...t, [p]: res as PeriodCountsDto }));
-                } else {
-                    error('Could not time range stats');
+                if (isOk(res)) {
+                    setTimeData((t) => ({ ...t, [p]: res.value }));
+                } else if (!hasErrorType(res, ServiceErrorType.ACCESS_DENIED)) {
+                    apiError('Could not get time range stats', res);
                 }
             })
             .finally(() => setLoadingTime((t) => ({ ...t, [p]: false })));
@@ -279,6 +287,8 @@ export default function ShortUrlStatsPage() {
         },
     };
 
+    if (accessDenied) return <NoUrlAccessPage />;
+
     return (
         <LocalizationProvider dateAdapter={AdapterDateFns}>
             <BackgroundCard padding={4} width="100%">
@@ -299,6 +309,11 @@ export default function ShortUrlStatsPage() {
                             borderRadius: 1,
                         }}
                     >
+                        {shortUrl.title && (
+                            <Typography variant="h6" gutterBottom>
+                                {shortUrl.title}
+                            </Typography>
+                        )}
                         <Typography variant="subtitle2" gutterBottom>
                             Original URL:{' '}
                             <Link
@@ -332,6 +347,7 @@ export default function ShortUrlStatsPage() {
                                 color={STATE_COLORS[shortUrl.state]}
                                 size="small"
                             />
+                            <ScheduleChips url={shortUrl} showDates />
                             {shortUrl.tags.map((tag) => (
                                 <Chip key={tag} label={tag} size="small" variant="outlined" />
                             ))}
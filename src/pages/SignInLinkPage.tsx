@@ -0,0 +1,131 @@
+import { useState, ChangeEvent, FC } from 'react';
+import { z } from 'zod';
+import { Box, Typography, TextField, Button, useTheme, Stack } from '@mui/material';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+
+import BackgroundCard from '../components/BackgroundCard';
+import { ApiClient } from '../common/api';
+import { isErr } from '../common/result';
+import { useAppToast } from '../components/toast.tsx';
+
+const signInLinkSchema = z.object({
+    email: z.string().email('Invalid email').nonempty('Email is required'),
+});
+
+type SignInLinkForm = {
+    email: string;
+};
+
+export interface SignInLinkPageProps {
+    /** Shown after following a sign-in link that ran out, offering to send a fresh one. */
+    expired?: boolean;
+}
+
+const SignInLinkPage: FC<SignInLinkPageProps> = ({ expired = false }) => {
+    const theme = useTheme();
+    const navigate = useNavigate();
+
+    const [form, setForm] = useState<SignInLinkForm>({ email: '' });
+    const [errors, setErrors] = useState<Partial<SignInLinkForm>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { success, error, apiError } = useAppToast();
+
+    const handleChange = (field: keyof SignInLinkForm) => (e: ChangeEvent<HTMLInputElement>) => {
+        setForm((prev) => ({ ...prev, [field]: e.target.value }));
+        setErrors((prev) => ({ ...prev, [field]: undefined }));
+    };
+
+    const handleSubmit = async () => {
+        const result = signInLinkSchema.safeParse(form);
+        if (!result.success) {
+            const fieldErrors: Partial<SignInLinkForm> = {};
+            result.error.errors.forEach((err) => {
+                const key = err.path[0] as keyof SignInLinkForm;
+                fieldErrors[key] = err.message;
+            });
+            setErrors(fieldErrors);
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            const response = await ApiClient.sendSignInLink(form.email.trim());
+            if (isErr(response)) {
+                apiError('Failed to send sign-in link', response);
+            } else {
+                success(`A sign-in link was sent to ${form.email.trim()}`);
+                navigate('/login');
+            }
+        } catch (e) {
+            console.error('Sign-in link error:', e);
+            error('Network error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Box
+            sx={{
+                display: 'flex',
+                width: '100vw',
+                height: '100vh',
+                bgcolor: theme.palette.background.paper,
+                alignItems: 'center',
+                justifyContent: 'center',
+            }}
+        >
+            <BackgroundCard maxWidth={400} padding={5}>
+                <Stack spacing={2}>
+                    <Typography variant="h5" align="center">
+                        {expired ? 'Sign-in Link Expired' : 'Sign In by Email'}
+                    </Typography>
+
+                    <Typography variant="body2" color="text.secondary" align="center">
+                        {expired
+                            ? 'This sign-in link is no longer valid. Enter your email and we will send you a new one.'
+                            : 'Enter your email and we will send you a link that signs you in without a password.'}
+                    </Typography>
+
+                    <TextField
+                        label="Email"
+                        fullWidth
+                        value={form.email}
+                        onChange={handleChange('email')}
+                        error={!!errors.email}
+                        helperText={errors.email}
+                    />
+
+                    <Button
+                        variant="contained"
+                        color="primary"
+                        fullWidth
+                        sx={{ mt: 1 }}
+                        onClick={handleSubmit}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting
+                            ? 'Sending...'
+                            : expired
+                              ? 'Send Me a New Link'
+                              : 'Send Sign-in Link'}
+                    </Button>
+
+                    <Button
+                        variant="outlined"
+                        color="secondary"
+                        fullWidth
+                        sx={{ mt: 1 }}
+                        component={RouterLink}
+                        to="/login"
+                    >
+                        Go Back
+                    </Button>
+                </Stack>
+            </BackgroundCard>
+        </Box>
+    );
+};
+
+export default SignInLinkPage;
@@ -16,11 +16,12 @@ import { Link as RouterLink } from 'react-router-dom';
 import BackgroundCard from '../components/BackgroundCard';
 import moon from '../images/moon.png';
 import sun from '../images/sun.png';
-import config from '../config/config';
-import { ErrorResponseElement, ServiceErrorType } from '../model/common';
+import { ServiceErrorType } from '../model/common';
 import { TokenResponseDto } from '../model/auth';
+import { SessionManager } from '../auth/session.ts';
 import { ApiClient } from '../common/api.ts';
-import * as _ from 'lodash';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { passwordPolicySchema } from '../common/passwordPolicy.ts';
 import { useAppToast } from '../components/toast.tsx';
 
 interface SignupPageProps {
@@ -30,17 +31,7 @@ interface SignupPageProps {
 
 const signupSchema = z.object({
     username: z.string().email('Invalid email').max(255),
-    password: z
-        .string()
-        .min(8, 'Password must be at least 8 characters')
-        .max(64, 'Password must be at most 64 characters')
-        .regex(/\d/, { message: 'Password must contain at least one digit' })
-        .regex(/[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/, {
-            message: 'Password must contain at least one special character',
-        })
-        .regex(/[a-z]/, { message: 'Password must contain at least one lowercase letter' })
-        .regex(/[A-Z]/, { message: 'Password must contain at least one uppercase letter' })
-        .refine((val) => !/\s/.test(val), { message: 'Password must not contain whitespace' }),
+    password: passwordPolicySchema,
     firstName: z.string().nonempty('First name is required').max(255),
     lastName: z.string().max(255).nullable(),
     companyName: z.string().max(255).nullable(),
@@ -68,7 +59,7 @@ const SignupPage: FC<SignupPageProps> = ({ darkMode, setDarkMode }) => {
     const [errors, setErrors] = useState<Partial<Record<keyof SignupForm | 'general', string>>>({});
     const [loading, setLoading] = useState(false);
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
 
     const handleChange = (field: keyof SignupForm) => (e: ChangeEvent<HTMLInputElement>) => {
         setForm((prev) => ({ ...prev, [field]: e.target.value }));
@@ -89,23 +80,20 @@ const SignupPage: FC<SignupPageProps> = ({ darkMode, setDarkMode }) => {
 
         setLoading(true);
         try {
-            const tokensResponse: TokenResponseDto | ErrorResponseElement = await ApiClient.signup(
-                parse.data,
-            );
+            const tokensResponse = await ApiClient.signup(parse.data);
 
-            if (_.has(tokensResponse, 'errorType')) {
-                if (tokensResponse.errorType === ServiceErrorType.ENTITY_ALREADY_EXISTS) {
+            if (isErr(tokensResponse)) {
+                if (hasErrorType(tokensResponse, ServiceErrorType.ENTITY_ALREADY_EXISTS)) {
                     error('User with this email already exists');
                 } else {
-                    error('Signup failed');
+                    apiError('Signup failed', tokensResponse);
                 }
                 setLoading(false);
                 return;
             }
 
-            const { accessToken, refreshToken } = tokensResponse as TokenResponseDto;
-            localStorage.setItem(config.accessTokenKey, accessToken);
-            localStorage.setItem(config.refreshTokenKey, refreshToken!);
+            const { accessToken, refreshToken }: TokenResponseDto = tokensResponse.value;
+            SessionManager.setTokens({ accessToken, refreshToken });
 
             window.location.href = '/urls';
             success('Registration is successful');
@@ -1,14 +1,17 @@
 import { ChangeEvent, KeyboardEvent, MouseEvent, SyntheticEvent, useEffect, useState } from 'react';
 import {
+    Alert,
     Autocomplete,
     Box,
     Button,
+    Checkbox,
     Chip,
     CircularProgress,
     Dialog,
     DialogActions,
     DialogContent,
     DialogTitle,
+    FormControlLabel,
     FormHelperText,
     IconButton,
     Link,
@@ -22,32 +25,54 @@ import {
     TableRow,
     TableSortLabel,
     TextField,
+    Switch,
+    Typography,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import BarChartIcon from '@mui/icons-material/BarChart';
-import { z } from 'zod';
+import EditIcon from '@mui/icons-material/Edit';
+import { useSearchParams } from 'react-router-dom';
 import BackgroundCard from '../components/BackgroundCard';
 import {
     ChangeUrlStateDto,
+    EXPIRING_SOON_DAYS,
     ShortUrlDto,
     ShortUrlsListDto,
     ShortUrlsSearchParams,
     ShortUrlState,
 } from '../model/urls';
-import config from '../config/config';
-import { ErrorResponseElement } from '../model/common';
 import { ApiClient } from '../common/api';
-import { MemberRole, TokenResponseDto } from '../model/auth';
-import { hasRole } from '../auth/auth.ts';
+import { ApiFailure, ApiResult, errorMessages, hasErrorType, isErr, isOk } from '../common/result';
+import { runBatched } from '../common/batch.ts';
+import { downloadFile } from '../common/download.ts';
+import { URL_EXPORT_FORMATS, UrlExportFormat, urlsToCsv } from '../common/urlExport.ts';
+import ExportUrlsDialog from '../components/ExportUrlsDialog.tsx';
+import BulkActionsBar from '../components/BulkActionsBar.tsx';
+import BulkProgressDialog, {
+    BulkFailure,
+    BulkProgress,
+} from '../components/BulkProgressDialog.tsx';
+import BulkTagsDialog, { BulkTagsMode } from '../components/BulkTagsDialog.tsx';
+import { createShortUrlSchema } from '../common/shortUrlForm.ts';
+import { ServiceErrorType } from '../model/common.ts';
+import AliasField, { AliasStatus } from '../components/AliasField.tsx';
+import EditShortUrlDialog from '../components/EditShortUrlDialog.tsx';
+import ImportUrlsDialog from '../components/ImportUrlsDialog.tsx';
+import ScheduleFields from '../components/ScheduleFields.tsx';
+import ScheduleChips from '../components/ScheduleChips.tsx';
+import {
+    EMPTY_SCHEDULE,
+    ScheduleErrors,
+    ScheduleInput,
+    scheduleSchema,
+} from '../common/schedule.ts';
+import { getCurrentOrganizationAccess } from '../auth/auth.ts';
+import { useCan } from '../hooks/useCan.ts';
+import { useOrgSlug } from '../hooks/useOrgSlug.ts';
+import { useRolePreview } from '../hooks/useRolePreview.ts';
+import { orgPath } from '../common/paths.ts';
 import { useAppToast } from '../components/toast.tsx';
-
-const createShortUrlSchema = z.object({
-    originalUrl: z
-        .string({ required_error: 'Original URL is required' })
-        .nonempty('Original URL is required')
-        .url('Must be a valid URL'),
-    tags: z.array(z.string(), {}),
-});
+import { useLatestRequest } from '../hooks/useLatestRequest.ts';
 
 const STATE_LABELS: Record<ShortUrlState, string> = {
     [ShortUrlState.PENDING]: 'Pending',
@@ -62,69 +87,340 @@ const STATE_COLORS: Record<ShortUrlState, 'default' | 'info' | 'success' | 'warn
     [ShortUrlState.ARCHIVED]: 'default',
 };
 
+/** Why a link in `from` cannot move to `to`, or null when the transition is allowed. */
+const stateChangeError = (from: ShortUrlState, to: ShortUrlState): string | null => {
+    if (from === ShortUrlState.ARCHIVED) return 'Archived links cannot change state';
+    if (from !== ShortUrlState.PENDING && to === ShortUrlState.PENDING) {
+        return 'Links that have been live cannot return to pending';
+    }
+    return null;
+};
+
+const failureReason = (failure: ApiFailure): string =>
+    errorMessages(failure).join('; ') || `Request failed (${failure.status ?? 'network error'})`;
+
+type SortField = 'originalUrl' | 'shortUrl';
+
+const DEFAULT_PER_PAGE = 10;
+const DEFAULT_ORDER_BY: SortField = 'shortUrl';
+// "Select all N matching" loads the matches in pages of this size before acting on them.
+const BULK_PAGE_SIZE = 500;
+const BULK_BATCH_SIZE = 5;
+
+/** Filters live in the query string so a reload or a new login lands on the same view. */
+const readFilters = (params: URLSearchParams) => {
+    const states = Object.values(ShortUrlState) as string[];
+    const sb = params.get('sb');
+    return {
+        page: Math.max(0, Number(params.get('p')) || 0),
+        perPage: Number(params.get('q')) || DEFAULT_PER_PAGE,
+        tags: params.getAll('tags'),
+        states: params.getAll('s').filter((s): s is ShortUrlState => states.includes(s)),
+        orderBy: (sb === 'originalUrl' || sb === 'shortUrl' ? sb : DEFAULT_ORDER_BY) as SortField,
+        orderDir: params.get('dir') === 'desc' ? 'desc' : ('asc' as 'asc' | 'desc'),
+        onlyMine: params.get('mine') === '1',
+        expiringSoon: params.get('soon') === '1',
+    };
+};
+
 export default function UrlsPage() {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [initialFilters] = useState(() => readFilters(searchParams));
+
     const [entries, setEntries] = useState<ShortUrlDto[]>([]);
     const [allTags, setAllTags] = useState<string[]>([]);
     const [total, setTotal] = useState(0);
-    const [page, setPage] = useState(0);
-    const [perPage, setPerPage] = useState(10);
+    const [page, setPage] = useState(initialFilters.page);
+    const [perPage, setPerPage] = useState(initialFilters.perPage);
     const [loading, setLoading] = useState(false);
 
-    const [tagsFilter, setTagsFilter] = useState<string[]>([]);
-    const [stateFilter, setStateFilter] = useState<ShortUrlState[]>([]);
+    const [tagsFilter, setTagsFilter] = useState<string[]>(initialFilters.tags);
+    const [stateFilter, setStateFilter] = useState<ShortUrlState[]>(initialFilters.states);
 
-    const [orderBy, setOrderBy] = useState<'originalUrl' | 'shortUrl'>('shortUrl');
-    const [orderDir, setOrderDir] = useState<'asc' | 'desc'>('asc');
+    const [orderBy, setOrderBy] = useState<SortField>(initialFilters.orderBy);
+    const [orderDir, setOrderDir] = useState<'asc' | 'desc'>(initialFilters.orderDir);
+    const [onlyMine, setOnlyMine] = useState(initialFilters.onlyMine);
+    const [expiringSoon, setExpiringSoon] = useState(initialFilters.expiringSoon);
 
     const [createOpen, setCreateOpen] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
+    const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+    const [exportFormat, setExportFormat] = useState<UrlExportFormat | null>(null);
     const [newOriginalUrl, setNewOriginalUrl] = useState('');
     const [newTags, setNewTags] = useState<string[]>([]);
     const [tagInput, setTagInput] = useState('');
-    const [formErrors, setFormErrors] = useState<{ originalUrl?: string; tags?: string }>({});
+    const [newAlias, setNewAlias] = useState('');
+    const [aliasStatus, setAliasStatus] = useState<AliasStatus>({ kind: 'empty' });
+    const [newSchedule, setNewSchedule] = useState<ScheduleInput>(EMPTY_SCHEDULE);
+    const [formErrors, setFormErrors] = useState<
+        {
+            originalUrl?: string;
+            tags?: string;
+            alias?: string;
+        } & ScheduleErrors
+    >({});
+
+    const [editing, setEditing] = useState<ShortUrlDto | null>(null);
+
+    const [selected, setSelected] = useState<Map<number, ShortUrlDto>>(new Map());
+    // Set by "Select all N matching": the selection is the filter, not a list of ids.
+    const [allMatching, setAllMatching] = useState(false);
+    // Rows unchecked while `allMatching` is set; bulk actions skip them.
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [bulkTagsMode, setBulkTagsMode] = useState<BulkTagsMode | null>(null);
+    const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
 
     const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
     const [menuRowId, setMenuRowId] = useState<number | null>(null);
 
-    const { success, error } = useAppToast();
+    const { success, apiError } = useAppToast();
+    const can = useCan();
+    const canCreate = can('url.create');
+    const canViewStats = can('url.viewStats');
+    const canEdit = can('url.edit');
+    const canChangeState = can('url.changeState');
+    const access = getCurrentOrganizationAccess();
+    const restricted = !!access && !access.allowedAllUrls;
+    const preview = useRolePreview();
+    const previewing = !!preview;
+    // The API answers for the admin, so a previewed restricted member's list is narrowed to
+    // their grants by member id.
+    const filterMine = restricted && (onlyMine || previewing);
+    const runLatest = useLatestRequest();
 
     const allStates = Object.values(ShortUrlState) as ShortUrlState[];
 
-    const slug = localStorage.getItem(config.currentOrganizationSlugKey)!;
+    const slug = useOrgSlug();
+
+    const listParams = (): ShortUrlsSearchParams => ({
+        p: page,
+        q: perPage,
+        tags: tagsFilter.length ? tagsFilter : undefined,
+        s: stateFilter.length ? stateFilter : undefined,
+        sb: orderBy,
+        dir: orderDir,
+        soon: expiringSoon || undefined,
+        mine: (filterMine && !preview) || undefined,
+        member: filterMine ? preview?.memberId : undefined,
+    });
+
+    /**
+     * One page of the list. A backend that predates `mine`/`member` ignores them and answers
+     * with every link; the list is then loaded in full and narrowed to the granted links here.
+     */
+    const fetchUrls = async (
+        params: ShortUrlsSearchParams,
+        signal: AbortSignal,
+    ): Promise<ApiResult<ShortUrlsListDto>> => {
+        const res = await ApiClient.getShortUrls(slug, params, { signal });
+        if (!filterMine || isErr(res) || res.value.entries.every((u) => can('url.view', u.id))) {
+            return res;
+        }
+        const granted: ShortUrlDto[] = [];
+        const loadPage = async (p: number): Promise<ApiFailure | null> => {
+            const all = await ApiClient.getShortUrls(
+                slug,
+                { ...params, mine: undefined, member: undefined, p, q: BULK_PAGE_SIZE },
+                { signal },
+            );
+            if (isErr(all)) return all;
+            granted.push(...all.value.entries.filter((u) => can('url.view', u.id)));
+            return all.value.hasMore && all.value.entries.length ? loadPage(p + 1) : null;
+        };
+        const failure = await loadPage(0);
+        if (failure) return failure;
+
+        const { page: p, perPage: q } = res.value;
+        return {
+            ...res,
+            value: {
+                ...res.value,
+                entries: granted.slice(p * q, (p + 1) * q),
+                total: granted.length,
+                hasMore: (p + 1) * q < granted.length,
+            },
+        };
+    };
 
     const fetchData = async () => {
         setLoading(true);
-        const params: ShortUrlsSearchParams = {
-            p: page,
-            q: perPage,
-            tags: tagsFilter.length ? tagsFilter : undefined,
-            s: stateFilter.length ? stateFilter : undefined,
-            sb: orderBy,
-            dir: orderDir,
-        };
-        const resEntries = (await ApiClient.getShortUrls(slug, params)) as
-            | ShortUrlsListDto
-            | ErrorResponseElement;
-        if (!('errorType' in resEntries)) {
-            setEntries(resEntries.entries);
-            setTotal(resEntries.total);
-            setPerPage(resEntries.perPage);
+        const params = listParams();
+        const results = await runLatest((signal) =>
+            Promise.all([fetchUrls(params, signal), ApiClient.getTags(slug, { signal })]),
+        );
+        if (!results) return;
+
+        const [resEntries, resTags] = results;
+        if (isOk(resEntries)) {
+            const list: ShortUrlsListDto = resEntries.value;
+            setEntries(list.entries);
+            setTotal(list.total);
+            setPerPage(list.perPage);
         } else {
-            error('Could not get short URLs info');
+            apiError('Could not get short URLs info', resEntries);
         }
-        const resTags = (await ApiClient.getTags(slug)) as string[] | ErrorResponseElement;
-        if (!('errorType' in resTags)) {
-            setAllTags(resTags);
+        if (isOk(resTags)) {
+            setAllTags(resTags.value);
         } else {
-            error('Could not get all tags');
+            apiError('Could not get all tags', resTags);
         }
         setLoading(false);
     };
 
     useEffect(() => {
         fetchData();
-    }, [page, perPage, tagsFilter, stateFilter, orderBy, orderDir]);
+    }, [page, perPage, tagsFilter, stateFilter, orderBy, orderDir, onlyMine, expiringSoon]);
+
+    // Mirror the filters in the address so a reload or a shared link shows the same list.
+    useEffect(() => {
+        const next = new URLSearchParams();
+        if (page) next.set('p', String(page));
+        if (perPage !== DEFAULT_PER_PAGE) next.set('q', String(perPage));
+        tagsFilter.forEach((t) => next.append('tags', t));
+        stateFilter.forEach((s) => next.append('s', s));
+        if (orderBy !== DEFAULT_ORDER_BY) next.set('sb', orderBy);
+        if (orderDir !== 'asc') next.set('dir', orderDir);
+        if (onlyMine) next.set('mine', '1');
+        if (expiringSoon) next.set('soon', '1');
+        if (next.toString() !== searchParams.toString()) setSearchParams(next, { replace: true });
+    }, [
+        page,
+        perPage,
+        tagsFilter,
+        stateFilter,
+        orderBy,
+        orderDir,
+        onlyMine,
+        expiringSoon,
+        searchParams,
+        setSearchParams,
+    ]);
+
+    const clearSelection = () => {
+        setSelected(new Map());
+        setAllMatching(false);
+        setExcluded(new Set());
+    };
+
+    const selectAllMatching = () => {
+        setAllMatching(true);
+        setExcluded(new Set());
+    };
+
+    useEffect(clearSelection, [tagsFilter, stateFilter, onlyMine, expiringSoon]);
+
+    const isSelected = (row: ShortUrlDto) =>
+        allMatching ? !excluded.has(row.id) : selected.has(row.id);
+    const pageSelected = entries.length > 0 && entries.every(isSelected);
+    const selectedCount = allMatching ? total - excluded.size : selected.size;
+
+    const toggleRow = (row: ShortUrlDto) => {
+        if (allMatching) {
+            const next = new Set(excluded);
+            if (next.has(row.id)) next.delete(row.id);
+            else next.add(row.id);
+            setExcluded(next);
+            return;
+        }
+        const next = new Map(selected);
+        if (next.has(row.id)) next.delete(row.id);
+        else next.set(row.id, row);
+        setSelected(next);
+    };
+
+    const togglePage = (checked: boolean) => {
+        if (allMatching) {
+            const next = new Set(excluded);
+            entries.forEach((e) => (checked ? next.delete(e.id) : next.add(e.id)));
+            setExcluded(next);
+            return;
+        }
+        const next = new Map(selected);
+        entries.forEach((e) => (checked ? next.set(e.id, e) : next.delete(e.id)));
+        setSelected(next);
+    };
+
+    /** The selected links, loading every match of the filter for "Select all N matching". */
+    const bulkTargets = async (): Promise<ShortUrlDto[] | null> => {
+        if (!allMatching) return [...selected.values()];
+        const matching: ShortUrlDto[] = [];
+        const loadPage = async (p: number): Promise<ApiFailure | null> => {
+            const res = await ApiClient.getShortUrls(slug, {
+                ...listParams(),
+                p,
+                q: BULK_PAGE_SIZE,
+            });
+            if (isErr(res)) return res;
+            const { entries: pageEntries, hasMore } = res.value;
+            // Narrowed here too in case the backend ignores `mine`/`member`, as in `fetchUrls`.
+            matching.push(...pageEntries.filter((u) => !filterMine || can('url.view', u.id)));
+            return hasMore && pageEntries.length ? loadPage(p + 1) : null;
+        };
+        const failure = await loadPage(0);
+        if (failure) {
+            apiError('Could not load the selected short URLs', failure);
+            return null;
+        }
+        return matching.filter((u) => !excluded.has(u.id));
+    };
+
+    /** Runs `task` over the selection; `task` resolves the reason a link failed, or null. */
+    const runBulk = async (title: string, task: (url: ShortUrlDto) => Promise<string | null>) => {
+        const targets = await bulkTargets();
+        if (!targets) return;
+        const failures: BulkFailure[] = [];
+        setBulkProgress({ title, total: targets.length, done: 0, failures, running: true });
+        await runBatched(
+            targets,
+            BULK_BATCH_SIZE,
+            async (url) => {
+                const reason = await task(url);
+                if (reason) failures.push({ id: url.id, label: url.shortUrl, reason });
+            },
+            (done) => setBulkProgress((p) => p && { ...p, done, failures: [...failures] }),
+        );
+        setBulkProgress((p) => p && { ...p, running: false, failures: [...failures] });
+        fetchData();
+    };
+
+    const handleBulkState = (newState: ShortUrlState) =>
+        runBulk(`Change state to ${STATE_LABELS[newState]}`, async (url) => {
+            if (url.state === newState) return null;
+            const blocked = stateChangeError(url.state, newState);
+            if (blocked) return blocked;
+            if (!can('url.changeState', url.id)) return 'You have no access to this link';
+            const res = await ApiClient.updateShortUrlState(slug, url.id, { newState });
+            return isErr(res) ? failureReason(res) : null;
+        });
+
+    const handleBulkTags = (tags: string[]) => {
+        const adding = bulkTagsMode === 'add';
+        setBulkTagsMode(null);
+        runBulk(adding ? 'Add tags' : 'Remove tags', async (url) => {
+            const nextTags = adding
+                ? [...new Set([...url.tags, ...tags])]
+                : url.tags.filter((t) => !tags.includes(t));
+            if (nextTags.length === url.tags.length) return null;
+            if (url.state === ShortUrlState.ARCHIVED) return 'Archived links cannot be edited';
+            if (!can('url.edit', url.id)) return 'You have no access to this link';
+            const res = await ApiClient.updateShortUrl(slug, url.id, {
+                originalUrl: url.originalUrl,
+                tags: nextTags,
+                title: url.title,
+                activateAt: url.activateAt,
+                expiresAt: url.expiresAt,
+                maxClicks: url.maxClicks,
+            });
+            return isErr(res) ? failureReason(res) : null;
+        });
+    };
+
+    const handleBulkExport = async () => {
+        const targets = await bulkTargets();
+        if (targets) downloadFile(`short-urls-${slug}.csv`, urlsToCsv(targets), 'text/csv');
+    };
 
-    const handleSort = (_: SyntheticEvent, prop: 'originalUrl' | 'shortUrl') => {
+    const handleSort = (_: SyntheticEvent, prop: SortField) => {
         const isAsc = orderBy === prop && orderDir === 'asc';
         setOrderBy(prop);
         setOrderDir(isAsc ? 'desc' : 'asc');
@@ -167,27 +463,20 @@ export default function UrlsPage() {
         if (menuRowId == null) return;
         const current = entries.find((e) => e.id === menuRowId);
         if (!current) return;
-        if (
-            current.state === ShortUrlState.ARCHIVED ||
-            ((current.state === ShortUrlState.ACTIVE ||
-                current.state === ShortUrlState.NOT_ACTIVE) &&
-                newState === ShortUrlState.PENDING)
-        ) {
+        if (stateChangeError(current.state, newState)) {
             handleStateMenuClose();
             return;
         }
-        const res = (await ApiClient.updateShortUrlState(slug, menuRowId, {
+        const res = await ApiClient.updateShortUrlState(slug, menuRowId, {
             newState,
-        } as ChangeUrlStateDto)) as ShortUrlDto | ErrorResponseElement;
-        if (!('errorType' in res)) {
+        } as ChangeUrlStateDto);
+        if (isOk(res)) {
             success("Short URL's state was successfully changed");
             setEntries((prev) =>
-                prev.map((e) =>
-                    e.id === menuRowId ? { ...e, state: (res as ShortUrlDto).state } : e,
-                ),
+                prev.map((e) => (e.id === menuRowId ? { ...e, state: res.value.state } : e)),
             );
         } else {
-            error('Could not change state of the short URL');
+            apiError('Could not change state of the short URL', res);
         }
         handleStateMenuClose();
     };
@@ -197,29 +486,58 @@ export default function UrlsPage() {
         const parsed = createShortUrlSchema.safeParse({
             originalUrl: newOriginalUrl,
             tags: newTags,
+            alias: newAlias.trim() || undefined,
         });
-        if (!parsed.success) {
-            const errs = parsed.error.flatten().fieldErrors;
-            setFormErrors({ originalUrl: errs.originalUrl?.[0], tags: errs.tags?.[0] });
+        const parsedSchedule = scheduleSchema.safeParse(newSchedule);
+        if (!parsed.success || !parsedSchedule.success) {
+            const errs = parsed.success ? {} : parsed.error.flatten().fieldErrors;
+            const scheduleErrs = parsedSchedule.success
+                ? {}
+                : parsedSchedule.error.flatten().fieldErrors;
+            setFormErrors({
+                originalUrl: errs.originalUrl?.[0],
+                tags: errs.tags?.[0],
+                alias: errs.alias?.[0],
+                activateAt: scheduleErrs.activateAt?.[0],
+                expiresAt: scheduleErrs.expiresAt?.[0],
+                maxClicks: scheduleErrs.maxClicks?.[0],
+            });
             return;
         }
-        const res = (await ApiClient.createShortUrl(slug, parsed.data)) as
-            | TokenResponseDto
-            | ErrorResponseElement;
-        if ('errorType' in res) {
-            error('Could not create short URL');
+        if (aliasStatus.kind === 'taken') {
+            setFormErrors({ alias: 'This alias is already taken' });
+            return;
+        }
+        const res = await ApiClient.createShortUrl(slug, {
+            ...parsed.data,
+            ...parsedSchedule.data,
+        });
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.ENTITY_ALREADY_EXISTS)) {
+                setFormErrors({ alias: 'This alias is already taken' });
+            } else {
+                apiError('Could not create short URL', res);
+            }
         } else {
             success('Short URL was successfully created');
             setCreateOpen(false);
             setNewOriginalUrl('');
             setNewTags([]);
             setTagInput('');
+            setNewAlias('');
+            setNewSchedule(EMPTY_SCHEDULE);
             fetchData();
         }
     };
 
+    const handleEdited = (updated: ShortUrlDto) => {
+        setEditing(null);
+        setEntries((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+        ApiClient.getTags(slug).then((res) => isOk(res) && setAllTags(res.value));
+    };
+
     const handleStatsOpen = (id: number) => {
-        window.location.href = `/urls/${id}`;
+        window.location.href = orgPath(slug, `/urls/${id}`);
     };
 
     return (
@@ -254,18 +572,114 @@ export default function UrlsPage() {
                     ChipProps={{ size: 'small', variant: 'outlined' }}
                     sx={{ minWidth: 200 }}
                 />
-                {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                    hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-                    hasRole(MemberRole.ORGANIZATION_URLS_MANAGER)) && (
+                {restricted && !previewing && (
+                    <FormControlLabel
+                        label="Only my links"
+                        control={
+                            <Switch
+                                checked={onlyMine}
+                                onChange={(e) => {
+                                    setOnlyMine(e.target.checked);
+                                    setPage(0);
+                                }}
+                            />
+                        }
+                    />
+                )}
+                <FormControlLabel
+                    label={`Expiring soon (${EXPIRING_SOON_DAYS} days)`}
+                    control={
+                        <Switch
+                            checked={expiringSoon}
+                            onChange={(e) => {
+                                setExpiringSoon(e.target.checked);
+                                setPage(0);
+                            }}
+                        />
+                    }
+                />
+                <Box sx={{ display: 'flex', gap: 1, ml: 'auto' }}>
                     <Button
-                        variant="contained"
-                        onClick={() => setCreateOpen(true)}
-                        sx={{ ml: 'auto' }}
+                        variant="outlined"
+                        endIcon={<ExpandMoreIcon />}
+                        onClick={(e) => setExportAnchor(e.currentTarget)}
                     >
-                        Create Short URL
+                        Export
                     </Button>
-                )}
+                    {canCreate && (
+                        <>
+                            <Button
+                                variant="outlined"
+                                onClick={() => setImportOpen(true)}
+                                disabled={previewing}
+                            >
+                                Import
+                            </Button>
+                            <Button
+                                variant="contained"
+                                onClick={() => setCreateOpen(true)}
+                                disabled={previewing}
+                            >
+                                Create Short URL
+                            </Button>
+                        </>
+                    )}
+                </Box>
             </Box>
+            <Menu
+                anchorEl={exportAnchor}
+                open={Boolean(exportAnchor)}
+                onClose={() => setExportAnchor(null)}
+            >
+                {(Object.keys(URL_EXPORT_FORMATS) as UrlExportFormat[]).map((f) => (
+                    <MenuItem
+                        key={f}
+                        onClick={() => {
+                            setExportAnchor(null);
+                            setExportFormat(f);
+                        }}
+                    >
+                        {URL_EXPORT_FORMATS[f].label}
+                    </MenuItem>
+                ))}
+            </Menu>
+
+            {selectedCount > 0 && (
+                <BulkActionsBar
+                    count={selectedCount}
+                    stateLabels={STATE_LABELS}
+                    canChangeState={canChangeState}
+                    canEditTags={canEdit}
+                    disabled={previewing}
+                    onChangeState={handleBulkState}
+                    onTags={setBulkTagsMode}
+                    onExport={handleBulkExport}
+                    onClear={clearSelection}
+                />
+            )}
+            {(allMatching || (pageSelected && total > entries.length)) && (
+                <Alert
+                    severity="info"
+                    sx={{ mb: 2 }}
+                    action={
+                        allMatching ? (
+                            <Button color="inherit" size="small" onClick={clearSelection}>
+                                Clear selection
+                            </Button>
+                        ) : (
+                            <Button color="inherit" size="small" onClick={selectAllMatching}>
+                                Select all {total} matching
+                            </Button>
+                        )
+                    }
+                >
+                    {allMatching
+                        ? excluded.size
+                            ? `${selectedCount} of ${total} links matching the current filter are selected.`
+                            : `All ${total} links matching the current filter are selected.`
+                        : `All ${entries.length} links on this page are selected.`}
+                </Alert>
+            )}
 
             {loading ? (
                 <Box sx={{ textAlign: 'center', py: 4 }}>
@@ -276,6 +690,15 @@ export default function UrlsPage() {
                     <Table size="small" sx={{ tableLayout: 'fixed', width: '100%' }}>
                         <TableHead>
                             <TableRow>
+                                <TableCell padding="checkbox" sx={{ width: 48 }}>
+                                    <Checkbox
+                                        size="small"
+                                        checked={pageSelected}
+                                        indeterminate={!pageSelected && entries.some(isSelected)}
+                                        onChange={(e) => togglePage(e.target.checked)}
+                                        inputProps={{ 'aria-label': 'Select all on this page' }}
+                                    />
+                                </TableCell>
                                 <TableCell
                                     sortDirection={orderBy === 'shortUrl' ? orderDir : false}
                                 >
@@ -299,13 +722,10 @@ export default function UrlsPage() {
                                     </TableSortLabel>
                                 </TableCell>
                                 <TableCell>Creator</TableCell>
-                                <TableCell sx={{ width: '150px' }}>State</TableCell>
+                                <TableCell sx={{ width: '190px' }}>State</TableCell>
                                 <TableCell>Tags</TableCell>
-                                {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                                    hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-                                    hasRole(MemberRole.ORGANIZATION_URLS_MANAGER)) && (
-                                    <TableCell width={65}>Stats</TableCell>
-                                )}
+                                {canEdit && <TableCell width={65}>Edit</TableCell>}
+                                {canViewStats && <TableCell width={65}>Stats</TableCell>}
                             </TableRow>
                         </TableHead>
                         <TableBody>
@@ -319,10 +739,28 @@ export default function UrlsPage() {
                                         borderColor: 'divider',
                                     }}
                                 >
+                                    <TableCell padding="checkbox">
+                                        <Checkbox
+                                            size="small"
+                                            checked={isSelected(row)}
+                                            onChange={() => toggleRow(row)}
+                                            inputProps={{ 'aria-label': `Select ${row.shortUrl}` }}
+                                        />
+                                    </TableCell>
                                     <TableCell>
                                         <Link href={row.shortUrl} target="_blank" rel="noopener">
                                             {row.shortUrl}
                                         </Link>
+                                        {row.title && (
+                                            <Typography
+                                                variant="caption"
+                                                color="text.secondary"
+                                                noWrap
+                                                display="block"
+                                            >
+                                                {row.title}
+                                            </Typography>
+                                        )}
                                     </TableCell>
                                     <TableCell
                                         sx={{
@@ -349,26 +787,35 @@ export default function UrlsPage() {
                                         </Link>
                                     </TableCell>
                                     <TableCell>{row.creatorName}</TableCell>
-                                    <TableCell sx={{ display: 'flex', alignItems: 'center' }}>
+                                    <TableCell
+                                        sx={{
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            flexWrap: 'wrap',
+                                            gap: 0.5,
+                                        }}
+                                    >
                                         <Chip
                                             label={STATE_LABELS[row.state]}
                                             color={STATE_COLORS[row.state]}
                                             size="small"
                                             variant="outlined"
                                         />
-                                        {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                                            hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-                                            hasRole(MemberRole.ORGANIZATION_URLS_MANAGER)) && (
+                                        {can('url.changeState', row.id) && (
                                             <IconButton
                                                 size="small"
                                                 onClick={(e) =>
                                                     handleStateMenuOpen(e, row.id, row.state)
                                                 }
-                                                disabled={row.state === ShortUrlState.ARCHIVED}
+                                                disabled={
+                                                    previewing ||
+                                                    row.state === ShortUrlState.ARCHIVED
+                                                }
                                             >
                                                 <ExpandMoreIcon fontSize="small" />
                                             </IconButton>
                                         )}
+                                        <ScheduleChips url={row} />
                                     </TableCell>
                                     <TableCell>
                                         {row.tags.map((t) => (
@@ -381,16 +828,32 @@ export default function UrlsPage() {
                                             />
                                         ))}
                                     </TableCell>
-                                    {(hasRole(MemberRole.ORGANIZATION_OWNER) ||
-                                        hasRole(MemberRole.ORGANIZATION_ADMIN) ||
-                                        hasRole(MemberRole.ORGANIZATION_URLS_MANAGER)) && (
+                                    {canEdit && (
                                         <TableCell width={65}>
-                                            <IconButton
-                                                size="small"
-                                                onClick={() => handleStatsOpen(row.id)}
-                                            >
-                                                <BarChartIcon fontSize="small" />
-                                            </IconButton>
+                                            {can('url.edit', row.id) && (
+                                                <IconButton
+                                                    size="small"
+                                                    onClick={() => setEditing(row)}
+                                                    disabled={
+                                                        previewing ||
+                                                        row.state === ShortUrlState.ARCHIVED
+                                                    }
+                                                >
+                                                    <EditIcon fontSize="small" />
+                                                </IconButton>
+                                            )}
+                                        </TableCell>
+                                    )}
+                                    {canViewStats && (
+                                        <TableCell width={65}>
+                                            {can('url.viewStats', row.id) && (
+                                                <IconButton
+                                                    size="small"
+                                                    onClick={() => handleStatsOpen(row.id)}
+                                                >
+                                                    <BarChartIcon fontSize="small" />
+                                                </IconButton>
+                                            )}
                                         </TableCell>
                                     )}
                                 </TableRow>
@@ -412,12 +875,7 @@ export default function UrlsPage() {
             <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={handleStateMenuClose}>
                 {allStates.map((st) => {
                     const current = entries.find((e) => e.id === menuRowId);
-                    const disabled =
-                        !current ||
-                        current.state === ShortUrlState.ARCHIVED ||
-                        ((current.state === ShortUrlState.ACTIVE ||
-                            current.state === ShortUrlState.NOT_ACTIVE) &&
-                            st === ShortUrlState.PENDING);
+                    const disabled = !current || !!stateChangeError(current.state, st);
                     return (
                         <MenuItem
                             key={st}
@@ -439,6 +897,42 @@ export default function UrlsPage() {
                 })}
             </Menu>
 
+            <ExportUrlsDialog
+                slug={slug}
+                format={exportFormat}
+                params={listParams()}
+                canIncludeClicks={canViewStats}
+                onClose={() => setExportFormat(null)}
+            />
+            <ImportUrlsDialog
+                slug={slug}
+                open={importOpen}
+                onClose={() => setImportOpen(false)}
+                onImported={fetchData}
+            />
+            <BulkTagsDialog
+                mode={bulkTagsMode}
+                count={selectedCount}
+                allTags={allTags}
+                onClose={() => setBulkTagsMode(null)}
+                onSubmit={handleBulkTags}
+            />
+            <BulkProgressDialog
+                progress={bulkProgress}
+                onClose={() => {
+                    setBulkProgress(null);
+                    clearSelection();
+                }}
+            />
+
+            <EditShortUrlDialog
+                slug={slug}
+                url={editing}
+                allTags={allTags}
+                onClose={() => setEditing(null)}
+                onSaved={handleEdited}
+            />
+
             <Dialog open={createOpen} onClose={() => setCreateOpen(false)} fullWidth maxWidth="sm">
                 <DialogTitle sx={{ px: 4, pt: 3 }}>Create a New Short URL</DialogTitle>
                 <DialogContent
@@ -454,6 +948,16 @@ export default function UrlsPage() {
                         helperText={formErrors.originalUrl}
                         sx={{ mt: 1 }}
                     />
+                    <AliasField
+                        slug={slug}
+                        value={newAlias}
+                        onChange={(v) => {
+                            setNewAlias(v);
+                            setFormErrors((prev) => ({ ...prev, alias: undefined }));
+                        }}
+                        onStatusChange={setAliasStatus}
+                        error={formErrors.alias}
+                    />
                     <Box
                         sx={{
                             display: 'flex',
@@ -492,6 +996,11 @@ export default function UrlsPage() {
                             {formErrors.tags}
                         </FormHelperText>
                     )}
+                    <ScheduleFields
+                        value={newSchedule}
+                        onChange={setNewSchedule}
+                        errors={formErrors}
+                    />
                 </DialogContent>
                 <DialogActions sx={{ px: 4, pb: 3, gap: 2 }}>
                     <Button onClick={() => setCreateOpen(false)} sx={{ py: 1, px: 3 }}>
@@ -1,4 +1,4 @@
-import { useState, useEffect, Dispatch, SetStateAction, ChangeEvent } from 'react';
+import { useState, useEffect, ChangeEvent } from 'react';
 import {
     Box,
     TextField,
@@ -13,20 +13,21 @@ import {
     DialogActions,
     Slider,
     IconButton,
+    Divider,
 } from '@mui/material';
 import Cropper, { Area } from 'react-easy-crop';
 import CloseIcon from '@mui/icons-material/Close';
-import { UpdateUserInfoDto, UpdateUserProfilePictureDto, UserInfoDto } from '../model/users';
+import { UpdateUserInfoDto, UpdateUserProfilePictureDto } from '../model/users';
 import BackgroundCard from '../components/BackgroundCard';
-import { ApiClient } from '../common/api.ts';
-import { ErrorResponseElement, ServiceErrorType } from '../model/common.ts';
-import * as _ from 'lodash';
+import { ApiClient, queryKeys } from '../common/api.ts';
+import { hasErrorType, isErr } from '../common/result.ts';
+import { ServiceErrorType } from '../model/common.ts';
 import { useAppToast } from '../components/toast.tsx';
-
-interface UserInfoProps {
-    user: UserInfoDto | null;
-    setUser: Dispatch<SetStateAction<UserInfoDto | null>>;
-}
+import { useApiQuery } from '../hooks/useApiQuery.ts';
+import TwoFactorSettings from '../components/TwoFactorSettings.tsx';
+import ChangePasswordForm from '../components/ChangePasswordForm.tsx';
+import DeleteAccountSection from '../components/DeleteAccountSection.tsx';
+import ActiveSessions from '../components/ActiveSessions.tsx';
 
 const createImage = (url: string): Promise<HTMLImageElement> =>
     new Promise((resolve, reject) => {
@@ -60,9 +61,7 @@ const getCroppedImg = async (imageSrc: string, pixelCrop: Area): Promise<string>
     return canvas.toDataURL('image/jpeg');
 };
 
-export default function UserInfoPage({ user, setUser }: UserInfoProps) {
-    const [loading, setLoading] = useState(true);
-
+export default function UserInfoPage() {
     const [firstname, setFirstname] = useState('');
     const [lastname, setLastname] = useState<string | null>(null);
     const [company, setCompany] = useState<string | null>(null);
@@ -78,41 +77,41 @@ export default function UserInfoPage({ user, setUser }: UserInfoProps) {
     const [processingAvatar, setProcessingAvatar] = useState<boolean>(false);
     const [saving, setSaving] = useState<boolean>(false);
 
-    const { success, error } = useAppToast();
+    const { success, error, apiError } = useAppToast();
 
-    useEffect(() => {
-        (async () => {
-            const res: UserInfoDto | ErrorResponseElement = await ApiClient.getUserInfo();
-
-            if (_.has(res, 'errorType')) {
-                error('Could not get user info');
-                return;
-            }
-
-            const payload: UserInfoDto = res as UserInfoDto;
+    const { data: user, failure: userFailure } = useApiQuery(queryKeys.userInfo(), (signal) =>
+        ApiClient.getUserInfo({ signal }),
+    );
 
-            setUser(payload);
-            setFirstname(payload.firstname);
-            setLastname(payload.lastname);
-            setCompany(payload.companyName);
-            setEmail(payload.email);
-            setLoading(false);
-        })();
-    }, [setUser]);
+    useEffect(() => {
+        if (userFailure) apiError('Could not get user info', userFailure);
+    }, [userFailure, apiError]);
+
+    // Refill the form when the saved profile changes, but not when a revalidation returns the
+    // same profile, which would discard unsaved edits.
+    const profile =
+        user &&
+        JSON.stringify([user.id, user.firstname, user.lastname, user.companyName, user.email]);
+    const [shownProfile, setShownProfile] = useState<string | null>(null);
+    if (user && profile !== shownProfile) {
+        setShownProfile(profile);
+        setFirstname(user.firstname);
+        setLastname(user.lastname);
+        setCompany(user.companyName);
+        setEmail(user.email);
+    }
 
     const handleDeleteAvatar = async () => {
         setProcessingAvatar(true);
-        const res: UserInfoDto | ErrorResponseElement = await ApiClient.deleteProfilePicture();
+        const res = await ApiClient.deleteProfilePicture();
 
-        if (_.has(res, 'errorType')) {
-            error('Could not delete profile picture');
+        if (isErr(res)) {
+            apiError('Could not delete profile picture', res);
+            setProcessingAvatar(false);
             return;
         }
 
         success('Profile picture was successfully deleted');
-
-        const payload: UserInfoDto = res as UserInfoDto;
-        setUser(payload);
         setProcessingAvatar(false);
     };
 
@@ -124,23 +123,20 @@ export default function UserInfoPage({ user, setUser }: UserInfoProps) {
             newCompanyName: company,
             newEmail: email || null,
         };
-        const res: UserInfoDto | ErrorResponseElement = await ApiClient.updateUserInfo(dto);
+        const res = await ApiClient.updateUserInfo(dto);
 
         setUpdatingInfo(false);
 
-        if (_.has(res, 'errorType')) {
-            if (res.errorType === ServiceErrorType.ENTITY_ALREADY_EXISTS) {
+        if (isErr(res)) {
+            if (hasErrorType(res, ServiceErrorType.ENTITY_ALREADY_EXISTS)) {
                 error('User with this email already exists');
             } else {
-                error('Could not update user info');
+                apiError('Could not update user info', res);
             }
             return;
         }
 
         success('User info was successfully updated');
-
-        const payload: UserInfoDto = res as UserInfoDto;
-        setUser(payload);
     };
 
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -171,22 +167,20 @@ export default function UserInfoPage({ user, setUser }: UserInfoProps) {
         if (!croppedImage) return;
         const base64 = croppedImage.split(',')[1];
         const dto: UpdateUserProfilePictureDto = { newProfilePictureBase64: base64 };
-        const res: UserInfoDto | ErrorResponseElement = await ApiClient.updateProfilePicture(dto);
+        const res = await ApiClient.updateProfilePicture(dto);
 
-        if (_.has(res, 'errorType')) {
-            error('Could not upload profile picture');
+        if (isErr(res)) {
+            apiError('Could not upload profile picture', res);
+            setSaving(false);
             return;
         }
 
         success('Profile picture was successfully uploaded');
-
-        const payload: UserInfoDto = res as UserInfoDto;
-        setUser(payload);
         setCroppedImage(null);
         setSaving(false);
     };
 
-    if (loading) {
+    if (!user) {
         return (
             <Box sx={{ textAlign: 'center', py: 10 }}>
                 <CircularProgress />
@@ -284,6 +278,21 @@ export default function UserInfoPage({ user, setUser }: UserInfoProps) {
                 </Stack>
             </BackgroundCard>
 
+            <BackgroundCard padding={4} width="100%">
+                <Stack spacing={4} width="100%">
+                    <Typography variant="h4">Security</Typography>
+                    <ChangePasswordForm />
+                    <Divider />
+                    <TwoFactorSettings enabled={user.twoFactorEnabled} />
+                    <Divider />
+                    <ActiveSessions />
+                </Stack>
+            </BackgroundCard>
+
+            <BackgroundCard padding={4} width="100%">
+                <DeleteAccountSection email={user.email} />
+            </BackgroundCard>
+
             <Dialog open={showCrop} maxWidth="sm" fullWidth>
                 <DialogTitle sx={{ m: 0, p: 2 }}>
                     Crop Picture